@@ -5,7 +5,14 @@ pragma solidity ^0.8.0;
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 
 contract MockERC20 is ERC20 {
-    constructor(uint256 initialSupply) ERC20("Mock USDC", "mUSDC") {
+    uint8 private immutable tokenDecimals; // e.g. 6 for mock USDC, 18 for mock DAI/UNI/LINK
+
+    constructor(string memory _name, string memory _symbol, uint8 _decimals, uint256 initialSupply) ERC20(_name, _symbol) {
+        tokenDecimals = _decimals;
         _mint(msg.sender, initialSupply); // Mint initial supply to deployer
     }
+
+    function decimals() public view virtual override returns (uint8) {
+        return tokenDecimals;
+    }
 }
@@ -0,0 +1,18 @@
+// contracts/MockERC20Permit.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+import "./MockERC20.sol";
+
+// MockERC20 with EIP-2612 permits, for depositWithPermit
+contract MockERC20Permit is MockERC20, ERC20Permit {
+    constructor(string memory _name, string memory _symbol, uint8 _decimals, uint256 initialSupply)
+        MockERC20(_name, _symbol, _decimals, initialSupply)
+        ERC20Permit(_name)
+    {}
+
+    function decimals() public view override(ERC20, MockERC20) returns (uint8) {
+        return MockERC20.decimals();
+    }
+}
@@ -0,0 +1,21 @@
+// contracts/MockPriceOracle.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "./interfaces/IPriceOracle.sol";
+
+// Price oracle with fixed, test-set conversion rates
+contract MockPriceOracle is IPriceOracle {
+    // tokenIn => tokenOut => amount of tokenOut (in its smallest unit) per 1e18 smallest units of tokenIn
+    mapping(address => mapping(address => uint256)) public rates;
+
+    function setRate(address _tokenIn, address _tokenOut, uint256 _rate) external {
+        rates[_tokenIn][_tokenOut] = _rate;
+    }
+
+    function quote(address _tokenIn, uint256 _amountIn, address _tokenOut) external view returns (uint256) {
+        uint256 rate = rates[_tokenIn][_tokenOut];
+        require(rate > 0, "MockPriceOracle: NO_RATE");
+        return (_amountIn * rate) / 1e18;
+    }
+}
@@ -0,0 +1,61 @@
+// contracts/MockUniswapV2Router.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+// Stand-in for the Uniswap V2 router so swaps can be tested on a local network without forking.
+// Each hop converts at a fixed, owner-set rate; the router pays out of its own token balance, so fund it first.
+contract MockUniswapV2Router {
+    // tokenIn => tokenOut => amount of tokenOut (in its smallest unit) per 1e18 smallest units of tokenIn
+    mapping(address => mapping(address => uint256)) public rates;
+
+    // Simulated price movement between quote and execution, in basis points (100 = 1%)
+    uint256 public slippage;
+
+    // Part of the router interface. The mock prices swaps from fixed rates rather than pairs and wraps no ether,
+    // so it has neither a pair factory nor a WETH token and both stay unset.
+    address public factory;
+    address public WETH;
+
+    function setRate(address _tokenIn, address _tokenOut, uint256 _rate) external {
+        rates[_tokenIn][_tokenOut] = _rate;
+    }
+
+    function setSlippage(uint256 _slippage) external {
+        require(_slippage <= 10000, "Slippage must be between 0 and 10000");
+        slippage = _slippage;
+    }
+
+    function getAmountsOut(uint256 amountIn, address[] memory path) public view returns (uint256[] memory amounts) {
+        require(path.length >= 2, "MockUniswapV2Router: INVALID_PATH");
+
+        amounts = new uint256[](path.length);
+        amounts[0] = amountIn;
+        for (uint256 i = 0; i < path.length - 1; i++) {
+            uint256 rate = rates[path[i]][path[i + 1]];
+            require(rate > 0, "MockUniswapV2Router: NO_RATE");
+            amounts[i + 1] = (amounts[i] * rate) / 1e18;
+        }
+    }
+
+    function swapExactTokensForTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external returns (uint256[] memory amounts) {
+        require(deadline >= block.timestamp, "MockUniswapV2Router: EXPIRED");
+
+        amounts = getAmountsOut(amountIn, path);
+
+        // Execution price is worse than the quote by the configured slippage
+        uint256 last = path.length - 1;
+        amounts[last] -= (amounts[last] * slippage) / 10000;
+        require(amounts[last] >= amountOutMin, "MockUniswapV2Router: INSUFFICIENT_OUTPUT_AMOUNT");
+
+        require(IERC20(path[0]).transferFrom(msg.sender, address(this), amountIn), "MockUniswapV2Router: TRANSFER_FROM_FAILED");
+        require(IERC20(path[last]).transfer(to, amounts[last]), "MockUniswapV2Router: TRANSFER_FAILED");
+    }
+}
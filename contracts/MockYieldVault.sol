@@ -0,0 +1,58 @@
+// contracts/MockYieldVault.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol";
+import "./interfaces/IYieldStrategy.sol";
+
+// ERC-4626 vault with an IYieldStrategy adapter on top, for testing the investment flow locally.
+// Yield is simulated by calling accrueYield, which raises the value of every share.
+contract MockYieldVault is ERC4626, IYieldStrategy {
+    mapping(address => uint256) public principal; // Assets deposited through the adapter, per account
+
+    constructor(IERC20 _asset) ERC20("Mock Yield Vault", "mYV") ERC4626(_asset) {}
+
+    function asset() public view override(ERC4626, IYieldStrategy) returns (address) {
+        return super.asset();
+    }
+
+    function deposit(uint256 _amount) external {
+        principal[msg.sender] += _amount;
+        deposit(_amount, msg.sender);
+    }
+
+    function withdraw(uint256 _amount) external {
+        require(_amount <= principal[msg.sender], "Amount exceeds principal");
+        principal[msg.sender] -= _amount;
+        withdraw(_amount, msg.sender, msg.sender);
+    }
+
+    function harvest() external returns (uint256) {
+        // Keep exactly the shares needed to cover the principal and redeem the rest
+        uint256 sharesForPrincipal = previewWithdraw(principal[msg.sender]);
+        uint256 shares = balanceOf(msg.sender);
+        if (shares <= sharesForPrincipal) {
+            return 0;
+        }
+
+        return redeem(shares - sharesForPrincipal, msg.sender, msg.sender);
+    }
+
+    function principalOf(address _account) external view returns (uint256) {
+        return principal[_account];
+    }
+
+    function assetsOf(address _account) external view returns (uint256) {
+        return previewRedeem(balanceOf(_account));
+    }
+
+    // Test helper: sends `_amount` of the vault's assets to the caller, as if the strategy had lost them
+    function simulateLoss(uint256 _amount) external {
+        require(IERC20(asset()).transfer(msg.sender, _amount), "Token transfer failed");
+    }
+
+    // Test helper: pulls `_amount` of the asset from the caller into the vault as yield
+    function accrueYield(uint256 _amount) external {
+        require(IERC20(asset()).transferFrom(msg.sender, address(this), _amount), "Token transfer failed");
+    }
+}
@@ -3,90 +3,111 @@ pragma solidity ^0.8.0;
 
 // Import necessary OpenZeppelin contracts for security and ERC20 token functionality
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
-import "@uniswap/v2-periphery/contracts/interfaces/IUniswapV2Router02.sol"; // Import Uniswap V2 router
+import "./interfaces/IYieldStrategy.sol";
+import "./interfaces/IPriceOracle.sol";
+// The wallet does not fit in the 24KB contract size limit on its own. These libraries are deployed separately and
+// linked in; their public functions run in the wallet's context (delegatecall) and work on its storage. Events they
+// declare are copies of the wallet's own, so they are emitted from the wallet's address with the wallet's ABI.
+import "./libraries/SwapLibrary.sol";
+import "./libraries/LedgerLibrary.sol";
+import "./libraries/WithdrawalLibrary.sol";
+import "./libraries/ProposalLibrary.sol";
+import "./libraries/AssetLibrary.sol";
 
 contract MultisigWallet is Ownable (msg.sender){
     // Core state variables
-    struct Participant {
-        address participantAddress;
-        uint256 balance; // Balance in primary token
-        uint256 missedContributions; // Tracks how much was missed in contributions
-        uint256 lastContributionTimestamp; // Last time they contributed
-        uint256 investmentEarnings; // Interest/earnings from investment
-        uint256 withdrawalTimestamp; // Last time they made a withdrawal
-        uint256 investmentStartTimestamp; // When the participant's investment started
-        bool isInvested; // True if the participant has locked funds in investment
-        uint256 investedAmount; // The amount of principal invested
-        uint256 nextInterestTimestamp; // When the next interest payout is due
-        uint256 interestEarned; // Total interest earned over the investment period
-    }
-
-    struct Approval {
-        mapping(address => bool) hasApproved;
-        uint256 approvedCount;
-    }
-
-    mapping(address => Approval) public approvals;
-    mapping(address => Participant) public participants;
+    // Participant, TransactionLog and WithdrawalRequest are declared next to the libraries that operate on them
+    mapping(uint256 => WithdrawalRequest) public withdrawalRequests;
+    mapping(address => uint256) public activeWithdrawalRequest; // Participant => current request ID (0 if none)
+    uint256 public withdrawalRequestCount; // Number of requests created; IDs start at 1
+    // No public getter; getParticipant returns the caller's own record. Balances stay readable from storage and events.
+    mapping(address => Participant) internal participants;
     uint256 public participantCount;
     uint256 public fixedMonthlyContribution; // Fixed amount to contribute monthly
+    uint256 public constant CONTRIBUTION_PERIOD = 30 days; // Length of a contribution cycle
+    uint256 public gracePeriod; // Extra time after a cycle ends before it counts as missed
+    uint256 public latePenaltyRate; // Percentage of the arrears charged on late deposits (0 disables penalties)
     IERC20 public primaryToken; // The token in which savings are stored (e.g., USDC)
     address[] public participantAddresses;
+    uint256 internal membershipCount; // Memberships started so far; numbers each new member's membershipId
+    uint256 public constant MIN_PARTICIPANTS = 3; // The wallet only accepts deposits once the group has this many members
 
     // Supported tokens and swap functionality
     mapping(address => bool) public supportedTokenAddresses; // Mapping to check supported tokens
     address public uniswapRouter; // Address of the Uniswap V2 router
-    uint256 public slippageTolerance = 100; // 1% slippage tolerance
+    uint256 public slippageTolerance; // In basis points, 1% by default
+    mapping(address => address[]) public swapRoutes; // Owner-configured multi-hop paths (token -> ... -> USDC)
+    IPriceOracle public priceOracle; // Optional sanity check for swap quotes, and the price source for held tokens (none if zero address)
+    uint256 public maxOracleDeviation; // How far the router quote may be below the oracle price, in basis points (3% by default)
+
+    // Tokens the owner chose to hold as-is instead of converting them to the primary token (HeldAssets is declared
+    // with AssetLibrary). Each participant reads their own balances with getHeldBalances.
+    HeldAssets internal heldAssets;
 
     // Investment and interest
     uint256 public investmentThreshold; // Minimum balance required for investment
     uint256 public investmentPercentage; // Percentage of total savings to invest
-    uint256 public investmentReturnRate; // Monthly interest rate (e.g., 2%)
-    uint256 public investmentBalance; // Funds allocated for investment
-    uint256 public lastInterestDistributionTimestamp; // Timestamp of last interest payout
-    uint256 public monthlyInterestRate = 15; // Representing 1.5% (15 per thousand)
+    uint256 public investmentBalance; // Funds allocated for investment (sum of participants' invested shares)
+    mapping(address => InvestmentTranche[]) internal investmentTranches; // Participant => allocations still counted towards their lock, oldest first
+    uint256 public constant INVESTMENT_LOCK_PERIOD = 90 days; // Invested shares are locked for 3 months
+    uint256 public monthlyInterestRate; // Most interest credited per 30-day period, per thousand of investmentBalance
+    IYieldStrategy public yieldStrategy; // Where investmentBalance is deposited (none if zero address)
+    uint256 public constant INTEREST_PERIOD = LedgerLibrary.INTEREST_PERIOD; // Interest is credited once per 30-day period
+
+    InterestRound public interestRound; // Interest schedule, harvested yield and the round in progress (see LedgerLibrary)
 
 
     // Withdrawals
-    uint256 public withdrawalFee = 5; // Standard withdrawal fee (5%)
-    uint256 public emergencyWithdrawalFee = 10; // Emergency withdrawal fee (10%)
-    mapping(address => uint256) public withdrawalTimestamps;
+    uint256 public withdrawalFee; // Standard withdrawal fee (5% by default)
+    uint256 public emergencyWithdrawalFee; // Emergency withdrawal fee (10% by default)
+    uint256 public constant WITHDRAWAL_INTERVAL = 180 days; // Regular withdrawals at most once every 6 months
 
-    // Voting and quorum mechanism
-    struct Proposal {
-        uint256 proposalId;
-        string proposalType; // "withdrawal", "investment", etc.
-        address initiator;
-        uint256 voteCount;
-        uint256 timestamp;
-        bool approved;
-    }
+    // Fees (FeePolicy is declared with ProposalLibrary)
+    uint256 public feeReserve; // Fees collected and not yet redistributed or sent to the treasury
+    FeePolicy public feePolicy; // Chosen by participant vote
+    address public treasury; // Receives fees under the Treasury policy
 
+    // Voting and quorum mechanism (ProposalType and Proposal are declared with ProposalLibrary)
     mapping(uint256 => Proposal) public proposals;
-    mapping(address => mapping(uint256 => bool)) public votes; // Tracks votes for each proposal
+    mapping(address => mapping(uint256 => uint256)) public votes; // Participant => proposal => membership (Participant.membershipId) the vote was cast in, 0 if none
     uint256 public quorum; // Quorum for votes
+    uint256 public proposalCount; // Number of proposals created so far (also the next proposal ID)
+    uint256 public votingPeriod; // How long a proposal stays open for voting (7 days by default)
 
     // Transaction logs
-    struct TransactionLog {
-        uint256 amount;
-        string transactionType; // "deposit", "swap", "withdrawal", etc.
-        uint256 timestamp;
-    }
-
-    mapping(address => TransactionLog[]) public transactionLogs; // Logs each participant's transactions
+    mapping(address => TransactionLog[]) internal transactionLogs; // Logs each participant's transactions; getTransactionLogs returns the caller's
 
     // General contract parameters
     uint256 public totalSavings; // Total amount saved in the wallet
     uint256 public totalParticipants; // Total active participants
-    bool public active = true; // Whether the contract is active
+    bool public active; // Whether the contract is active; the guardian can pause deposits, swaps and investments
+    address public guardian; // May pause and unpause the wallet alongside the owner
+    address public factory; // Factory that created this wallet as a clone and keeps its member registry (none if deployed directly)
+
+    // Timelock and bounds for owner parameter changes
+    uint256 public constant TIMELOCK_DELAY = 2 days; // Delay between queueing and applying a parameter change
+    uint256 public constant MAX_INTEREST_RATE = 50; // 5% per month (per thousand)
+    uint256 public constant MAX_WITHDRAWAL_FEE = 20; // 20%
+    uint256 public constant MAX_EMERGENCY_WITHDRAWAL_FEE = 30; // 30%
+    uint256 public constant MAX_LATE_PENALTY_RATE = 20; // 20% of the arrears
+    uint256 public constant MAX_ORACLE_DEVIATION = 1000; // 10%, in basis points
+    mapping(bytes32 => uint256) public queuedChanges; // Change ID => time from which the change can be applied
 
     // Events
     event ContributionMade(address indexed participant, uint256 amount);
     event InvestmentMade(uint256 amount);
+    event YieldHarvested(uint256 amount);
+    event YieldStrategyUpdated(address indexed previousStrategy, address indexed newStrategy);
     event InterestDistributed(uint256 amount);
     event ParticipantAdded(address indexed participant, uint256 timestamp);
+    event ParticipantRemoved(address indexed participant, uint256 settlement);
     event SwapCompleted(address indexed participant, address tokenIn, uint256 amountIn, uint256 amountOut);
+    event SwapRouteUpdated(address indexed token, address[] path);
+    event PriceOracleUpdated(address indexed priceOracle);
+    event MaxOracleDeviationUpdated(uint256 maxOracleDeviation);
+    event TokenHoldingUpdated(address indexed token, bool held);
     event InvestmentStarted(address indexed participant, uint256 amount);
     // Event for when a participant makes an emergency withdrawal
     event EmergencyWithdrawal(address indexed participant, uint256 amountWithdrawn, uint256 fee);
@@ -95,25 +116,107 @@ contract MultisigWallet is Ownable (msg.sender){
     event PrincipalAndInterestWithdrawn(address indexed participant, uint256 totalWithdrawAmount);
     // Event for when a participant makes a regular withdrawal (non-invested participants)
     event WithdrawalMade(address indexed participant, uint256 amountWithdrawn, uint256 fee);
+    // Event for when a held token is paid out (withdrawal, emergency withdrawal or settlement); amounts are in the token
+    event HeldTokenWithdrawn(address indexed participant, address indexed token, uint256 amountWithdrawn, uint256 fee);
+
+    // Event for when a participant opens a withdrawal request
+    event WithdrawalRequested(uint256 indexed requestId, address indexed participant, uint256 amount, uint256 deadline);
 
     // Event for when a participant approves a withdrawal
-    event WithdrawalApproved(address indexed participant, address indexed approver);
+    event WithdrawalApproved(uint256 indexed requestId, address indexed participant, address indexed approver);
 
     // Event for updating the fixed monthly contribution
     event MonthlyContributionUpdated(uint256 newContribution);
 
+    // Events for updating the contribution schedule
+    event GracePeriodUpdated(uint256 newGracePeriod);
+    event LatePenaltyRateUpdated(uint256 newLatePenaltyRate);
+
     // Event for updating the withdrawal fee
     event WithdrawalFeeUpdated(uint256 newWithdrawalFee);
 
+    // Event for updating the emergency withdrawal fee
+    event EmergencyWithdrawalFeeUpdated(uint256 newEmergencyWithdrawalFee);
+
+    // Events for fee handling
+    event FeePolicyUpdated(FeePolicy policy, address treasury);
+    event FeesDistributed(uint256 amount);
+    event FeesSentToTreasury(address indexed treasury, uint256 amount);
+
     // Event for updating the interest rate
     event InterestRateUpdated(uint256 newInterestRate);
 
+    // Events for the pause and the parameter timelock
+    event GuardianUpdated(address indexed guardian);
+    event Paused(address indexed account);
+    event Unpaused(address indexed account);
+    event ParameterChangeQueued(bytes32 indexed changeId, bytes4 selector, uint256 value, uint256 executableAt);
+    event ParameterChangeCancelled(bytes32 indexed changeId);
+
+    // Events for the proposal lifecycle
+    event ProposalCreated(uint256 indexed proposalId, ProposalType proposalType, address indexed initiator, address target, uint256 value, uint256 deadline);
+    event VoteCast(uint256 indexed proposalId, address indexed voter, uint256 voteCount);
+    event ProposalExecuted(uint256 indexed proposalId, ProposalType proposalType);
+
+    // Mirrors every transaction log entry, so that off-chain indexers can rebuild each participant's history
+    event TransactionLogged(address indexed participant, TransactionType indexed transactionType, uint256 amount, address token, uint256 fee);
 
+    // Modifier checks live in internal functions so that their code is not inlined at every use
     modifier onlyWhenActive() {
-        require(active, "Contract is not active");
+        _checkActive();
+        _;
+    }
+
+    // Applies a queued owner parameter change once its timelock has expired
+    modifier timelocked(uint256 _value) {
+        _consumeQueuedChange(msg.sig, _value);
+        _;
+    }
+
+    modifier onlyWhenGroupComplete() {
+        _checkGroupComplete();
+        _;
+    }
+
+    modifier onlyParticipant() {
+        _checkParticipant();
         _;
     }
 
+    // Wraps everything that pays out: once the wallet is under water (e.g. after a strategy loss), nobody may be paid
+    // ahead of the others, since the members left behind would absorb the whole loss
+    modifier keepsSolvency() {
+        (uint256 assets, uint256 liabilities) = _solvency();
+        _;
+        _checkSolvency(assets, liabilities);
+    }
+
+    function _checkActive() internal view {
+        require(active, "Contract is not active");
+    }
+
+    function _consumeQueuedChange(bytes4 _selector, uint256 _value) internal {
+        bytes32 changeId = getChangeId(_selector, _value);
+        require(queuedChanges[changeId] != 0, "Change is not queued");
+        require(block.timestamp >= queuedChanges[changeId], "Timelock has not expired");
+        delete queuedChanges[changeId];
+    }
+
+    function _checkGroupComplete() internal view {
+        require(totalParticipants >= MIN_PARTICIPANTS, "Wallet needs at least 3 participants");
+    }
+
+    function _checkParticipant() internal view {
+        require(participants[msg.sender].participantAddress != address(0), "Caller is not a participant");
+    }
+
+    // Compares the wallet's position with the one before the call: the share of its liabilities that its assets cover
+    // may not drop, unless it still covers all of them
+    function _checkSolvency(uint256 _assetsBefore, uint256 _liabilitiesBefore) internal view {
+        (uint256 assets, uint256 liabilities) = _solvency();
+        require(assets >= liabilities || assets * _liabilitiesBefore >= _assetsBefore * liabilities, "Payout would deepen the wallet's shortfall");
+    }
+
     // Constructor to initialize the primary token, supported tokens, and Uniswap router
     constructor(
         address _primaryToken,
@@ -124,6 +227,44 @@ contract MultisigWallet is Ownable (msg.sender){
         uint256 _investmentReturnRate,
         address _uniswapRouter // Uniswap V2 router address
     ) {
+        _initialize(_primaryToken, _supportedTokens, _fixedMonthlyContribution, _investmentThreshold, _investmentPercentage, _investmentReturnRate, _uniswapRouter);
+    }
+
+    // Sets up a clone created by MultisigWalletFactory, which runs no constructor: the caller becomes the registry
+    // the wallet reports its members to, `_owner` the owner, and `_participants` the founding members
+    function initialize(
+        address _owner,
+        address _primaryToken,
+        address[] memory _supportedTokens,
+        uint256 _fixedMonthlyContribution,
+        uint256 _investmentThreshold,
+        uint256 _investmentPercentage,
+        uint256 _investmentReturnRate,
+        address _uniswapRouter,
+        address[] calldata _participants
+    ) external {
+        // Every initialized wallet has a primary token, including the implementation the clones delegate to
+        require(address(primaryToken) == address(0), "Wallet is already initialized");
+
+        factory = msg.sender;
+        _transferOwnership(_owner);
+        _initialize(_primaryToken, _supportedTokens, _fixedMonthlyContribution, _investmentThreshold, _investmentPercentage, _investmentReturnRate, _uniswapRouter);
+
+        for (uint256 i = 0; i < _participants.length; i++) {
+            _addParticipant(_participants[i]);
+        }
+    }
+
+    function _initialize(
+        address _primaryToken,
+        address[] memory _supportedTokens,
+        uint256 _fixedMonthlyContribution,
+        uint256 _investmentThreshold,
+        uint256 _investmentPercentage,
+        uint256 _investmentReturnRate,
+        address _uniswapRouter
+    ) internal {
+        require(_primaryToken != address(0), "Invalid primary token address");
         primaryToken = IERC20(_primaryToken);
 
         // Add supported tokens to the mapping
@@ -134,287 +275,740 @@ contract MultisigWallet is Ownable (msg.sender){
         fixedMonthlyContribution = _fixedMonthlyContribution;
         investmentThreshold = _investmentThreshold;
         investmentPercentage = _investmentPercentage;
-        investmentReturnRate = _investmentReturnRate;
-        lastInterestDistributionTimestamp = block.timestamp;
+        _checkParameterChange(ProposalType.InterestRateChange, _investmentReturnRate);
+        monthlyInterestRate = _investmentReturnRate;
+        interestRound.lastDistributionTimestamp = block.timestamp;
         uniswapRouter = _uniswapRouter; // Set the Uniswap V2 router address
+
+        // Defaults, set here rather than in the declarations so that clones get them too
+        slippageTolerance = 100;
+        maxOracleDeviation = 300;
+        withdrawalFee = 5;
+        emergencyWithdrawalFee = 10;
+        votingPeriod = 7 days;
+        active = true;
     }
 
     // Function to add participants (must be owner/admin)
     function addParticipant(address _participant) external onlyOwner {
-        require(_participant != address(0), "Invalid participant address");
-        require(participants[_participant].participantAddress == address(0), "Participant already exists");
+        _addParticipant(_participant);
+    }
 
-        participants[_participant].participantAddress = _participant;
-        participants[_participant].balance = 0;
-        participants[_participant].missedContributions = 0;
-        participants[_participant].lastContributionTimestamp = block.timestamp;
-        participants[_participant].investmentEarnings = 0;
-        participants[_participant].withdrawalTimestamp = 0;
+    // Adds several participants in one transaction, e.g. the initial members right after deployment
+    function addParticipants(address[] calldata _participants) external onlyOwner {
+        for (uint256 i = 0; i < _participants.length; i++) {
+            _addParticipant(_participants[i]);
+        }
+    }
 
-        participantAddresses.push(_participant);
+    // Internal helper shared by the owner path and approved AddParticipant proposals
+    function _addParticipant(address _participant) internal {
+        LedgerLibrary.addParticipant(participants, participantAddresses, _participant, ++membershipCount, factory);
         participantCount++;
         totalParticipants++;
 
+        // Majority of participants, e.g. 3 out of 5
+        quorum = totalParticipants / 2 + 1;
+
         emit ParticipantAdded(_participant, block.timestamp);
     }
 
+    // Internal helper for approved RemoveParticipant and ReplaceParticipant proposals: pays out the leaver's whole
+    // balance and drops them from the group. Only a voluntary exit pays a fee; the members who vote someone out must
+    // not gain from it through the fee reserve.
+    function _removeParticipant(address _participant, bool _voluntary) internal {
+        Participant storage participant = participants[_participant];
+        require(participant.participantAddress != address(0), "Participant does not exist");
+        // Reordering participantAddresses mid-round would skip or repeat participants
+        require(!interestRound.inProgress, "Interest distribution in progress");
+
+        // The settlement includes the invested share, even while it is still locked. Leaving before a regular
+        // withdrawal would be allowed (6-month cadence, investment lock) costs the emergency withdrawal fee.
+        uint256 feeRate;
+        if (_voluntary) {
+            feeRate = withdrawalFee;
+            if (
+                block.timestamp < participant.withdrawalTimestamp + WITHDRAWAL_INTERVAL ||
+                (participant.isInvested && block.timestamp < participant.investmentStartTimestamp + INVESTMENT_LOCK_PERIOD)
+            ) {
+                feeRate = emergencyWithdrawalFee;
+            }
+        }
+
+        uint256 settlement = participant.balance;
+        if (settlement > 0) {
+            _debitBalance(participant, settlement, true);
+            _payOut(_participant, settlement, feeRate, TransactionType.Settlement);
+        }
+
+        // Held tokens are settled as-is, with the same fee
+        _withdrawAllHeld(_participant, feeRate, TransactionType.Settlement);
+
+        // Any open withdrawal request can no longer be approved or executed
+        delete activeWithdrawalRequest[_participant];
+
+        LedgerLibrary.removeParticipant(participants, participantAddresses, _participant, factory);
+        participantCount--;
+        totalParticipants--;
+
+        quorum = totalParticipants / 2 + 1;
+
+        emit ParticipantRemoved(_participant, settlement);
+    }
+
+    // Deposits a permit-capable token (EIP-2612) without a separate approve transaction
+    function depositWithPermit(address _token, uint256 _amount, uint256 _deadline, uint8 _v, bytes32 _r, bytes32 _s) external {
+        // Anyone can submit a permit first; if that happened, the allowance it set is all the deposit needs
+        try IERC20Permit(_token).permit(msg.sender, address(this), _amount, _deadline, _v, _r, _s) {} catch {}
+
+        depositToken(_token, _amount);
+    }
+
     // Function to deposit tokens (either the primary token or supported tokens)
-    function depositToken(address _token, uint256 _amount) external {
+    function depositToken(address _token, uint256 _amount) public onlyWhenActive onlyParticipant onlyWhenGroupComplete {
         require(_amount > 0, "Amount must be greater than zero");
         require(supportedTokenAddresses[_token], "Unsupported token");
 
-        // Calculate missed contribution cycles and required contribution
-        uint256 lastContributionTime = participants[msg.sender].lastContributionTimestamp;
-        uint256 missedCycles = (block.timestamp - lastContributionTime) / 30 days;
-        uint256 requiredContribution = fixedMonthlyContribution * (missedCycles + 1);
+        // The deposit must cover this cycle, any missed cycles and the late penalty on them
+        (uint256 missedCycles, , uint256 penalty, uint256 requiredContribution, ) = _contributionStatus(msg.sender);
+        (uint256 credited, uint256 fees) = AssetLibrary.contribute(
+            heldAssets,
+            swapRoutes,
+            transactionLogs,
+            participants[msg.sender],
+            _swapSettings(),
+            _token,
+            _amount,
+            missedCycles,
+            penalty,
+            requiredContribution,
+            fixedMonthlyContribution
+        );
+
+        totalSavings += credited;
+        feeReserve += fees;
+    }
 
-        // Ensure the deposit amount covers missed contributions
-        require(_amount >= requiredContribution, "Insufficient amount to cover missed contributions");
+    // Reports the caller's cycle status: cycles missed beyond the grace period, the arrears and late
+    // penalty owed, the minimum next deposit and the time at which one more cycle counts as missed
+    function getContributionStatus() external view returns (
+        uint256 missedCycles,
+        uint256 arrears,
+        uint256 penalty,
+        uint256 requiredContribution,
+        uint256 nextDueTimestamp
+    ) {
+        return _contributionStatus(msg.sender);
+    }
+
+    function _contributionStatus(address _participant) internal view returns (uint256, uint256, uint256, uint256, uint256) {
+        return LedgerLibrary.contributionStatus(participants[_participant], fixedMonthlyContribution, gracePeriod, latePenaltyRate, CONTRIBUTION_PERIOD);
+    }
 
-        // Handle primary token deposit
-        if (_token == address(primaryToken)) {
-            // Transfer USDC to the contract
-            require(IERC20(_token).transferFrom(msg.sender, address(this), _amount), "USDC transfer failed");
+    // Function to swap tokens to the primary token (USDC)
+    // Swaps are top-ups on top of the monthly contribution and do not settle missed cycles
+    function swapToken(address _token, uint256 _amount) public onlyWhenActive onlyParticipant onlyWhenGroupComplete {
+        uint256 amountOut = _swapToPrimary(_token, _amount);
 
-            // Update the participant's balance and reset missed contributions
-            participants[msg.sender].balance += _amount;
-            participants[msg.sender].missedContributions = 0;
-            participants[msg.sender].lastContributionTimestamp = block.timestamp;
+        // Update the participant's balance with the received USDC
+        participants[msg.sender].balance += amountOut;
+        totalSavings += amountOut;
 
-            // Emit the contribution event
-            emit ContributionMade(msg.sender, _amount);
+        _logTransaction(msg.sender, TransactionType.Swap, amountOut, _token, 0);
+    }
 
+    // Pulls `_amount` of `_token` from the caller, swaps it along the token's route and returns the USDC received
+    function _swapToPrimary(address _token, uint256 _amount) internal returns (uint256) {
+        return SwapLibrary.swapToPrimary(swapRoutes, _swapSettings(), _token, _amount, supportedTokenAddresses[_token]);
+    }
 
-        } else {
-            // Swap non-primary token into USDC
-            swapToken(_token, _amount);
-        }
+    // Swap path for a token: the owner-configured route, or the direct pair (token -> USDC)
+    function getSwapRoute(address _token) public view returns (address[] memory) {
+        return SwapLibrary.routeOf(swapRoutes, _token, address(primaryToken));
     }
 
+    // Function for the owner to route a token through intermediate tokens (e.g. LINK -> WETH -> USDC). Timelocked, with
+    // the hash of the arguments as the queued value.
+    function setSwapRoute(address _token, address[] calldata _path) external onlyOwner timelocked(uint256(keccak256(abi.encode(_token, _path)))) {
+        SwapLibrary.setRoute(swapRoutes, _token, _path, supportedTokenAddresses[_token] && _token != address(primaryToken), address(primaryToken));
+    }
 
-    // Function to swap tokens to the primary token (USDC)
-    function swapToken(address _token, uint256 _amount) public {
-        require(supportedTokenAddresses[_token], "Token is not supported");
-        require(IERC20(_token).allowance(msg.sender, address(this)) >= _amount, "Insufficient token allowance");
-
-        // Ensure we are not swapping USDC for USDC
-        require(_token != address(primaryToken), "Cannot swap USDC for USDC");
-
-        // Transfer the tokens from the user to the contract
-        require(IERC20(_token).transferFrom(msg.sender, address(this), _amount), "Token transfer failed");
-
-        // Approve Uniswap router to spend the tokens
-        IERC20(_token).approve(uniswapRouter, _amount);
-
-        // Define the swap path (token -> USDC)
-        address[] memory path = new address[](2);
-        path[0] = _token; // Input token (DAI, UNI, or LINK)
-        path[1] = address(primaryToken); // Output token (USDC)
-
-        // Calculate minimum amount of USDC to accept based on slippage tolerance
-        uint256 amountOutMin = getAmountOutMin(_token, _amount);
-
-        // Perform the swap on Uniswap
-        IUniswapV2Router02(uniswapRouter).swapExactTokensForTokens(
-            _amount, // Amount of input tokens
-            amountOutMin, // Minimum amount of USDC to receive (after slippage)
-            path, // Path for the swap
-            address(this), // Recipient is the contract
-            block.timestamp + 300 // Deadline (5 minutes from now)
+    // Timelocked, with the oracle's address as the queued value
+    function setPriceOracle(address _priceOracle) external onlyOwner timelocked(uint256(uint160(_priceOracle))) {
+        // Held tokens are valued through the oracle
+        require(_priceOracle != address(0) || heldAssets.tokens.length == 0, "Price oracle is needed while tokens are held");
+        priceOracle = IPriceOracle(_priceOracle);
+
+        emit PriceOracleUpdated(_priceOracle);
+    }
+
+    function setMaxOracleDeviation(uint256 _maxOracleDeviation) external onlyOwner timelocked(_maxOracleDeviation) {
+        require(_maxOracleDeviation <= MAX_ORACLE_DEVIATION, "Deviation exceeds the maximum");
+        maxOracleDeviation = _maxOracleDeviation;
+
+        emit MaxOracleDeviationUpdated(_maxOracleDeviation);
+    }
+
+    // Function for the owner to keep deposits of a supported token as-is instead of converting them to the primary
+    // token. Held tokens are valued through the price oracle, so one must be set first. Timelocked, with the hash of the
+    // arguments as the queued value.
+    function setTokenHolding(address _token, bool _hold) external onlyOwner timelocked(uint256(keccak256(abi.encode(_token, _hold)))) {
+        AssetLibrary.setHolding(heldAssets, _token, _hold, supportedTokenAddresses[_token] && _token != address(primaryToken), priceOracle);
+    }
+
+    function isTokenHeld(address _token) external view returns (bool) {
+        return heldAssets.held[_token];
+    }
+
+    // Amount of a held token the wallet keeps for all participants
+    function totalHeld(address _token) external view returns (uint256) {
+        return heldAssets.totals[_token];
+    }
+
+    // The caller's balance of every token that has been held, in each token's own units
+    function getHeldBalances() external view returns (address[] memory tokens, uint256[] memory amounts) {
+        return AssetLibrary.balancesOf(heldAssets, msg.sender);
+    }
+
+    // Settings the libraries swap tokens and value held tokens with
+    function _swapSettings() internal view returns (SwapSettings memory) {
+        return SwapSettings(address(primaryToken), uniswapRouter, slippageTolerance, priceOracle, maxOracleDeviation);
+    }
+
+    // Function for participants to propose moving the configured percentage of the pool into investment once the
+    // threshold is reached. Investing locks every member's share, so the group votes on it.
+    function invest() external onlyParticipant returns (uint256) {
+        _checkInvestable();
+        return _createProposal(ProposalType.Investment, address(0), 0, 0);
+    }
+
+    function _checkInvestable() internal view {
+        _checkActive();
+        require(totalSavings >= investmentThreshold, "Total savings below investment threshold");
+        // Shares must not change while interest is being credited pro rata
+        require(!interestRound.inProgress, "Interest distribution in progress");
+    }
+
+    // Internal helper for approved Investment proposals
+    function _invest() internal {
+        _checkInvestable();
+
+        // Allocate pro rata: each participant's invested share is topped up to investmentPercentage of their balance
+        uint256 amountInvested = LedgerLibrary.allocateInvestment(
+            participants,
+            participantAddresses,
+            investmentTranches,
+            transactionLogs,
+            investmentPercentage,
+            INVESTMENT_LOCK_PERIOD,
+            address(primaryToken)
         );
 
-        // Get the balance of USDC after the swap
-        uint256 usdcBalanceAfterSwap = IERC20(primaryToken).balanceOf(address(this));
+        require(amountInvested > 0, "Nothing to invest");
 
-        // Update the participant's balance with the received USDC
-        participants[msg.sender].balance += usdcBalanceAfterSwap;
-        participants[msg.sender].lastContributionTimestamp = block.timestamp;
+        // The remaining balance stays liquid for withdrawals
+        investmentBalance += amountInvested;
+        _depositToStrategy(amountInvested);
 
-        // Emit a swap completion event
-        emit SwapCompleted(msg.sender, _token, _amount, usdcBalanceAfterSwap);
+        emit InvestmentMade(amountInvested);
     }
 
-    // Helper function to calculate the minimum amount of USDC based on slippage
-    function getAmountOutMin(address _token, uint256 _amount) internal view returns (uint256) {
-        // Get the current exchange rates from Uniswap
-        uint256[] memory amounts = IUniswapV2Router02(uniswapRouter).getAmountsOut(_amount, getPathForTokenToUSDC(_token));
+    // Function to collect the yield the strategy has earned on the invested funds
+    function harvestYield() external onlyParticipant returns (uint256) {
+        require(address(yieldStrategy) != address(0), "No yield strategy set");
 
-        // Calculate minimum amount of USDC, considering slippage tolerance
-        return amounts[1] - (amounts[1] * slippageTolerance / 10000);
+        uint256 harvested = yieldStrategy.harvest();
+        interestRound.undistributedYield += harvested;
+
+        emit YieldHarvested(harvested);
+        return harvested;
     }
 
-    // Helper function to define the swap path for Uniswap (token -> USDC)
-    function getPathForTokenToUSDC(address _token) internal view returns (address[] memory) {
-        address[] memory path = new address[](2);
-        path[0] = _token; // Input token
-        path[1] = address(primaryToken); // Output token (USDC)
-        return path;
+    // Function anyone can call to credit interest for every elapsed 30-day period, pro rata to invested shares.
+    // Large groups can be processed over several calls; each call credits at most `_maxParticipants` participants.
+    function distributeInterest(uint256 _maxParticipants) external {
+        totalSavings += LedgerLibrary.distributeInterest(
+            interestRound,
+            participants,
+            participantAddresses,
+            transactionLogs,
+            yieldStrategy,
+            investmentBalance,
+            monthlyInterestRate,
+            _maxParticipants,
+            address(primaryToken)
+        );
     }
 
-    function invest() external {
-        Participant storage participant = participants[msg.sender];
-        // Check if the participant is already invested
-        require(!participant.isInvested, "Active investment exists. Withdraw first before reinvesting.");
-        require(participant.balance >= 2 * fixedMonthlyContribution, "Insufficient balance to invest");
+    function _depositToStrategy(uint256 _amount) internal {
+        if (address(yieldStrategy) == address(0) || _amount == 0) {
+            return;
+        }
 
-        // Use the participant's total balance for investing
-        uint256 amountToInvest = participant.balance;
+        require(IERC20(primaryToken).approve(address(yieldStrategy), _amount), "Approval failed");
+        yieldStrategy.deposit(_amount);
+    }
 
-        // Mark the participant as invested and lock the funds
-        participant.isInvested = true;
-        participant.investmentStartTimestamp = block.timestamp;
-        participant.investedAmount = amountToInvest;
-        participant.nextInterestTimestamp = block.timestamp + 30 days;
+    function _withdrawFromStrategy(uint256 _amount) internal {
+        if (address(yieldStrategy) == address(0) || _amount == 0) {
+            return;
+        }
 
-        // Emit an event for investment start
-        emit InvestmentStarted(msg.sender, amountToInvest);
+        yieldStrategy.withdraw(_amount);
     }
 
-    function withdraw() external {
-        Participant storage participant = participants[msg.sender];
-        require(participant.balance > 0, "No balance to withdraw");
+    // Moves the invested funds (and any pending yield) from the current strategy to the new one
+    function _setYieldStrategy(address _newStrategy) internal {
+        address previousStrategy = address(yieldStrategy);
+
+        if (previousStrategy != address(0)) {
+            interestRound.undistributedYield += yieldStrategy.harvest();
+            _withdrawFromStrategy(yieldStrategy.principalOf(address(this)));
+        }
 
-        // Check if the participant is invested
-        if (participant.isInvested) {
-            // Ensure the 3-month lock period has passed
-            require(block.timestamp >= participant.investmentStartTimestamp + 90 days, "Investment lock period has not ended");
+        yieldStrategy = IYieldStrategy(_newStrategy);
+        _depositToStrategy(investmentBalance);
 
-            // Ensure quorum approval is met before proceeding with withdrawal
-            require(approvals[msg.sender].approvedCount >= totalParticipants - 1, "Quorum approval not met");
+        emit YieldStrategyUpdated(previousStrategy, _newStrategy);
+    }
 
-            // Calculate interest based on how many months have passed since investment start
-            uint256 monthsInvested = (block.timestamp - participant.investmentStartTimestamp) / 30 days;
-            uint256 totalInterest = (participant.investedAmount * monthlyInterestRate * monthsInvested) / 1000;
+    // Deducts `_amount` from a participant's balance (see LedgerLibrary.debit) and takes any invested share it
+    // releases out of the investment pool
+    function _debitBalance(Participant storage participant, uint256 _amount, bool _ignoreLock) internal {
+        uint256 released = LedgerLibrary.debit(participant, investmentTranches[participant.participantAddress], _amount, _ignoreLock, INVESTMENT_LOCK_PERIOD);
+        investmentBalance -= released;
+        _withdrawFromStrategy(released);
 
-            // Calculate total withdrawal amount (principal + interest)
-            uint256 totalWithdrawAmount = participant.investedAmount + totalInterest;
+        totalSavings -= _amount;
+    }
+
+    // Function to withdraw up to the amount of the caller's approved request, at most once every 6 months
+    function withdraw(uint256 _amount) external keepsSolvency {
+        Participant storage participant = participants[msg.sender];
+        require(participant.balance > 0, "No balance to withdraw");
+        require(_amount > 0, "Withdrawal amount must be greater than zero");
 
-            // Reset investment details
-            participant.isInvested = false;
-            participant.investedAmount = 0;
-            participant.interestEarned = 0;
-            participant.investmentStartTimestamp = 0;
-            participant.nextInterestTimestamp = 0;
+        // Checks the caller's approved request and the 6-month cadence, then consumes the request
+        WithdrawalLibrary.consume(withdrawalRequests, activeWithdrawalRequest, participants, participantAddresses, msg.sender, _amount, nextWithdrawalDate());
 
-            // Transfer the total withdrawal amount to the participant
-            require(IERC20(primaryToken).transfer(msg.sender, totalWithdrawAmount), "Transfer failed");
+        // Start the next 6-month cycle
+        participant.withdrawalTimestamp = block.timestamp;
 
-            // Emit withdrawal event
-            emit PrincipalAndInterestWithdrawn(msg.sender, totalWithdrawAmount);
-        } else {
-            // For non-investors, allow regular withdrawal with a 5% fee
-            require(approvals[msg.sender].approvedCount >= totalParticipants - 1, "Quorum approval not met");
+        // Pay from the liquid balance; the invested share can only be released after the lock period
+        _debitBalance(participant, _amount, false);
 
-            uint256 amountToWithdraw = participant.balance;
-            uint256 fee = (amountToWithdraw * withdrawalFee) / 100;
-            uint256 finalWithdrawAmount = amountToWithdraw - fee;
+        _payOut(msg.sender, _amount, withdrawalFee, TransactionType.Withdrawal);
+    }
 
-            // Reset the participant's balance
-            participant.balance = 0;
+    // Pays out `_amount`, already debited from the participant's balance, less a fee of `_feeRate` percent, and
+    // returns the amount paid
+    function _payOut(address _participant, uint256 _amount, uint256 _feeRate, TransactionType _transactionType) internal returns (uint256 paid) {
+        uint256 fee = (_amount * _feeRate) / 100;
+        paid = _amount - fee;
+        feeReserve += fee;
 
-            // Transfer the final amount to the participant
-            require(IERC20(primaryToken).transfer(msg.sender, finalWithdrawAmount), "Transfer failed");
+        // Transfer the final amount to the participant
+        _transferPrimary(_participant, paid);
 
-            // Emit withdrawal event
-            emit WithdrawalMade(msg.sender, finalWithdrawAmount, fee);
+        if (_transactionType == TransactionType.Withdrawal) {
+            emit WithdrawalMade(_participant, paid, fee);
+        } else if (_transactionType == TransactionType.EmergencyWithdrawal) {
+            emit EmergencyWithdrawal(_participant, paid, fee);
         }
+        _logTransaction(_participant, _transactionType, _amount, address(primaryToken), fee);
+    }
+
+    // Function to withdraw `_amount` of a held token; the approved request and the 6-month cadence apply to its value
+    function withdrawHeld(address _token, uint256 _amount) external keepsSolvency {
+        require(_amount > 0, "Withdrawal amount must be greater than zero");
+        SwapSettings memory settings = _swapSettings();
+
+        // The request is checked and consumed before anything is paid out
+        WithdrawalLibrary.consume(withdrawalRequests, activeWithdrawalRequest, participants, participantAddresses, msg.sender, AssetLibrary.valueOf(settings, _token, _amount), nextWithdrawalDate());
+        participants[msg.sender].withdrawalTimestamp = block.timestamp;
+
+        feeReserve += AssetLibrary.withdraw(heldAssets, transactionLogs, swapRoutes, settings, msg.sender, _token, _amount, withdrawalFee, TransactionType.Withdrawal);
+    }
 
-            // Reset approval count after successful withdrawal
-            approvals[msg.sender].approvedCount = 0;
+    // Pays out all of a participant's held tokens, less a fee of `_feeRate` percent, and returns whether they held any
+    function _withdrawAllHeld(address _participant, uint256 _feeRate, TransactionType _transactionType) internal returns (bool) {
+        (uint256 feesReceived, bool paid) = AssetLibrary.withdrawAll(heldAssets, transactionLogs, swapRoutes, _swapSettings(), _participant, _feeRate, _transactionType);
+        feeReserve += feesReceived;
+        return paid;
     }
 
 
+    // Function for participants to request a withdrawal of a specific amount
+    function requestWithdrawal(uint256 _amount) external onlyParticipant returns (uint256) {
+        require(_amount > 0, "Withdrawal amount must be greater than zero");
+        // Held tokens count at their current value
+        uint256 heldValue = AssetLibrary.totalValue(heldAssets, _swapSettings(), msg.sender);
+        require(_amount <= participants[msg.sender].balance + heldValue, "Withdrawal amount exceeds balance");
+
+        withdrawalRequestCount++;
+        uint256 requestId = withdrawalRequestCount;
+
+        // A new request supersedes any earlier one, along with its approvals
+        WithdrawalLibrary.request(withdrawalRequests, activeWithdrawalRequest, requestId, msg.sender, _amount, block.timestamp + votingPeriod);
+
+        return requestId;
+    }
+
     // Function for participants to approve a withdrawal request
-    function approveWithdrawal(address participant) external {
-        require(participant != msg.sender, "You cannot approve your own withdrawal");
-        require(participants[msg.sender].participantAddress != address(0), "Only participants can approve");
+    function approveWithdrawal(uint256 _requestId) external {
+        WithdrawalLibrary.approve(withdrawalRequests, activeWithdrawalRequest, participants, participantAddresses, _requestId, msg.sender);
+    }
+
+    // Submits approvals that participants signed off-chain as EIP-712 WithdrawalApproval(requestId, participant, amount)
+    // messages; anyone may relay them
+    function approveWithdrawalsBySig(uint256 _requestId, address[] calldata _approvers, bytes[] calldata _signatures) external {
+        WithdrawalLibrary.approveBySig(withdrawalRequests, activeWithdrawalRequest, participants, participantAddresses, _requestId, _approvers, _signatures);
+    }
+
+    // EIP-712 domain separator for signed approvals (name "MultisigWallet", version "1")
+    function domainSeparator() external view returns (bytes32) {
+        return WithdrawalLibrary.domainSeparator();
+    }
 
-        // Ensure the participant hasn't already approved this withdrawal
-        require(!approvals[participant].hasApproved[msg.sender], "You have already approved this withdrawal");
+    // Whether `_approver`'s approval of the request counts, i.e. they gave it as the member they are now
+    function hasApprovedWithdrawal(uint256 _requestId, address _approver) external view returns (bool) {
+        uint256 membershipId = participants[_approver].membershipId;
+        return membershipId != 0 && withdrawalRequests[_requestId].approvals[_approver] == membershipId;
+    }
 
-        // Mark the participant as having approved
-        approvals[participant].hasApproved[msg.sender] = true;
-        approvals[participant].approvedCount++;
 
-        // Emit an event for the approval
-        emit WithdrawalApproved(participant, msg.sender);
+    // Function for participants to open a proposal; the initiator's vote is counted immediately
+    function createProposal(ProposalType _proposalType, address _target, uint256 _value) external onlyParticipant returns (uint256) {
+        // Early withdrawals proposed this way use the standard withdrawal fee
+        return _createProposal(_proposalType, _target, _value, withdrawalFee);
     }
 
+    // Function for participants to propose an early withdrawal with a special fee for the group to accept
+    function proposeEarlyWithdrawal(uint256 _amount, uint256 _fee) external onlyParticipant returns (uint256) {
+        require(_fee <= 100, "Fee must be between 0 and 100");
+        return _createProposal(ProposalType.EarlyWithdrawal, msg.sender, _amount, _fee);
+    }
 
-    function emergencyWithdraw() external {
-        Participant storage participant = participants[msg.sender];
+    // Function for the owner to propose a new yield strategy; it only takes effect once participants approve it
+    function proposeStrategyChange(address _strategy) external onlyOwner returns (uint256) {
+        return _createProposal(ProposalType.StrategyChange, _strategy, 0, 0);
+    }
 
-        // Check if the participant has a balance or is invested
-        if (participant.isInvested) {
-            // The participant is still within the lock period but wants to withdraw early
-            require(block.timestamp < participant.investmentStartTimestamp + 90 days, "Cannot use emergency withdrawal after the lock period");
-            require(participant.investedAmount > 0, "No invested balance to withdraw");
+    // Function for participants to propose leaving the group; their balance is settled once the others approve
+    function proposeExit() external onlyParticipant returns (uint256) {
+        return _createProposal(ProposalType.RemoveParticipant, msg.sender, 0, 0);
+    }
+
+    // Function for participants to propose that `_replacement` takes `_participant`'s place, keeping the group's size
+    function proposeReplacement(address _participant, address _replacement) external onlyParticipant returns (uint256) {
+        return _createProposal(ProposalType.ReplaceParticipant, _participant, uint256(uint160(_replacement)), 0);
+    }
+
+    function _createProposal(ProposalType _proposalType, address _target, uint256 _value, uint256 _fee) internal returns (uint256) {
+        _checkParameterChange(_proposalType, _value);
+
+        uint256 proposalId = proposalCount;
+        proposalCount++;
+
+        ProposalLibrary.create(proposals, participants, proposalId, _proposalType, _target, _value, _fee, votingPeriod, address(primaryToken));
+
+        // The initiator supports their own proposal (the owner only proposes and may not be a participant)
+        if (participants[msg.sender].participantAddress != address(0)) {
+            _castVote(proposals[proposalId]);
+        }
+
+        return proposalId;
+    }
+
+    // Function for participants to vote on an open proposal
+    function vote(uint256 _proposalId) external onlyParticipant {
+        ProposalLibrary.checkVote(proposals, votes, participants, proposalCount, _proposalId);
+
+        _castVote(proposals[_proposalId]);
+    }
+
+    // Records the caller's vote and executes the proposal as soon as quorum is reached
+    function _castVote(Proposal storage proposal) internal {
+        votes[msg.sender][proposal.proposalId] = participants[msg.sender].membershipId;
+        proposal.voteCount = ProposalLibrary.countVotes(votes, participants, participantAddresses, proposal.proposalId);
 
-            // Calculate interest earned up to this point
-            uint256 monthsInvested = (block.timestamp - participant.investmentStartTimestamp) / 30 days;
-            uint256 totalInterest = (participant.investedAmount * monthlyInterestRate * monthsInvested) / 1000;
+        emit VoteCast(proposal.proposalId, msg.sender, proposal.voteCount);
 
-            // Calculate the total amount to withdraw (principal + interest)
-            uint256 totalWithdrawAmount = participant.investedAmount + totalInterest;
+        if (proposal.voteCount >= quorum) {
+            _executeProposal(proposal);
+        }
+    }
 
-            // Apply emergency withdrawal fee (10%)
-            uint256 fee = (totalWithdrawAmount * emergencyWithdrawalFee) / 100;
-            uint256 finalWithdrawAmount = totalWithdrawAmount - fee;
+    function _executeProposal(Proposal storage proposal) internal keepsSolvency {
+        // The contribution may have changed since the proposal was opened
+        _checkParameterChange(proposal.proposalType, proposal.value);
+        proposal.approved = true;
+
+        if (proposal.proposalType == ProposalType.EarlyWithdrawal) {
+            // The balance may have changed while the vote was open
+            _debitBalance(participants[proposal.target], proposal.value, false);
+
+            participants[proposal.target].withdrawalTimestamp = block.timestamp;
+
+            // Early withdrawals skip the 6-month cadence and pay the fee the group voted on
+            _payOut(proposal.target, proposal.value, proposal.fee, TransactionType.Withdrawal);
+        } else if (proposal.proposalType == ProposalType.FeeChange) {
+            withdrawalFee = proposal.value;
+            emit WithdrawalFeeUpdated(proposal.value);
+        } else if (proposal.proposalType == ProposalType.ContributionChange) {
+            fixedMonthlyContribution = proposal.value;
+            emit MonthlyContributionUpdated(proposal.value);
+        } else if (proposal.proposalType == ProposalType.InterestRateChange) {
+            monthlyInterestRate = proposal.value;
+            emit InterestRateUpdated(proposal.value);
+        } else if (proposal.proposalType == ProposalType.AddParticipant) {
+            _addParticipant(proposal.target);
+        } else if (proposal.proposalType == ProposalType.StrategyChange) {
+            _setYieldStrategy(proposal.target);
+        } else if (proposal.proposalType == ProposalType.FeePolicyChange) {
+            feePolicy = FeePolicy(proposal.value);
+            treasury = proposal.target;
+            emit FeePolicyUpdated(feePolicy, proposal.target);
+        } else if (proposal.proposalType == ProposalType.RemoveParticipant) {
+            _removeParticipant(proposal.target, proposal.target == proposal.initiator);
+        } else if (proposal.proposalType == ProposalType.OwnershipTransfer) {
+            _transferOwnership(proposal.target);
+        } else if (proposal.proposalType == ProposalType.ReplaceParticipant) {
+            _removeParticipant(proposal.target, false);
+            _addParticipant(address(uint160(proposal.value)));
+        } else if (proposal.proposalType == ProposalType.Investment) {
+            _invest();
+        }
 
-            // Reset the participant's investment status
-            participant.isInvested = false;
-            participant.investedAmount = 0;
-            participant.interestEarned = 0;
-            participant.investmentStartTimestamp = 0;
-            participant.nextInterestTimestamp = 0;
+        emit ProposalExecuted(proposal.proposalId, proposal.proposalType);
+    }
 
-            // Transfer the final withdrawal amount to the participant
-            require(IERC20(primaryToken).transfer(msg.sender, finalWithdrawAmount), "Transfer failed");
 
-            // Emit an event for emergency withdrawal
-            emit EmergencyWithdrawal(msg.sender, finalWithdrawAmount, fee);
-        } else {
-            // For non-invested participants, check if they have a balance
-            require(participant.balance > 0, "No balance to withdraw");
+    function emergencyWithdraw() external keepsSolvency {
+        Participant storage participant = participants[msg.sender];
+
+        // An invested share can only be pulled out early while it is still locked; afterwards the regular withdrawal
+        // applies to the primary balance, and held tokens can still be withdrawn here on their own
+        bool lockEnded = participant.isInvested && block.timestamp >= participant.investmentStartTimestamp + INVESTMENT_LOCK_PERIOD;
+        uint256 amountToWithdraw = lockEnded ? 0 : participant.balance;
 
-            // Apply the emergency withdrawal fee (10%)
-            uint256 amountToWithdraw = participant.balance;
-            uint256 fee = (amountToWithdraw * emergencyWithdrawalFee) / 100;
-            uint256 finalWithdrawAmount = amountToWithdraw - fee;
+        // Held tokens are paid out as-is, with the same fee
+        bool paidHeld = _withdrawAllHeld(msg.sender, emergencyWithdrawalFee, TransactionType.EmergencyWithdrawal);
+        if (amountToWithdraw == 0) {
+            require(paidHeld, lockEnded ? "Cannot use emergency withdrawal after the lock period" : "No balance to withdraw");
+            return;
+        }
 
-            // Reset the participant's balance
-            participant.balance = 0;
+        // Withdraw the whole balance, including the invested share
+        _debitBalance(participant, amountToWithdraw, true);
 
-            // Transfer the final amount to the participant
-            require(IERC20(primaryToken).transfer(msg.sender, finalWithdrawAmount), "Transfer failed");
+        // Apply the emergency withdrawal fee (10%)
+        _payOut(msg.sender, amountToWithdraw, emergencyWithdrawalFee, TransactionType.EmergencyWithdrawal);
+    }
 
-            // Emit an event for emergency withdrawal
-            emit EmergencyWithdrawal(msg.sender, finalWithdrawAmount, fee);
+    // Bounds on the withdrawal fee, the monthly contribution and the interest rate, whether the owner changes them
+    // after the timelock or the participants vote on a change. The contribution may at most halve or double per change.
+    function _checkParameterChange(ProposalType _proposalType, uint256 _value) internal view {
+        if (_proposalType == ProposalType.FeeChange) {
+            require(_value <= MAX_WITHDRAWAL_FEE, "Fee exceeds the maximum");
+        } else if (_proposalType == ProposalType.ContributionChange) {
+            require(_value > 0, "Contribution must be greater than zero");
+            require(_value * 2 >= fixedMonthlyContribution && _value <= fixedMonthlyContribution * 2, "Contribution change out of range");
+        } else if (_proposalType == ProposalType.InterestRateChange) {
+            require(_value <= MAX_INTEREST_RATE, "Interest rate exceeds the maximum");
         }
     }
 
-    function updateMonthlyContribution(uint256 _newContribution) external onlyOwner {
-        require(_newContribution > 0, "Contribution must be greater than zero");
+    function updateMonthlyContribution(uint256 _newContribution) external onlyOwner timelocked(_newContribution) {
+        _checkParameterChange(ProposalType.ContributionChange, _newContribution);
         fixedMonthlyContribution = _newContribution;
 
         emit MonthlyContributionUpdated(_newContribution);
     }
 
-    function updateWithdrawalFee(uint256 _newWithdrawalFee) external onlyOwner {
-        require(_newWithdrawalFee >= 0 && _newWithdrawalFee <= 100, "Fee must be between 0 and 100");
+    function updateGracePeriod(uint256 _newGracePeriod) external onlyOwner timelocked(_newGracePeriod) {
+        require(_newGracePeriod < CONTRIBUTION_PERIOD, "Grace period must be shorter than a cycle");
+        gracePeriod = _newGracePeriod;
+
+        emit GracePeriodUpdated(_newGracePeriod);
+    }
+
+    function updateLatePenaltyRate(uint256 _newLatePenaltyRate) external onlyOwner timelocked(_newLatePenaltyRate) {
+        require(_newLatePenaltyRate <= MAX_LATE_PENALTY_RATE, "Penalty exceeds the maximum");
+        latePenaltyRate = _newLatePenaltyRate;
+
+        emit LatePenaltyRateUpdated(_newLatePenaltyRate);
+    }
+
+    function updateWithdrawalFee(uint256 _newWithdrawalFee) external onlyOwner timelocked(_newWithdrawalFee) {
+        _checkParameterChange(ProposalType.FeeChange, _newWithdrawalFee);
         withdrawalFee = _newWithdrawalFee;
 
         emit WithdrawalFeeUpdated(_newWithdrawalFee);
     }
 
 
-    function updateInterestRate(uint256 _newInterestRate) external onlyOwner {
-        require(_newInterestRate >= 0, "Interest rate must be non-negative");
+    function updateEmergencyWithdrawalFee(uint256 _newEmergencyWithdrawalFee) external onlyOwner timelocked(_newEmergencyWithdrawalFee) {
+        require(_newEmergencyWithdrawalFee <= MAX_EMERGENCY_WITHDRAWAL_FEE, "Fee exceeds the maximum");
+        emergencyWithdrawalFee = _newEmergencyWithdrawalFee;
+
+        emit EmergencyWithdrawalFeeUpdated(_newEmergencyWithdrawalFee);
+    }
+
+    // Function anyone can call to hand out the fee reserve according to the voted fee policy
+    function distributeFees() external keepsSolvency {
+        require(feeReserve > 0, "No fees to distribute");
+
+        if (feePolicy == FeePolicy.Treasury) {
+            uint256 amount = feeReserve;
+            feeReserve = 0;
+
+            _transferPrimary(treasury, amount);
+
+            emit FeesSentToTreasury(treasury, amount);
+            return;
+        }
+
+        // Redistribute pro rata to the balances of the participants still saving in the wallet
+        require(totalSavings > 0, "No participant balances to share fees with");
+
+        uint256 reserve = feeReserve;
+        uint256 distributed = LedgerLibrary.shareFees(participants, participantAddresses, transactionLogs, reserve, totalSavings, address(primaryToken));
+
+        // Rounding dust stays in the reserve
+        feeReserve = reserve - distributed;
+        totalSavings += distributed;
+
+        emit FeesDistributed(distributed);
+    }
+
+    function updateInterestRate(uint256 _newInterestRate) external onlyOwner timelocked(_newInterestRate) {
+        _checkParameterChange(ProposalType.InterestRateChange, _newInterestRate);
         monthlyInterestRate = _newInterestRate;
 
         emit InterestRateUpdated(_newInterestRate);
     }
 
+    // ID under which a call to the timelocked updater `_selector` with `_value` is queued
+    function getChangeId(bytes4 _selector, uint256 _value) public pure returns (bytes32) {
+        return keccak256(abi.encode(_selector, _value));
+    }
+
+    // Function for the owner to queue a change to one of the timelocked settings: the interest rate, withdrawal fees,
+    // monthly contribution, late payment terms, price oracle, swap routes and held tokens
+    function queueParameterChange(bytes4 _selector, uint256 _value) external onlyOwner returns (bytes32) {
+        require(
+            _selector == this.updateInterestRate.selector ||
+            _selector == this.updateWithdrawalFee.selector ||
+            _selector == this.updateEmergencyWithdrawalFee.selector ||
+            _selector == this.updateMonthlyContribution.selector ||
+            _selector == this.updateGracePeriod.selector ||
+            _selector == this.updateLatePenaltyRate.selector ||
+            _selector == this.setPriceOracle.selector ||
+            _selector == this.setMaxOracleDeviation.selector ||
+            _selector == this.setSwapRoute.selector ||
+            _selector == this.setTokenHolding.selector,
+            "Parameter is not timelocked"
+        );
+
+        bytes32 changeId = getChangeId(_selector, _value);
+        queuedChanges[changeId] = block.timestamp + TIMELOCK_DELAY;
+
+        emit ParameterChangeQueued(changeId, _selector, _value, queuedChanges[changeId]);
+
+        return changeId;
+    }
+
+    function cancelParameterChange(bytes4 _selector, uint256 _value) external onlyOwner {
+        bytes32 changeId = getChangeId(_selector, _value);
+        require(queuedChanges[changeId] != 0, "Change is not queued");
+        delete queuedChanges[changeId];
+
+        emit ParameterChangeCancelled(changeId);
+    }
+
+    function setGuardian(address _guardian) external onlyOwner {
+        guardian = _guardian;
+        emit GuardianUpdated(_guardian);
+    }
+
+    // Circuit breaker: stops deposits, swaps and investments; withdrawals and emergency exits keep working
+    function pause() external {
+        require(msg.sender == guardian || msg.sender == owner(), "Caller is not the guardian");
+        active = false;
+        emit Paused(msg.sender);
+    }
+
+    function unpause() external {
+        require(msg.sender == guardian || msg.sender == owner(), "Caller is not the guardian");
+        active = true;
+        emit Unpaused(msg.sender);
+    }
+
+    // Ownership changes hands only once participants approve an OwnershipTransfer proposal
+    function transferOwnership(address _newOwner) public override onlyOwner {
+        _createProposal(ProposalType.OwnershipTransfer, _newOwner, 0, 0);
+    }
+
+    function renounceOwnership() public view override onlyOwner {
+        revert("Ownership can only be transferred by vote");
+    }
+
+
+    // Pays out `_amount` of the primary token; callers run under keepsSolvency
+    function _transferPrimary(address _to, uint256 _amount) internal {
+        require(IERC20(primaryToken).transfer(_to, _amount), "Transfer failed");
+    }
+
+    // Everything the wallet holds and everything it owes, as in solvencyReport
+    function _solvency() internal view returns (uint256 assets, uint256 liabilities) {
+        (uint256 liquidAssets, uint256 investedAssets, uint256 owed, ) = solvencyReport();
+        return (liquidAssets + investedAssets, owed);
+    }
+
+    // Compares what the wallet holds with what it owes, in the primary token. Liabilities are the members' balances
+    // (including their invested shares), the fee reserve, harvested yield that has not been credited yet and the held
+    // tokens, which count on both sides at their value through the price oracle.
+    function solvencyReport() public view returns (uint256 liquidAssets, uint256 investedAssets, uint256 liabilities, bool solvent) {
+        (uint256 heldValue, uint256 heldOwed) = AssetLibrary.reserves(heldAssets, _swapSettings());
+        liquidAssets = primaryToken.balanceOf(address(this)) + heldValue;
+        // Without a strategy the invested shares never leave the wallet and are part of liquidAssets
+        if (address(yieldStrategy) != address(0)) {
+            investedAssets = yieldStrategy.assetsOf(address(this));
+        }
+
+        liabilities = totalSavings + feeReserve + interestRound.undistributedYield + heldOwed;
+        if (interestRound.inProgress) {
+            liabilities += interestRound.interest - interestRound.distributed;
+        }
+
+        solvent = liquidAssets + investedAssets >= liabilities;
+    }
+
+    // Appends an entry to the participant's transaction history
+    function _logTransaction(address _participant, TransactionType _transactionType, uint256 _amount, address _token, uint256 _fee) internal {
+        LedgerLibrary.logTransaction(transactionLogs, _participant, _transactionType, _amount, _token, _fee);
+    }
+
+    // Number of entries in the caller's transaction history
+    function getTransactionLogCount() external view returns (uint256) {
+        return transactionLogs[msg.sender].length;
+    }
+
+    // Returns up to `_limit` entries of the caller's transaction history, starting at `_offset` (oldest first)
+    function getTransactionLogs(uint256 _offset, uint256 _limit) external view returns (TransactionLog[] memory) {
+        return LedgerLibrary.getLogs(transactionLogs[msg.sender], _offset, _limit);
+    }
+
+    // The caller's own participant record
+    function getParticipant() external view returns (Participant memory) {
+        return participants[msg.sender];
+    }
+
+    // Whether `_account` is a member (see ParticipantAdded)
+    function isParticipant(address _account) external view returns (bool) {
+        return participants[_account].participantAddress != address(0);
+    }
 
     function checkBalance() external view returns (uint256) {
         Participant storage participant = participants[msg.sender];
@@ -428,11 +1022,13 @@ contract MultisigWallet is Ownable (msg.sender){
             return 0; // No interest earned if not invested
         }
 
-        // Calculate interest earned so far
-        uint256 monthsInvested = (block.timestamp - participant.investmentStartTimestamp) / 30 days;
-        uint256 totalInterest = (participant.investedAmount * monthlyInterestRate * monthsInvested) / 1000;
+        // Interest credited by distributeInterest over the current investment period
+        return participant.interestEarned;
+    }
 
-        return totalInterest;
+    // Earliest time the caller may make their next regular withdrawal (in the past if they can withdraw now)
+    function nextWithdrawalDate() public view returns (uint256) {
+        return participants[msg.sender].withdrawalTimestamp + WITHDRAWAL_INTERVAL;
     }
 
     function timeLeftToWithdraw() external view returns (uint256) {
@@ -444,11 +1040,11 @@ contract MultisigWallet is Ownable (msg.sender){
 
         // Calculate the time left before the 3-month lock period ends
         uint256 timeSinceInvestment = block.timestamp - participant.investmentStartTimestamp;
-        if (timeSinceInvestment >= 90 days) {
+        if (timeSinceInvestment >= INVESTMENT_LOCK_PERIOD) {
             return 0; // Lock period has ended
         }
 
-        return (90 days - timeSinceInvestment);
+        return (INVESTMENT_LOCK_PERIOD - timeSinceInvestment);
     }
 
 
@@ -0,0 +1,105 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "@openzeppelin/contracts/proxy/Clones.sol";
+import "./MultisigWallet.sol";
+import "./interfaces/IGroupRegistry.sol";
+
+// Creates savings groups as minimal proxies (EIP-1167) of one deployed MultisigWallet, so that a group costs a clone
+// and its initialization instead of a full deployment. Groups report members joining and leaving, which keeps the
+// registry of groups by member up to date.
+contract MultisigWalletFactory is IGroupRegistry {
+    // Per-group parameters, as taken by the MultisigWallet constructor
+    struct GroupConfig {
+        address primaryToken;
+        address[] supportedTokens;
+        uint256 fixedMonthlyContribution;
+        uint256 investmentThreshold;
+        uint256 investmentPercentage;
+        uint256 investmentReturnRate;
+        address uniswapRouter;
+    }
+
+    address public immutable implementation; // Wallet whose code every group runs (already initialized itself)
+
+    address[] public groups; // Every group created, oldest first
+    mapping(address => bool) public isGroup;
+    mapping(address => address[]) internal memberGroups; // Member => groups they currently belong to
+    mapping(address => mapping(address => uint256)) internal memberGroupIndex; // Member => group => index in memberGroups + 1
+
+    event GroupCreated(address indexed group, address indexed owner, uint256 participantCount);
+    event MemberRegistered(address indexed member, address indexed group);
+    event MemberUnregistered(address indexed member, address indexed group);
+
+    constructor(address _implementation) {
+        require(_implementation.code.length > 0, "Implementation is not a contract");
+        implementation = _implementation;
+    }
+
+    // Creates a group owned by the caller with `_participants` as its founding members
+    function createGroup(GroupConfig calldata _config, address[] calldata _participants) external returns (address group) {
+        group = Clones.clone(implementation);
+
+        // Registered first: initialization adds the founding members, which calls back into registerMember
+        isGroup[group] = true;
+        groups.push(group);
+
+        MultisigWallet(group).initialize(
+            msg.sender,
+            _config.primaryToken,
+            _config.supportedTokens,
+            _config.fixedMonthlyContribution,
+            _config.investmentThreshold,
+            _config.investmentPercentage,
+            _config.investmentReturnRate,
+            _config.uniswapRouter,
+            _participants
+        );
+
+        emit GroupCreated(group, msg.sender, _participants.length);
+    }
+
+    function registerMember(address _member) external {
+        require(isGroup[msg.sender], "Caller is not a group");
+        if (memberGroupIndex[_member][msg.sender] != 0) {
+            return;
+        }
+
+        memberGroups[_member].push(msg.sender);
+        memberGroupIndex[_member][msg.sender] = memberGroups[_member].length;
+
+        emit MemberRegistered(_member, msg.sender);
+    }
+
+    function unregisterMember(address _member) external {
+        require(isGroup[msg.sender], "Caller is not a group");
+        uint256 index = memberGroupIndex[_member][msg.sender];
+        if (index == 0) {
+            return;
+        }
+
+        // Swap and pop keeps the member's list compact
+        address[] storage list = memberGroups[_member];
+        address last = list[list.length - 1];
+        list[index - 1] = last;
+        memberGroupIndex[_member][last] = index;
+        list.pop();
+        delete memberGroupIndex[_member][msg.sender];
+
+        emit MemberUnregistered(_member, msg.sender);
+    }
+
+    function groupCount() external view returns (uint256) {
+        return groups.length;
+    }
+
+    // Every group created by this factory
+    function getGroups() external view returns (address[] memory) {
+        return groups;
+    }
+
+    // Groups `_member` currently belongs to
+    function getGroupsOf(address _member) external view returns (address[] memory) {
+        return memberGroups[_member];
+    }
+}
@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+// Registry that a wallet created by MultisigWalletFactory keeps up to date with its members,
+// so that the groups a member belongs to can be looked up in one place
+interface IGroupRegistry {
+    // Called by a group when `_member` joins it
+    function registerMember(address _member) external;
+
+    // Called by a group when `_member` leaves it
+    function unregisterMember(address _member) external;
+}
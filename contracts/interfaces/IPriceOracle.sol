@@ -0,0 +1,8 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+// Independent price source used to sanity-check swap quotes
+interface IPriceOracle {
+    // Value of `_amountIn` of `_tokenIn` expressed in `_tokenOut`, using each token's own decimals
+    function quote(address _tokenIn, uint256 _amountIn, address _tokenOut) external view returns (uint256);
+}
@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+// Adapter between the MultisigWallet investment pool and an external yield source.
+// All amounts are denominated in the strategy's asset, which must be the wallet's primary token.
+interface IYieldStrategy {
+    // Token the strategy accepts and pays out
+    function asset() external view returns (address);
+
+    // Pulls `_amount` of the asset from the caller and puts it to work
+    function deposit(uint256 _amount) external;
+
+    // Returns `_amount` of the caller's principal
+    function withdraw(uint256 _amount) external;
+
+    // Sends the caller's yield accrued above their principal and returns the amount sent
+    function harvest() external returns (uint256);
+
+    // Principal the caller has deposited and not withdrawn yet
+    function principalOf(address _account) external view returns (uint256);
+
+    // Current value of the account's position (principal plus unharvested yield)
+    function assetsOf(address _account) external view returns (uint256);
+}
@@ -0,0 +1,243 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "../interfaces/IPriceOracle.sol";
+import "./SwapLibrary.sol";
+import "./LedgerLibrary.sol";
+
+// Tokens that participants hold as-is instead of converting them to the primary token
+struct HeldAssets {
+    mapping(address => bool) held; // Token => deposits are held as-is
+    address[] tokens; // Tokens accepted as-is, and ones no longer accepted that some participant still holds
+    mapping(address => mapping(address => uint256)) balances; // Participant => token => amount held
+    mapping(address => uint256) totals; // Token => amount held for all participants
+    mapping(address => mapping(address => uint256)) costs; // Participant => token => value when deposited, in the primary token
+}
+
+// Contributions in any supported token, and the valuation and payouts of held tokens. Held tokens are valued through
+// the wallet's price oracle. Transaction logs record deposits at that value, and withdrawals at the matching share of
+// it, so that a participant's logged deposits and withdrawals of a token net out. Fees and late penalties on held
+// tokens are converted to the primary token, since the fee reserve is kept in it.
+library AssetLibrary {
+    event TokenHoldingUpdated(address indexed token, bool held);
+    event HeldTokenWithdrawn(address indexed participant, address indexed token, uint256 amountWithdrawn, uint256 fee);
+
+    // Turns holding `_token` as-is on or off. A token stays listed after holding is turned off until nobody holds
+    // any of it, so that payouts still cover balances deposited before.
+    function setHolding(HeldAssets storage _assets, address _token, bool _hold, bool _supported, IPriceOracle _priceOracle) external {
+        require(_supported, "Token is not supported");
+        require(!_hold || address(_priceOracle) != address(0), "No price source for held tokens");
+
+        _assets.held[_token] = _hold;
+
+        bool listed;
+        for (uint256 i = 0; i < _assets.tokens.length; i++) {
+            if (_assets.tokens[i] == _token) {
+                listed = true;
+                break;
+            }
+        }
+        if (_hold && !listed) {
+            _assets.tokens.push(_token);
+        }
+        _prune(_assets, _token);
+
+        emit TokenHoldingUpdated(_token, _hold);
+    }
+
+    // Drops `_token` from the list once it is no longer accepted as-is and nobody holds any
+    function _prune(HeldAssets storage _assets, address _token) private {
+        if (_assets.held[_token] || _assets.totals[_token] > 0) {
+            return;
+        }
+
+        for (uint256 i = 0; i < _assets.tokens.length; i++) {
+            if (_assets.tokens[i] == _token) {
+                _assets.tokens[i] = _assets.tokens[_assets.tokens.length - 1];
+                _assets.tokens.pop();
+                return;
+            }
+        }
+    }
+
+    // Value of `_amount` of `_token` in the primary token
+    function valueOf(SwapSettings memory _settings, address _token, uint256 _amount) internal view returns (uint256) {
+        require(address(_settings.priceOracle) != address(0), "No price source for held tokens");
+        return _settings.priceOracle.quote(_token, _amount, _settings.primaryToken);
+    }
+
+    // Value in the primary token of everything `_participant` holds as-is
+    function totalValue(HeldAssets storage _assets, SwapSettings memory _settings, address _participant) external view returns (uint256 value) {
+        for (uint256 i = 0; i < _assets.tokens.length; i++) {
+            uint256 amount = _assets.balances[_participant][_assets.tokens[i]];
+            if (amount > 0) {
+                value += valueOf(_settings, _assets.tokens[i], amount);
+            }
+        }
+    }
+
+    // Value in the primary token of the held tokens in the wallet, and of what it owes participants in them
+    function reserves(HeldAssets storage _assets, SwapSettings memory _settings) external view returns (uint256 value, uint256 owed) {
+        for (uint256 i = 0; i < _assets.tokens.length; i++) {
+            address token = _assets.tokens[i];
+            uint256 balance = IERC20(token).balanceOf(address(this));
+            if (balance > 0) {
+                value += valueOf(_settings, token, balance);
+            }
+            if (_assets.totals[token] > 0) {
+                owed += valueOf(_settings, token, _assets.totals[token]);
+            }
+        }
+    }
+
+    // `_participant`'s balance of every listed token
+    function balancesOf(HeldAssets storage _assets, address _participant) external view returns (address[] memory tokens, uint256[] memory amounts) {
+        tokens = _assets.tokens;
+        amounts = new uint256[](tokens.length);
+        for (uint256 i = 0; i < tokens.length; i++) {
+            amounts[i] = _assets.balances[_participant][tokens[i]];
+        }
+    }
+
+    // Takes a contribution of `_amount` of `_token` from the caller and records it for the cycles it covers (see
+    // LedgerLibrary.contributionStatus). Held tokens are kept as-is, the primary token is credited to the participant's
+    // balance and other tokens are swapped into it first. The value received must cover `_requiredContribution`, and
+    // the part worth `_penalty` goes to the fee reserve. Returns the value credited to the primary balance and the
+    // primary tokens owed to the fee reserve.
+    function contribute(
+        HeldAssets storage _assets,
+        mapping(address => address[]) storage _swapRoutes,
+        mapping(address => TransactionLog[]) storage _logs,
+        Participant storage _participant,
+        SwapSettings memory _settings,
+        address _token,
+        uint256 _amount,
+        uint256 _missedCycles,
+        uint256 _penalty,
+        uint256 _requiredContribution,
+        uint256 _fixedMonthlyContribution
+    ) external returns (uint256 credited, uint256 fees) {
+        bool held = _assets.held[_token];
+        uint256 received;
+        if (held) {
+            // Held tokens stay in the token; only the part worth the late penalty is converted, into the fee reserve
+            (received, fees) = _depositHeld(_assets, _swapRoutes, _settings, _participant.participantAddress, _token, _amount, _requiredContribution, _penalty);
+        } else {
+            // The amount, or the primary tokens a swap gives for it, must cover missed contributions
+            if (_token == _settings.primaryToken) {
+                received = _amount;
+                require(received >= _requiredContribution, "Insufficient amount to cover missed contributions");
+                require(IERC20(_token).transferFrom(msg.sender, address(this), _amount), "USDC transfer failed");
+            } else {
+                received = SwapLibrary.swapToPrimary(_swapRoutes, _settings, _token, _amount, true);
+                require(received >= _requiredContribution, "Insufficient amount to cover missed contributions");
+            }
+
+            // Late penalties go to the fee reserve and are shared like any other fee
+            fees = _penalty;
+            credited = received - _penalty;
+            _participant.balance += credited;
+        }
+
+        LedgerLibrary.creditContribution(_participant, received - _penalty, _missedCycles, _fixedMonthlyContribution);
+        _logContribution(_logs, _participant.participantAddress, held || _token == _settings.primaryToken, _token, received - _penalty, _penalty);
+    }
+
+    function _logContribution(
+        mapping(address => TransactionLog[]) storage _logs,
+        address _participant,
+        bool _deposited,
+        address _token,
+        uint256 _amount,
+        uint256 _penalty
+    ) private {
+        LedgerLibrary.logTransaction(_logs, _participant, _deposited ? TransactionType.Deposit : TransactionType.Swap, _amount, _token, _penalty);
+    }
+
+    // Pulls `_amount` of `_token` from `_participant` as a contribution whose value must cover `_requiredContribution`.
+    // The part worth `_penalty` is converted to the primary token instead of being held. Returns the deposit's value
+    // and the primary tokens the penalty converted to.
+    function _depositHeld(
+        HeldAssets storage _assets,
+        mapping(address => address[]) storage _swapRoutes,
+        SwapSettings memory _settings,
+        address _participant,
+        address _token,
+        uint256 _amount,
+        uint256 _requiredContribution,
+        uint256 _penalty
+    ) private returns (uint256 value, uint256 penaltyReceived) {
+        value = valueOf(_settings, _token, _amount);
+        require(value >= _requiredContribution, "Insufficient amount to cover missed contributions");
+        require(IERC20(_token).transferFrom(_participant, address(this), _amount), "Token transfer failed");
+
+        uint256 penaltyAmount;
+        if (_penalty > 0) {
+            penaltyAmount = (_amount * _penalty) / value;
+            penaltyReceived = SwapLibrary.convert(_swapRoutes, _settings, _token, penaltyAmount);
+        }
+
+        _assets.balances[_participant][_token] += _amount - penaltyAmount;
+        _assets.totals[_token] += _amount - penaltyAmount;
+        _assets.costs[_participant][_token] += value - _penalty;
+    }
+
+    // Pays out `_amount` of `_participant`'s held `_token`, less a fee of `_feeRate` percent that is converted to the
+    // primary token. Returns the primary tokens the fee converted to.
+    function withdraw(
+        HeldAssets storage _assets,
+        mapping(address => TransactionLog[]) storage _logs,
+        mapping(address => address[]) storage _swapRoutes,
+        SwapSettings memory _settings,
+        address _participant,
+        address _token,
+        uint256 _amount,
+        uint256 _feeRate,
+        TransactionType _transactionType
+    ) public returns (uint256 feeReceived) {
+        uint256 balance = _assets.balances[_participant][_token];
+        require(_amount <= balance, "Withdrawal amount exceeds balance");
+
+        // The log records the share of the deposited value this amount stands for
+        uint256 cost = (_assets.costs[_participant][_token] * _amount) / balance;
+        _assets.costs[_participant][_token] -= cost;
+        _assets.balances[_participant][_token] = balance - _amount;
+        _assets.totals[_token] -= _amount;
+        _prune(_assets, _token);
+
+        uint256 fee = (_amount * _feeRate) / 100;
+        if (fee > 0) {
+            feeReceived = SwapLibrary.convert(_swapRoutes, _settings, _token, fee);
+        }
+
+        require(IERC20(_token).transfer(_participant, _amount - fee), "Token transfer failed");
+
+        emit HeldTokenWithdrawn(_participant, _token, _amount - fee, fee);
+        LedgerLibrary.logTransaction(_logs, _participant, _transactionType, cost, _token, feeReceived);
+    }
+
+    // Pays out all of `_participant`'s held tokens as `withdraw` does. Returns the primary tokens the fees converted
+    // to, and whether the participant held anything.
+    function withdrawAll(
+        HeldAssets storage _assets,
+        mapping(address => TransactionLog[]) storage _logs,
+        mapping(address => address[]) storage _swapRoutes,
+        SwapSettings memory _settings,
+        address _participant,
+        uint256 _feeRate,
+        TransactionType _transactionType
+    ) external returns (uint256 feesReceived, bool paid) {
+        // Copied first, since paying a token out may drop it from the list
+        address[] memory tokens = _assets.tokens;
+        for (uint256 i = 0; i < tokens.length; i++) {
+            uint256 amount = _assets.balances[_participant][tokens[i]];
+            if (amount == 0) {
+                continue;
+            }
+
+            feesReceived += withdraw(_assets, _logs, _swapRoutes, _settings, _participant, tokens[i], amount, _feeRate, _transactionType);
+            paid = true;
+        }
+    }
+}
@@ -0,0 +1,418 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "../interfaces/IGroupRegistry.sol";
+import "../interfaces/IYieldStrategy.sol";
+
+// Participant records and transaction logs, shared by MultisigWallet and LedgerLibrary
+struct Participant {
+    address participantAddress;
+    uint256 balance; // Balance in primary token
+    uint256 missedContributions; // Tracks how much was missed in contributions
+    uint256 lastContributionTimestamp; // Last time they contributed
+    uint256 investmentEarnings; // Interest/earnings from investment
+    uint256 withdrawalTimestamp; // Last time they made a withdrawal
+    uint256 investmentStartTimestamp; // When the participant's latest investment tranche started (see InvestmentTranche)
+    bool isInvested; // True if the participant has locked funds in investment
+    uint256 investedAmount; // The amount of principal invested
+    uint256 nextInterestTimestamp; // When the next interest payout is due
+    uint256 interestEarned; // Total interest earned over the investment period
+    uint256 lastCycleContribution; // Per-cycle amount of the participant's last deposit, up to what the cycle required
+    uint256 membershipId; // Numbers this membership; votes and withdrawal approvals only count for the membership they were given in
+}
+
+enum TransactionType {
+    Deposit, // Primary token contribution
+    Swap, // Contribution in another token, converted to the primary token
+    Investment, // Part of the balance allocated to the investment pool
+    Withdrawal, // Regular or early withdrawal
+    EmergencyWithdrawal,
+    Interest, // Interest credited by distributeInterest
+    FeeShare, // Share of collected fees credited by distributeFees
+    Settlement // Whole balance paid out when the participant leaves the group
+}
+
+// The monthly interest schedule and the distribution round in progress, processed in batches of participants
+struct InterestRound {
+    uint256 lastDistributionTimestamp; // End of the last 30-day period interest was credited for
+    uint256 undistributedYield; // Harvested yield held by the wallet and not yet credited to participants
+    bool inProgress;
+    uint256 cursor; // Index in participantAddresses of the next participant to credit
+    uint256 interest; // Interest being shared out in the current round
+    uint256 investmentBase; // investmentBalance when the round started
+    uint256 distributed; // Interest credited so far in the current round
+}
+
+// Part of an invested share allocated in one go; it is locked for the lock period from its own start
+struct InvestmentTranche {
+    uint256 amount;
+    uint256 startTimestamp;
+}
+
+struct TransactionLog {
+    uint256 amount; // Amount credited to or debited from the balance, before fees
+    TransactionType transactionType;
+    address token; // Token the participant paid in or received
+    uint256 fee; // Fee deducted from the amount, if any
+    uint256 timestamp;
+}
+
+// Participant records, the contribution schedule, the interest rounds and the loops over all participants. The
+// functions update the wallet's storage; the wallet keeps the aggregates (totalSavings, investmentBalance, ...) and
+// adjusts them from the returned totals.
+library LedgerLibrary {
+    event ContributionMade(address indexed participant, uint256 amount);
+    event InvestmentStarted(address indexed participant, uint256 amount);
+    event TransactionLogged(address indexed participant, TransactionType indexed transactionType, uint256 amount, address token, uint256 fee);
+    event YieldHarvested(uint256 amount);
+    event InterestDistributed(uint256 amount);
+
+    uint256 internal constant INTEREST_PERIOD = 30 days;
+
+    // Appends an entry to the participant's transaction history
+    function logTransaction(
+        mapping(address => TransactionLog[]) storage _logs,
+        address _participant,
+        TransactionType _transactionType,
+        uint256 _amount,
+        address _token,
+        uint256 _fee
+    ) public {
+        _logs[_participant].push(TransactionLog({
+            amount: _amount,
+            transactionType: _transactionType,
+            token: _token,
+            fee: _fee,
+            timestamp: block.timestamp
+        }));
+
+        emit TransactionLogged(_participant, _transactionType, _amount, _token, _fee);
+    }
+
+    // Reports a participant's cycle status: cycles missed beyond the grace period, the arrears and late
+    // penalty owed, the minimum next deposit and the time at which one more cycle counts as missed
+    function contributionStatus(
+        Participant storage _participant,
+        uint256 _fixedMonthlyContribution,
+        uint256 _gracePeriod,
+        uint256 _latePenaltyRate,
+        uint256 _contributionPeriod
+    ) external view returns (
+        uint256 missedCycles,
+        uint256 arrears,
+        uint256 penalty,
+        uint256 requiredContribution,
+        uint256 nextDueTimestamp
+    ) {
+        uint256 lastContributionTime = _participant.lastContributionTimestamp;
+        require(lastContributionTime != 0, "Participant does not exist");
+
+        uint256 elapsed = block.timestamp - lastContributionTime;
+        if (elapsed > _gracePeriod) {
+            missedCycles = (elapsed - _gracePeriod) / _contributionPeriod;
+        }
+
+        uint256 contribution = cycleContribution(_participant, _fixedMonthlyContribution);
+        arrears = contribution * missedCycles;
+        penalty = (arrears * _latePenaltyRate) / 100;
+        requiredContribution = contribution * (missedCycles + 1) + penalty;
+        nextDueTimestamp = lastContributionTime + _gracePeriod + _contributionPeriod * (missedCycles + 1);
+    }
+
+    // Records a contribution worth `_amount` in the primary token and any cycles it paid late; the caller credits
+    // the primary or held balance
+    function creditContribution(Participant storage _participant, uint256 _amount, uint256 _missedCycles, uint256 _fixedMonthlyContribution) external {
+        // The ledger keeps the total of contributions that were missed and made up later
+        uint256 required = cycleContribution(_participant, _fixedMonthlyContribution);
+        _participant.missedContributions += required * _missedCycles;
+        _participant.lastContributionTimestamp = block.timestamp;
+
+        // Later cycles may not contribute less than this deposit did per cycle. Only what the cycle required counts,
+        // so paying in extra once does not raise every later contribution.
+        uint256 perCycle = _amount / (_missedCycles + 1);
+        _participant.lastCycleContribution = perCycle < required ? perCycle : required;
+
+        emit ContributionMade(_participant.participantAddress, _amount);
+    }
+
+    // Minimum contribution per cycle: the fixed monthly amount, or the previous cycle's contribution if that was higher
+    function cycleContribution(Participant storage _participant, uint256 _fixedMonthlyContribution) internal view returns (uint256) {
+        uint256 previous = _participant.lastCycleContribution;
+        return previous > _fixedMonthlyContribution ? previous : _fixedMonthlyContribution;
+    }
+
+    // Deducts `_amount` from a participant's balance, drawing on the liquid part first and then releasing their
+    // invested share: the tranches past `_lockPeriod` first, and the locked ones only if `_ignoreLock` is set.
+    // Returns the invested amount released.
+    function debit(
+        Participant storage _participant,
+        InvestmentTranche[] storage _tranches,
+        uint256 _amount,
+        bool _ignoreLock,
+        uint256 _lockPeriod
+    ) external returns (uint256 released) {
+        require(_amount <= _participant.balance, "Withdrawal amount exceeds balance");
+
+        uint256 liquid = _participant.balance - _participant.investedAmount;
+        if (_amount > liquid) {
+            released = _amount - liquid;
+            require(_ignoreLock || released + lockedAmount(_tranches, _lockPeriod) <= _participant.investedAmount, "Investment lock period has not ended");
+            _participant.investedAmount -= released;
+
+            // Reset investment details once the whole share is released
+            if (_participant.investedAmount == 0) {
+                while (_tranches.length > 0) {
+                    _tranches.pop();
+                }
+                _participant.isInvested = false;
+                _participant.interestEarned = 0;
+                _participant.investmentStartTimestamp = 0;
+                _participant.nextInterestTimestamp = 0;
+            }
+        }
+
+        _participant.balance -= _amount;
+    }
+
+    // Opens a record for `_participant` as membership `_membershipId` and reports them to `_registry` (if any)
+    function addParticipant(
+        mapping(address => Participant) storage _participants,
+        address[] storage _participantAddresses,
+        address _participant,
+        uint256 _membershipId,
+        address _registry
+    ) external {
+        require(_participant != address(0), "Invalid participant address");
+        require(_participants[_participant].participantAddress == address(0), "Participant already exists");
+
+        // Every other field of a new (or removed and deleted) record is already zero
+        _participants[_participant].participantAddress = _participant;
+        _participants[_participant].lastContributionTimestamp = block.timestamp;
+        _participants[_participant].membershipId = _membershipId;
+        _participantAddresses.push(_participant);
+
+        if (_registry != address(0)) {
+            IGroupRegistry(_registry).registerMember(_participant);
+        }
+    }
+
+    // Deletes `_participant`'s record and reports their leaving to `_registry` (if any); swap and pop keeps the list
+    // of participant addresses compact
+    function removeParticipant(
+        mapping(address => Participant) storage _participants,
+        address[] storage _participantAddresses,
+        address _participant,
+        address _registry
+    ) external {
+        for (uint256 i = 0; i < _participantAddresses.length; i++) {
+            if (_participantAddresses[i] == _participant) {
+                _participantAddresses[i] = _participantAddresses[_participantAddresses.length - 1];
+                _participantAddresses.pop();
+                break;
+            }
+        }
+
+        delete _participants[_participant];
+
+        if (_registry != address(0)) {
+            IGroupRegistry(_registry).unregisterMember(_participant);
+        }
+    }
+
+    // Returns up to `_limit` entries of a transaction history, starting at `_offset` (oldest first)
+    function getLogs(TransactionLog[] storage _logs, uint256 _offset, uint256 _limit) external view returns (TransactionLog[] memory) {
+        if (_offset >= _logs.length) {
+            return new TransactionLog[](0);
+        }
+
+        uint256 end = _logs.length;
+        if (_limit < end - _offset) {
+            end = _offset + _limit;
+        }
+
+        TransactionLog[] memory page = new TransactionLog[](end - _offset);
+        for (uint256 i = _offset; i < end; i++) {
+            page[i - _offset] = _logs[i];
+        }
+        return page;
+    }
+
+    // Tops up each participant's invested share to `_investmentPercentage` of their balance and returns the total
+    // added. Each top-up is a tranche of its own, locked for `_lockPeriod` from now; earlier tranches keep their lock.
+    function allocateInvestment(
+        mapping(address => Participant) storage _participants,
+        address[] storage _participantAddresses,
+        mapping(address => InvestmentTranche[]) storage _tranches,
+        mapping(address => TransactionLog[]) storage _logs,
+        uint256 _investmentPercentage,
+        uint256 _lockPeriod,
+        address _token
+    ) external returns (uint256 amountInvested) {
+        for (uint256 i = 0; i < _participantAddresses.length; i++) {
+            Participant storage participant = _participants[_participantAddresses[i]];
+            uint256 targetShare = (participant.balance * _investmentPercentage) / 100;
+            if (targetShare <= participant.investedAmount) {
+                continue;
+            }
+
+            uint256 addedShare = targetShare - participant.investedAmount;
+
+            // Tranches are kept in the order they started, so once the latest is unlocked they all are
+            InvestmentTranche[] storage tranches = _tranches[participant.participantAddress];
+            if (lockedAmount(tranches, _lockPeriod) == 0) {
+                delete _tranches[participant.participantAddress];
+            }
+            tranches.push(InvestmentTranche(addedShare, block.timestamp));
+
+            if (!participant.isInvested) {
+                participant.isInvested = true;
+                participant.nextInterestTimestamp = block.timestamp + 30 days;
+            }
+            participant.investmentStartTimestamp = block.timestamp;
+            participant.investedAmount = targetShare;
+            amountInvested += addedShare;
+
+            emit InvestmentStarted(participant.participantAddress, addedShare);
+            logTransaction(_logs, participant.participantAddress, TransactionType.Investment, addedShare, _token, 0);
+        }
+    }
+
+    // Part of an invested share still inside its lock period: the tranches that started less than `_lockPeriod` ago
+    function lockedAmount(InvestmentTranche[] storage _tranches, uint256 _lockPeriod) internal view returns (uint256 locked) {
+        for (uint256 i = _tranches.length; i > 0; i--) {
+            if (block.timestamp >= _tranches[i - 1].startTimestamp + _lockPeriod) {
+                break;
+            }
+            locked += _tranches[i - 1].amount;
+        }
+    }
+
+    // Credits interest for every elapsed period, pro rata to invested shares, to at most `_maxParticipants`
+    // participants; the next call carries on with the rest. Returns the interest credited by this call.
+    function distributeInterest(
+        InterestRound storage _round,
+        mapping(address => Participant) storage _participants,
+        address[] storage _participantAddresses,
+        mapping(address => TransactionLog[]) storage _logs,
+        IYieldStrategy _strategy,
+        uint256 _investmentBalance,
+        uint256 _monthlyInterestRate,
+        uint256 _maxParticipants,
+        address _token
+    ) external returns (uint256 credited) {
+        require(_maxParticipants > 0, "Batch size must be greater than zero");
+
+        if (!_round.inProgress && !_startRound(_round, _strategy, _investmentBalance, _monthlyInterestRate)) {
+            return 0;
+        }
+
+        uint256 end = _round.cursor + _maxParticipants;
+        if (end > _participantAddresses.length) {
+            end = _participantAddresses.length;
+        }
+
+        credited = _creditInterest(_round, _participants, _participantAddresses, _logs, end, _token);
+        _round.distributed += credited;
+        _round.cursor = end;
+
+        if (end == _participantAddresses.length) {
+            // Rounding dust stays in the wallet for the next round
+            _round.undistributedYield += _round.interest - _round.distributed;
+            _round.inProgress = false;
+
+            emit InterestDistributed(_round.distributed);
+        }
+    }
+
+    // Moves the schedule past every elapsed period and harvests `_strategy` (if any). The round shares out at most
+    // `_monthlyInterestRate` per thousand of `_investmentBalance` per period; yield above that is kept for later
+    // rounds. Returns false if there is nothing to share out.
+    function _startRound(InterestRound storage _round, IYieldStrategy _strategy, uint256 _investmentBalance, uint256 _monthlyInterestRate) private returns (bool) {
+        uint256 periods = (block.timestamp - _round.lastDistributionTimestamp) / INTEREST_PERIOD;
+        require(periods > 0, "No interest period has elapsed");
+
+        // Cover every elapsed period at once, keeping the 30-day schedule
+        _round.lastDistributionTimestamp += periods * INTEREST_PERIOD;
+
+        // Interest is whatever the strategy actually earned, so it is always backed by tokens
+        if (address(_strategy) != address(0)) {
+            uint256 harvested = _strategy.harvest();
+            _round.undistributedYield += harvested;
+            emit YieldHarvested(harvested);
+        }
+
+        uint256 interest = (_investmentBalance * _monthlyInterestRate * periods) / 1000;
+        if (interest > _round.undistributedYield) {
+            interest = _round.undistributedYield;
+        }
+
+        // Nothing to share out; keep any yield for the next round
+        if (interest == 0) {
+            emit InterestDistributed(0);
+            return false;
+        }
+
+        _round.inProgress = true;
+        _round.cursor = 0;
+        _round.interest = interest;
+        _round.investmentBase = _investmentBalance;
+        _round.distributed = 0;
+        _round.undistributedYield -= interest;
+        return true;
+    }
+
+    // Credits the participants from the round's cursor up to index `_end` (exclusive) their share of the round's
+    // interest, pro rata to their invested amount, and returns the total credited
+    function _creditInterest(
+        InterestRound storage _round,
+        mapping(address => Participant) storage _participants,
+        address[] storage _participantAddresses,
+        mapping(address => TransactionLog[]) storage _logs,
+        uint256 _end,
+        address _token
+    ) private returns (uint256 credited) {
+        uint256 remaining = _round.interest - _round.distributed;
+        for (uint256 i = _round.cursor; i < _end; i++) {
+            Participant storage participant = _participants[_participantAddresses[i]];
+            if (participant.investedAmount == 0) {
+                continue;
+            }
+
+            uint256 share = (_round.interest * participant.investedAmount) / _round.investmentBase;
+            // Never credit more than the round holds, even if shares changed between batches
+            if (share > remaining - credited) {
+                share = remaining - credited;
+            }
+
+            participant.balance += share;
+            participant.interestEarned += share;
+            participant.investmentEarnings += share;
+            logTransaction(_logs, participant.participantAddress, TransactionType.Interest, share, _token, 0);
+            participant.nextInterestTimestamp = _round.lastDistributionTimestamp + INTEREST_PERIOD;
+            credited += share;
+        }
+    }
+
+    // Shares `_reserve` among the participants pro rata to their balances out of `_totalSavings` and returns the
+    // total credited; rounding dust is left to the caller
+    function shareFees(
+        mapping(address => Participant) storage _participants,
+        address[] storage _participantAddresses,
+        mapping(address => TransactionLog[]) storage _logs,
+        uint256 _reserve,
+        uint256 _totalSavings,
+        address _token
+    ) external returns (uint256 distributed) {
+        for (uint256 i = 0; i < _participantAddresses.length; i++) {
+            Participant storage participant = _participants[_participantAddresses[i]];
+            uint256 share = (_reserve * participant.balance) / _totalSavings;
+            if (share == 0) {
+                continue;
+            }
+
+            participant.balance += share;
+            distributed += share;
+            logTransaction(_logs, participant.participantAddress, TransactionType.FeeShare, share, _token, 0);
+        }
+    }
+}
@@ -0,0 +1,124 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "../interfaces/IYieldStrategy.sol";
+import "./LedgerLibrary.sol";
+
+// Fee policy and proposal types, shared by MultisigWallet and ProposalLibrary
+enum FeePolicy {
+    Redistribute, // Share collected fees among participants, pro rata to their balances
+    Treasury // Send collected fees to the treasury address
+}
+
+enum ProposalType {
+    EarlyWithdrawal, // Initiator withdraws `value` from their balance before the normal schedule
+    FeeChange, // Sets the standard withdrawal fee to `value` percent
+    ContributionChange, // Sets the fixed monthly contribution to `value`
+    InterestRateChange, // Sets the monthly interest rate to `value` per thousand
+    AddParticipant, // Adds `target` as a new participant
+    StrategyChange, // Moves the invested funds to the yield strategy at `target` (zero address to stop using one)
+    FeePolicyChange, // Sets the fee policy to `value` (a FeePolicy), with `target` as the treasury
+    RemoveParticipant, // Removes `target` and settles their balance (a voluntary exit when `target` is the initiator)
+    OwnershipTransfer, // Makes `target` the new owner
+    ReplaceParticipant, // Removes `target` as RemoveParticipant does and adds the address in `value` in their place
+    Investment // Moves the investment percentage of every participant's balance into the investment pool
+}
+
+struct Proposal {
+    uint256 proposalId;
+    ProposalType proposalType; // What the proposal does once approved
+    address initiator;
+    address target; // Address the proposal acts on (e.g. the participant to add)
+    uint256 value; // New parameter value or withdrawal amount
+    uint256 fee; // Fee percentage applied to an early withdrawal
+    uint256 voteCount; // Votes of current participants, as of the last vote
+    uint256 timestamp;
+    uint256 deadline; // Votes are no longer accepted after this time
+    bool approved; // Set once quorum is reached and the proposal has been executed
+}
+
+// Validation and bookkeeping for proposals and votes; msg.sender is the wallet's caller. Executing an approved
+// proposal stays in the wallet.
+library ProposalLibrary {
+    event ProposalCreated(uint256 indexed proposalId, ProposalType proposalType, address indexed initiator, address target, uint256 value, uint256 deadline);
+
+    // Validates and stores proposal `_proposalId`, opened by msg.sender
+    function create(
+        mapping(uint256 => Proposal) storage _proposals,
+        mapping(address => Participant) storage _participants,
+        uint256 _proposalId,
+        ProposalType _proposalType,
+        address _target,
+        uint256 _value,
+        uint256 _fee,
+        uint256 _votingPeriod,
+        address _primaryToken
+    ) external {
+        // Validate the proposal up front so that voters only ever see executable proposals; the wallet checks the
+        // bounds of parameter changes
+        if (_proposalType == ProposalType.EarlyWithdrawal) {
+            require(_value > 0, "Withdrawal amount must be greater than zero");
+            require(_value <= _participants[msg.sender].balance, "Withdrawal amount exceeds balance");
+        } else if (_proposalType == ProposalType.AddParticipant) {
+            require(_target != address(0), "Invalid participant address");
+            require(_participants[_target].participantAddress == address(0), "Participant already exists");
+        } else if (_proposalType == ProposalType.StrategyChange) {
+            require(_target == address(0) || IYieldStrategy(_target).asset() == _primaryToken, "Strategy asset must be the primary token");
+        } else if (_proposalType == ProposalType.FeePolicyChange) {
+            require(_value <= uint256(FeePolicy.Treasury), "Invalid fee policy");
+            require(_value != uint256(FeePolicy.Treasury) || _target != address(0), "Invalid treasury address");
+        } else if (_proposalType == ProposalType.RemoveParticipant) {
+            require(_participants[_target].participantAddress != address(0), "Participant does not exist");
+        } else if (_proposalType == ProposalType.OwnershipTransfer) {
+            require(_target != address(0), "Invalid owner address");
+        } else if (_proposalType == ProposalType.ReplaceParticipant) {
+            require(_participants[_target].participantAddress != address(0), "Participant does not exist");
+            require(_value != 0 && _value <= type(uint160).max, "Invalid participant address");
+            require(_participants[address(uint160(_value))].participantAddress == address(0), "Participant already exists");
+        }
+
+        Proposal storage proposal = _proposals[_proposalId];
+        proposal.proposalId = _proposalId;
+        proposal.proposalType = _proposalType;
+        proposal.initiator = msg.sender;
+        proposal.target = _proposalType == ProposalType.EarlyWithdrawal ? msg.sender : _target;
+        proposal.value = _value;
+        proposal.fee = _proposalType == ProposalType.EarlyWithdrawal ? _fee : 0;
+        proposal.timestamp = block.timestamp;
+        proposal.deadline = block.timestamp + _votingPeriod;
+
+        emit ProposalCreated(_proposalId, _proposalType, msg.sender, proposal.target, _value, proposal.deadline);
+    }
+
+    // Checks that msg.sender may still vote on proposal `_proposalId`
+    function checkVote(
+        mapping(uint256 => Proposal) storage _proposals,
+        mapping(address => mapping(uint256 => uint256)) storage _votes,
+        mapping(address => Participant) storage _participants,
+        uint256 _proposalCount,
+        uint256 _proposalId
+    ) external view {
+        require(_proposalId < _proposalCount, "Proposal does not exist");
+        Proposal storage proposal = _proposals[_proposalId];
+
+        require(!proposal.approved, "Proposal already executed");
+        require(block.timestamp <= proposal.deadline, "Voting period has ended");
+        require(_votes[msg.sender][_proposalId] != _participants[msg.sender].membershipId, "You have already voted on this proposal");
+    }
+
+    // Number of current participants who voted for proposal `_proposalId` in their current membership; votes of
+    // members who have left no longer count, even if they rejoin
+    function countVotes(
+        mapping(address => mapping(uint256 => uint256)) storage _votes,
+        mapping(address => Participant) storage _participants,
+        address[] storage _participantAddresses,
+        uint256 _proposalId
+    ) external view returns (uint256 count) {
+        for (uint256 i = 0; i < _participantAddresses.length; i++) {
+            address participant = _participantAddresses[i];
+            if (_votes[participant][_proposalId] == _participants[participant].membershipId) {
+                count++;
+            }
+        }
+    }
+}
@@ -0,0 +1,157 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@uniswap/v2-periphery/contracts/interfaces/IUniswapV2Router02.sol";
+import "../interfaces/IPriceOracle.sol";
+
+// The wallet's swap settings, for the library functions that convert tokens into the primary token
+struct SwapSettings {
+    address primaryToken;
+    address router; // Uniswap V2 router
+    uint256 slippageTolerance;
+    IPriceOracle priceOracle; // Also the price source for held tokens (see AssetLibrary)
+    uint256 maxOracleDeviation;
+}
+
+// Uniswap V2 swap helpers. The functions run in the wallet's context, so the wallet is the one approving the router
+// and receiving the output.
+library SwapLibrary {
+    event SwapCompleted(address indexed participant, address tokenIn, uint256 amountIn, uint256 amountOut);
+    event SwapRouteUpdated(address indexed token, address[] path);
+
+    // Pulls `_amount` of `_token` from the caller, swaps it along the token's route and returns the USDC received
+    function swapToPrimary(
+        mapping(address => address[]) storage _swapRoutes,
+        SwapSettings memory _settings,
+        address _token,
+        uint256 _amount,
+        bool _supported
+    ) external returns (uint256) {
+        require(_supported, "Token is not supported");
+        require(IERC20(_token).allowance(msg.sender, address(this)) >= _amount, "Insufficient token allowance");
+
+        // Ensure we are not swapping USDC for USDC
+        require(_token != _settings.primaryToken, "Cannot swap USDC for USDC");
+
+        // Transfer the tokens from the user to the contract
+        require(IERC20(_token).transferFrom(msg.sender, address(this), _amount), "Token transfer failed");
+
+        // Only the USDC this swap produces belongs to the caller, not the rest of the pool
+        uint256 amountOut = convert(_swapRoutes, _settings, _token, _amount);
+
+        // Emit a swap completion event
+        emit SwapCompleted(msg.sender, _token, _amount, amountOut);
+
+        return amountOut;
+    }
+
+    // Swaps `_amount` of `_token` already in the wallet into the primary token along the token's route
+    function convert(mapping(address => address[]) storage _swapRoutes, SwapSettings memory _settings, address _token, uint256 _amount) public returns (uint256) {
+        return swapExactTokens(
+            _settings.router,
+            routeOf(_swapRoutes, _token, _settings.primaryToken),
+            _amount,
+            _settings.slippageTolerance,
+            _settings.priceOracle,
+            _settings.maxOracleDeviation
+        );
+    }
+
+    // Swaps `_amountIn` of the first token of `_path` into the last one and returns the amount received
+    function swapExactTokens(
+        address _router,
+        address[] memory _path,
+        uint256 _amountIn,
+        uint256 _slippageTolerance,
+        IPriceOracle _priceOracle,
+        uint256 _maxOracleDeviation
+    ) public returns (uint256) {
+        IERC20 tokenOut = IERC20(_path[_path.length - 1]);
+
+        // Approve Uniswap router to spend the tokens
+        IERC20(_path[0]).approve(_router, _amountIn);
+
+        // Calculate minimum amount to accept based on slippage tolerance and the price oracle
+        uint256 amountOutMin = getAmountOutMin(_router, _path, _amountIn, _slippageTolerance, _priceOracle, _maxOracleDeviation);
+
+        // Only the output this swap produces counts, not the tokens the wallet already holds
+        uint256 balanceBeforeSwap = tokenOut.balanceOf(address(this));
+
+        // Perform the swap on Uniswap
+        IUniswapV2Router02(_router).swapExactTokensForTokens(
+            _amountIn, // Amount of input tokens
+            amountOutMin, // Minimum amount to receive (after slippage)
+            _path, // Path for the swap
+            address(this), // Recipient is the wallet
+            block.timestamp + 300 // Deadline (5 minutes from now)
+        );
+
+        return tokenOut.balanceOf(address(this)) - balanceBeforeSwap;
+    }
+
+    // Routes `_token` through intermediate tokens (e.g. LINK -> WETH -> USDC); an empty path restores the direct pair
+    function setRoute(
+        mapping(address => address[]) storage _swapRoutes,
+        address _token,
+        address[] calldata _path,
+        bool _supported,
+        address _primaryToken
+    ) external {
+        require(_supported, "Token is not supported");
+
+        // An empty path restores the direct pair
+        if (_path.length > 0) {
+            require(_path.length >= 2, "Path must have at least two tokens");
+            require(_path[0] == _token, "Path must start with the token");
+            require(_path[_path.length - 1] == _primaryToken, "Path must end with the primary token");
+        }
+
+        _swapRoutes[_token] = _path;
+
+        emit SwapRouteUpdated(_token, _path);
+    }
+
+    // Swap path for a token: its configured route, or the direct pair (token -> primary token)
+    function routeOf(mapping(address => address[]) storage _swapRoutes, address _token, address _primaryToken) public view returns (address[] memory) {
+        if (_swapRoutes[_token].length > 0) {
+            return _swapRoutes[_token];
+        }
+
+        address[] memory path = new address[](2);
+        path[0] = _token; // Input token
+        path[1] = _primaryToken; // Output token (USDC)
+        return path;
+    }
+
+    // Minimum output for a swap: the router quote less the slippage tolerance, raised to the oracle price less
+    // the allowed deviation when an oracle is set; reverts if the router quote is below that oracle floor
+    function getAmountOutMin(
+        address _router,
+        address[] memory _path,
+        uint256 _amountIn,
+        uint256 _slippageTolerance,
+        IPriceOracle _priceOracle,
+        uint256 _maxOracleDeviation
+    ) internal view returns (uint256) {
+        // Get the current exchange rates from Uniswap
+        uint256[] memory amounts = IUniswapV2Router02(_router).getAmountsOut(_amountIn, _path);
+        uint256 quotedAmountOut = amounts[amounts.length - 1];
+
+        // Calculate minimum amount, considering slippage tolerance
+        uint256 amountOutMin = quotedAmountOut - (quotedAmountOut * _slippageTolerance / 10000);
+
+        // Optionally check the router's quote against an independent price source
+        if (address(_priceOracle) != address(0)) {
+            uint256 oracleAmountOut = _priceOracle.quote(_path[0], _amountIn, _path[_path.length - 1]);
+            uint256 oracleAmountOutMin = oracleAmountOut - (oracleAmountOut * _maxOracleDeviation / 10000);
+            require(quotedAmountOut >= oracleAmountOutMin, "Swap price deviates from oracle");
+
+            if (oracleAmountOutMin > amountOutMin) {
+                amountOutMin = oracleAmountOutMin;
+            }
+        }
+
+        return amountOutMin;
+    }
+}
@@ -0,0 +1,147 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "./LedgerLibrary.sol";
+
+// A withdrawal request binds the approvals to one amount and expires after the voting period
+struct WithdrawalRequest {
+    uint256 requestId;
+    address participant; // Participant asking to withdraw
+    uint256 amount; // Amount the approvers agreed to
+    uint256 deadline; // Approvals and execution must happen before this time
+    mapping(address => uint256) approvals; // Approver => membership (Participant.membershipId) the approval was given in
+    uint256 approvedCount; // Approvals by current participants, as of the last approval
+    bool executed; // Set when the withdrawal is paid out, consuming the approvals
+}
+
+// Opening, approval and execution checks for withdrawal requests, including approvals signed off-chain (EIP-712).
+// address(this) in the EIP-712 domain is the wallet, whose context the functions run in.
+library WithdrawalLibrary {
+    bytes32 internal constant DOMAIN_TYPEHASH = keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    bytes32 internal constant WITHDRAWAL_APPROVAL_TYPEHASH = keccak256("WithdrawalApproval(uint256 requestId,address participant,uint256 amount)");
+
+    event WithdrawalRequested(uint256 indexed requestId, address indexed participant, uint256 amount, uint256 deadline);
+    event WithdrawalApproved(uint256 indexed requestId, address indexed participant, address indexed approver);
+
+    // Opens request `_requestId` for `_participant` to withdraw `_amount`, open for approvals until `_deadline`.
+    // It supersedes the participant's earlier request, along with its approvals.
+    function request(
+        mapping(uint256 => WithdrawalRequest) storage _requests,
+        mapping(address => uint256) storage _activeRequests,
+        uint256 _requestId,
+        address _participant,
+        uint256 _amount,
+        uint256 _deadline
+    ) external {
+        WithdrawalRequest storage withdrawalRequest = _requests[_requestId];
+        withdrawalRequest.requestId = _requestId;
+        withdrawalRequest.participant = _participant;
+        withdrawalRequest.amount = _amount;
+        withdrawalRequest.deadline = _deadline;
+
+        _activeRequests[_participant] = _requestId;
+
+        emit WithdrawalRequested(_requestId, _participant, _amount, _deadline);
+    }
+
+    // Records `_approver`'s approval of the request
+    function approve(
+        mapping(uint256 => WithdrawalRequest) storage _requests,
+        mapping(address => uint256) storage _activeRequests,
+        mapping(address => Participant) storage _participants,
+        address[] storage _participantAddresses,
+        uint256 _requestId,
+        address _approver
+    ) public {
+        WithdrawalRequest storage request = _requests[_requestId];
+        require(request.requestId != 0, "Withdrawal request does not exist");
+        require(request.participant != _approver, "You cannot approve your own withdrawal");
+        require(_participants[_approver].participantAddress != address(0), "Only participants can approve");
+
+        // Only the participant's current request can collect approvals, and only until it expires
+        require(_activeRequests[request.participant] == _requestId, "Withdrawal request is no longer active");
+        require(block.timestamp <= request.deadline, "Withdrawal request has expired");
+
+        // Ensure the participant hasn't already approved this withdrawal
+        uint256 membershipId = _participants[_approver].membershipId;
+        require(request.approvals[_approver] != membershipId, "You have already approved this withdrawal");
+
+        // Mark the participant as having approved
+        request.approvals[_approver] = membershipId;
+        request.approvedCount = countApprovals(request, _participants, _participantAddresses);
+
+        // Emit an event for the approval
+        emit WithdrawalApproved(_requestId, request.participant, _approver);
+    }
+
+    // Records approvals that `_approvers` signed off-chain. Each approver can approve a request only once,
+    // so a signature cannot be replayed; it stops being usable when the request expires or is superseded.
+    function approveBySig(
+        mapping(uint256 => WithdrawalRequest) storage _requests,
+        mapping(address => uint256) storage _activeRequests,
+        mapping(address => Participant) storage _participants,
+        address[] storage _participantAddresses,
+        uint256 _requestId,
+        address[] calldata _approvers,
+        bytes[] calldata _signatures
+    ) external {
+        require(_approvers.length == _signatures.length, "Approvers and signatures length mismatch");
+
+        WithdrawalRequest storage request = _requests[_requestId];
+        bytes32 digest = keccak256(abi.encodePacked(
+            "\x19\x01",
+            domainSeparator(),
+            keccak256(abi.encode(WITHDRAWAL_APPROVAL_TYPEHASH, _requestId, request.participant, request.amount))
+        ));
+
+        for (uint256 i = 0; i < _approvers.length; i++) {
+            require(ECDSA.recover(digest, _signatures[i]) == _approvers[i], "Invalid approval signature");
+            approve(_requests, _activeRequests, _participants, _participantAddresses, _requestId, _approvers[i]);
+        }
+    }
+
+    // Checks that `_participant` may withdraw `_amount` against their current request and consumes the request,
+    // so that its approvals cannot be replayed
+    function consume(
+        mapping(uint256 => WithdrawalRequest) storage _requests,
+        mapping(address => uint256) storage _activeRequests,
+        mapping(address => Participant) storage _participants,
+        address[] storage _participantAddresses,
+        address _participant,
+        uint256 _amount,
+        uint256 _nextWithdrawalDate
+    ) external {
+        // Withdrawals always execute against the participant's current request
+        WithdrawalRequest storage request = _requests[_activeRequests[_participant]];
+        require(request.requestId != 0, "No active withdrawal request");
+        require(block.timestamp <= request.deadline, "Withdrawal request has expired");
+        require(_amount <= request.amount, "Withdrawal amount exceeds approved amount");
+        require(block.timestamp >= _nextWithdrawalDate, "Withdrawals are limited to once every 6 months");
+
+        // Every other current participant must have approved; approvals of members who have left no longer count
+        require(countApprovals(request, _participants, _participantAddresses) >= _participantAddresses.length - 1, "Quorum approval not met");
+
+        request.executed = true;
+        _activeRequests[_participant] = 0;
+    }
+
+    // Number of current participants who approved `_request` in their current membership
+    function countApprovals(
+        WithdrawalRequest storage _request,
+        mapping(address => Participant) storage _participants,
+        address[] storage _participantAddresses
+    ) internal view returns (uint256 count) {
+        for (uint256 i = 0; i < _participantAddresses.length; i++) {
+            address participant = _participantAddresses[i];
+            if (_request.approvals[participant] == _participants[participant].membershipId) {
+                count++;
+            }
+        }
+    }
+
+    // EIP-712 domain of the wallet running this code
+    function domainSeparator() internal view returns (bytes32) {
+        return keccak256(abi.encode(DOMAIN_TYPEHASH, keccak256("MultisigWallet"), keccak256("1"), block.chainid, address(this)));
+    }
+}
@@ -1,17 +1,29 @@
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "dotenv/config"
+import "./tasks/wallet";
+import "./tasks/statements";
 
-const { SEPOLIA_RPC_URL, ACCOUNT_PRIVATE_KEY, ETHERSCAN_API_KEY, ALCHEMY_API_KEY_URL } = process.env;
+const { SEPOLIA_RPC_URL, ACCOUNT_PRIVATE_KEY, ETHERSCAN_API_KEY, ALCHEMY_API_KEY_URL, LISK_RPC_URL, FORK } = process.env;
 
 const config: HardhatUserConfig = {
-  solidity: "0.8.24",
+  solidity: {
+    version: "0.8.24",
+    settings: {
+      // Keeps MultisigWallet under the 24KB contract size limit
+      optimizer: {
+        enabled: true,
+        runs: 200,
+      },
+    },
+  },
   networks: {
-    hardhat: {
+    // Local network with mock tokens and router by default; set FORK=true to fork mainnet instead
+    hardhat: FORK === "true" ? {
       forking: {
         url: ALCHEMY_API_KEY_URL!,
       }
-    },
+    } : {},
     sepolia: {
       url: SEPOLIA_RPC_URL || "",
       accounts:
@@ -19,8 +31,9 @@ const config: HardhatUserConfig = {
     },
     // for testnet
     "lisk-sepolia": {
-      url: process.env.LISK_RPC_URL!,
-      accounts: [process.env.ACCOUNT_PRIVATE_KEY!],
+      url: LISK_RPC_URL || "",
+      accounts:
+          ACCOUNT_PRIVATE_KEY !== undefined ? [ACCOUNT_PRIVATE_KEY] : [],
       gasPrice: 1000000000,
     },
   },
@@ -1,41 +1,85 @@
 // This setup uses Hardhat Ignition to manage smart contract deployments.
 // Learn more about it at https://hardhat.org/ignition
+//
+// Network-specific values come from a parameter file, e.g.
+//   npx hardhat ignition deploy ignition/modules/Deploy.ts --network sepolia --parameters ignition/parameters/sepolia.json
 
 import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import type { AddressResolvableFuture, ArgumentType, IgnitionModuleBuilder, ModuleParameterRuntimeValue } from "@nomicfoundation/ignition-core";
 
-const MultisigWalletModule = buildModule("MultisigWalletModule", (m) => {
+export interface MultisigWalletConfig {
+  primaryToken: ArgumentType;
+  supportedTokens: ArgumentType;
+  fixedMonthlyContribution: ArgumentType;
+  investmentThreshold: ArgumentType;
+  investmentPercentage: ArgumentType;
+  investmentReturnRate: ArgumentType;
+  uniswapRouter: AddressResolvableFuture | ModuleParameterRuntimeValue<string>;
+  initialParticipants: ArgumentType;
+}
+
+// Deploys the wallet's libraries and a wallet linked against them, once the router has been checked.
+// `id` tells wallets apart in modules that deploy more than one kind (e.g. the factory's implementation).
+export function deployLinkedWallet(m: IgnitionModuleBuilder, config: Omit<MultisigWalletConfig, "initialParticipants">, id = "MultisigWallet") {
+  // A Uniswap V2 router answers both factory() and WETH(). The factory itself (or a token) has no factory() and
+  // fails the first call; a pair has factory() but no WETH() and fails the second.
+  const router = m.contractAt("IUniswapV2Router02", config.uniswapRouter, { id: "UniswapRouter" });
+  const routerFactory = m.staticCall(router, "factory", [], 0, { id: "RouterFactory" });
+  const routerWETH = m.staticCall(router, "WETH", [], 0, { id: "RouterWETH" });
+
+  // Deploy the libraries that MultisigWallet links against
+  const swapLibrary = m.library("SwapLibrary");
+  const ledgerLibrary = m.library("LedgerLibrary");
+  const withdrawalLibrary = m.library("WithdrawalLibrary");
+  const proposalLibrary = m.library("ProposalLibrary");
+  const assetLibrary = m.library("AssetLibrary", { libraries: { SwapLibrary: swapLibrary, LedgerLibrary: ledgerLibrary } });
+
+  // Deploy the MultisigWallet contract once the router has been checked
+  return m.contract("MultisigWallet", [
+    config.primaryToken,
+    config.supportedTokens,
+    config.fixedMonthlyContribution,
+    config.investmentThreshold,
+    config.investmentPercentage,
+    config.investmentReturnRate,
+    config.uniswapRouter
+  ], {
+    id,
+    libraries: {
+      SwapLibrary: swapLibrary,
+      LedgerLibrary: ledgerLibrary,
+      WithdrawalLibrary: withdrawalLibrary,
+      ProposalLibrary: proposalLibrary,
+      AssetLibrary: assetLibrary,
+    },
+    after: [routerFactory, routerWETH],
+  });
+}
+
+// Deploys a linked wallet and adds the initial participants.
+// Shared by the module below and the local module that deploys mocks first.
+export function deployMultisigWallet(m: IgnitionModuleBuilder, config: MultisigWalletConfig) {
+  const multisigWallet = deployLinkedWallet(m, config);
 
-  // Define the token addresses (these should be set according to your network)
-  const usdcAddress = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48"; // USDC address on Ethereum
-  const daiAddress = "0x6B175474E89094C44Da98b954EedeAC495271d0F";  // DAI address on Ethereum
-  const uniAddress = "0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984";  // UNI address on Ethereum
-  const linkAddress = "0x514910771AF9Ca656af840dff83E8264EcF986CA"; // LINK address on Ethereum
-  
-  // Supported tokens array (USDC, DAI, UNI, LINK)
-  const supportedTokens = [usdcAddress, daiAddress, uniAddress, linkAddress];
-
-  // Other constructor parameters
-  const primaryToken = usdcAddress; // Assuming USDC is the primary token for savings
-  const fixedMonthlyContribution = 100 * 10**6; // Example value (100 USDC in 6 decimal places)
-  const investmentThreshold = 200 * 10**6; // Example value (200 USDC)
-  const investmentPercentage = 50; // Example percentage (50%)
-  const investmentReturnRate = 15; // Example return rate (1.5%)
-  const uniswapRouter = "0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f"; // Example Uniswap V2 router address on Ethereum
-
-  // Deploy the MultisigWallet contract with the specified constructor arguments
-  const multisigWallet = m.contract("MultisigWallet", [
-    primaryToken,
-    supportedTokens,
-    fixedMonthlyContribution,
-    investmentThreshold,
-    investmentPercentage,
-    investmentReturnRate,
-    uniswapRouter
-  ]);
+  // Post-deploy: add the initial members (deposits open once there are at least 3)
+  m.call(multisigWallet, "addParticipants", [config.initialParticipants], { id: "AddInitialParticipants" });
+
+  return multisigWallet;
+}
+
+const MultisigWalletModule = buildModule("MultisigWalletModule", (m) => {
+  const multisigWallet = deployMultisigWallet(m, {
+    primaryToken: m.getParameter<string>("primaryToken"), // Token savings are held in, e.g. USDC
+    supportedTokens: m.getParameter<string[]>("supportedTokens"), // Accepted deposit tokens, including the primary token
+    fixedMonthlyContribution: m.getParameter<bigint>("fixedMonthlyContribution"), // In the primary token's smallest unit
+    investmentThreshold: m.getParameter<bigint>("investmentThreshold"), // In the primary token's smallest unit
+    investmentPercentage: m.getParameter<number>("investmentPercentage", 50), // Share of savings invested, in percent
+    investmentReturnRate: m.getParameter<number>("investmentReturnRate", 15), // Initial monthlyInterestRate: most interest credited per month, per thousand (15 = 1.5%)
+    uniswapRouter: m.getParameter<string>("uniswapRouter"), // Uniswap V2 Router02, not the factory
+    initialParticipants: m.getParameter<string[]>("initialParticipants", []),
+  });
 
   return { multisigWallet };
 });
 
 export default MultisigWalletModule;
-
-
@@ -0,0 +1,30 @@
+// Deploys a MultisigWalletFactory, which creates savings groups as cheap clones of one wallet, e.g.
+//   npx hardhat ignition deploy ignition/modules/Factory.ts --network sepolia --parameters ignition/parameters/sepolia.json
+// Groups are then created with the factory's createGroup (see MultisigWalletFactoryClient in sdk/).
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import type { IgnitionModuleBuilder } from "@nomicfoundation/ignition-core";
+import { deployLinkedWallet, MultisigWalletConfig } from "./Deploy";
+
+// Deploys the implementation the groups delegate to, and the factory on top of it. The implementation is an
+// ordinary wallet without members; `config` only has to be valid, as every group brings its own parameters.
+export function deployMultisigWalletFactory(m: IgnitionModuleBuilder, config: Omit<MultisigWalletConfig, "initialParticipants">) {
+  const implementation = deployLinkedWallet(m, config, "MultisigWalletImplementation");
+  const multisigWalletFactory = m.contract("MultisigWalletFactory", [implementation]);
+
+  return { multisigWalletFactory, implementation };
+}
+
+const MultisigWalletFactoryModule = buildModule("MultisigWalletFactoryModule", (m) => {
+  return deployMultisigWalletFactory(m, {
+    primaryToken: m.getParameter<string>("primaryToken"),
+    supportedTokens: m.getParameter<string[]>("supportedTokens"),
+    fixedMonthlyContribution: m.getParameter<bigint>("fixedMonthlyContribution"),
+    investmentThreshold: m.getParameter<bigint>("investmentThreshold"),
+    investmentPercentage: m.getParameter<number>("investmentPercentage", 50),
+    investmentReturnRate: m.getParameter<number>("investmentReturnRate", 15),
+    uniswapRouter: m.getParameter<string>("uniswapRouter"), // Uniswap V2 Router02, not the factory
+  });
+});
+
+export default MultisigWalletFactoryModule;
@@ -0,0 +1,44 @@
+// Deploys mock USDC/DAI/UNI/LINK and a mock Uniswap V2 router, then the wallet on top of them.
+// For a local node or a testnet without Uniswap V2 liquidity, e.g.
+//   npx hardhat ignition deploy ignition/modules/LocalDeploy.ts --network localhost --parameters ignition/parameters/localhost.json
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import type { IgnitionModuleBuilder } from "@nomicfoundation/ignition-core";
+import { deployMultisigWallet } from "./Deploy";
+
+// Deploys the mock tokens and router; shared with the local factory module
+export function deployMocks(m: IgnitionModuleBuilder) {
+  // Mock tokens, minted to the deployer
+  const mockUSDC = m.contract("MockERC20", ["Mock USDC", "mUSDC", 6, 1_000_000n * 10n ** 6n], { id: "MockUSDC" });
+  const mockDAI = m.contract("MockERC20", ["Mock DAI", "mDAI", 18, 1_000_000n * 10n ** 18n], { id: "MockDAI" });
+  const mockUNI = m.contract("MockERC20", ["Mock UNI", "mUNI", 18, 1_000_000n * 10n ** 18n], { id: "MockUNI" });
+  const mockLINK = m.contract("MockERC20", ["Mock LINK", "mLINK", 18, 1_000_000n * 10n ** 18n], { id: "MockLINK" });
+
+  // Mock router with fixed rates (1 DAI = 1 USDC, 1 UNI = 8 USDC, 1 LINK = 12 USDC)
+  const mockRouter = m.contract("MockUniswapV2Router");
+  m.call(mockRouter, "setRate", [mockDAI, mockUSDC, 1n * 10n ** 6n], { id: "SetDAIRate" });
+  m.call(mockRouter, "setRate", [mockUNI, mockUSDC, 8n * 10n ** 6n], { id: "SetUNIRate" });
+  m.call(mockRouter, "setRate", [mockLINK, mockUSDC, 12n * 10n ** 6n], { id: "SetLINKRate" });
+  m.call(mockUSDC, "transfer", [mockRouter, 500_000n * 10n ** 6n], { id: "FundRouter" }); // Liquidity for swaps
+
+  return { mockUSDC, mockDAI, mockUNI, mockLINK, mockRouter };
+}
+
+const LocalMultisigWalletModule = buildModule("LocalMultisigWalletModule", (m) => {
+  const { mockUSDC, mockDAI, mockUNI, mockLINK, mockRouter } = deployMocks(m);
+
+  const multisigWallet = deployMultisigWallet(m, {
+    primaryToken: mockUSDC,
+    supportedTokens: [mockUSDC, mockDAI, mockUNI, mockLINK],
+    fixedMonthlyContribution: m.getParameter<bigint>("fixedMonthlyContribution", 100n * 10n ** 6n), // 100 mUSDC
+    investmentThreshold: m.getParameter<bigint>("investmentThreshold", 200n * 10n ** 6n), // 200 mUSDC
+    investmentPercentage: m.getParameter<number>("investmentPercentage", 50),
+    investmentReturnRate: m.getParameter<number>("investmentReturnRate", 15),
+    uniswapRouter: mockRouter,
+    initialParticipants: m.getParameter<string[]>("initialParticipants", []),
+  });
+
+  return { multisigWallet, mockUSDC, mockDAI, mockUNI, mockLINK, mockRouter };
+});
+
+export default LocalMultisigWalletModule;
@@ -0,0 +1,24 @@
+// Deploys the mock tokens and router of LocalDeploy.ts, then a MultisigWalletFactory on top of them, e.g.
+//   npx hardhat ignition deploy ignition/modules/LocalFactory.ts --network localhost
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { deployMultisigWalletFactory } from "./Factory";
+import { deployMocks } from "./LocalDeploy";
+
+const LocalMultisigWalletFactoryModule = buildModule("LocalMultisigWalletFactoryModule", (m) => {
+  const { mockUSDC, mockDAI, mockUNI, mockLINK, mockRouter } = deployMocks(m);
+
+  const { multisigWalletFactory, implementation } = deployMultisigWalletFactory(m, {
+    primaryToken: mockUSDC,
+    supportedTokens: [mockUSDC, mockDAI, mockUNI, mockLINK],
+    fixedMonthlyContribution: 100n * 10n ** 6n,
+    investmentThreshold: 200n * 10n ** 6n,
+    investmentPercentage: 50,
+    investmentReturnRate: 15,
+    uniswapRouter: mockRouter,
+  });
+
+  return { multisigWalletFactory, implementation, mockUSDC, mockDAI, mockUNI, mockLINK, mockRouter };
+});
+
+export default LocalMultisigWalletFactoryModule;
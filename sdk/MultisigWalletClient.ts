@@ -0,0 +1,220 @@
+import { ContractTransactionReceipt, ContractTransactionResponse, Signer } from "ethers";
+import { IERC20__factory, IPriceOracle__factory, MultisigWallet, MultisigWallet__factory } from "../typechain-types";
+import { calculateContributionStatus, ContributionSchedule, ContributionStatus } from "./contributions";
+import { decodeMultisigWalletError } from "./errors";
+import { signPermit, signWithdrawalApproval, SignedWithdrawalApproval } from "./signatures";
+
+export interface WithdrawalRequestStatus {
+  requestId: bigint;
+  participant: string;
+  amount: bigint;
+  deadline: bigint;
+  approvedCount: bigint;
+  approvalsNeeded: bigint; // Every other participant has to approve
+  executed: boolean;
+}
+
+export interface InvestmentStatus {
+  isInvested: boolean;
+  investedAmount: bigint;
+  investmentStartTimestamp: bigint;
+  interestEarned: bigint; // checkInterestEarned
+  timeLeftToWithdraw: bigint; // Seconds until the invested share unlocks (timeLeftToWithdraw)
+}
+
+// A token the signer holds as-is, with its current value according to the wallet's price oracle
+export interface HeldBalance {
+  token: string;
+  amount: bigint; // In the token's smallest unit
+  value: bigint; // In the primary token's smallest unit
+}
+
+// Typed client for one signer's use of a MultisigWallet; reverts surface as MultisigWalletError
+export class MultisigWalletClient {
+  readonly wallet: MultisigWallet;
+  readonly signer: Signer;
+
+  constructor(wallet: MultisigWallet, signer: Signer) {
+    this.wallet = wallet.connect(signer);
+    this.signer = signer;
+  }
+
+  static connect(address: string, signer: Signer): MultisigWalletClient {
+    return new MultisigWalletClient(MultisigWallet__factory.connect(address, signer), signer);
+  }
+
+  // Approves the wallet for `amount` of `token` if needed, then deposits it
+  async deposit(token: string, amount: bigint): Promise<ContractTransactionReceipt> {
+    const erc20 = IERC20__factory.connect(token, this.signer);
+    const owner = await this.signer.getAddress();
+    const walletAddress = await this.wallet.getAddress();
+
+    if ((await erc20.allowance(owner, walletAddress)) < amount) {
+      await this.send(() => erc20.approve(walletAddress, amount));
+    }
+
+    return this.send(() => this.wallet.depositToken(token, amount));
+  }
+
+  // Deposits a permit-capable (EIP-2612) token with a signed permit instead of an approve transaction.
+  // The permit is valid for `validFor` seconds from the latest block.
+  async depositWithPermit(token: string, amount: bigint, validFor = 3600n): Promise<ContractTransactionReceipt> {
+    const deadline = (await this.latestTimestamp()) + validFor;
+    const { v, r, s } = await signPermit(this.signer, token, await this.wallet.getAddress(), amount, deadline);
+
+    return this.send(() => this.wallet.depositWithPermit(token, amount, deadline, v, r, s));
+  }
+
+  // Values the signer's contribution status is computed from, read from the chain
+  async getContributionSchedule(): Promise<ContributionSchedule> {
+    const [fixedMonthlyContribution, gracePeriod, latePenaltyRate, member] = await Promise.all([
+      this.wallet.fixedMonthlyContribution(),
+      this.wallet.gracePeriod(),
+      this.wallet.latePenaltyRate(),
+      this.call(() => this.wallet.getParticipant()),
+    ]);
+
+    return {
+      fixedMonthlyContribution,
+      gracePeriod,
+      latePenaltyRate,
+      lastContributionTimestamp: member.lastContributionTimestamp,
+      lastCycleContribution: member.lastCycleContribution,
+    };
+  }
+
+  // Missed cycles, arrears, penalty and the required next deposit, as of `timestamp` (default: the latest block)
+  async getContributionStatus(timestamp?: bigint): Promise<ContributionStatus> {
+    const schedule = await this.getContributionSchedule();
+    return calculateContributionStatus(schedule, timestamp ?? (await this.latestTimestamp()));
+  }
+
+  async getRequiredContribution(timestamp?: bigint): Promise<bigint> {
+    return (await this.getContributionStatus(timestamp)).requiredContribution;
+  }
+
+  // Opens a withdrawal request and returns its ID
+  async requestWithdrawal(amount: bigint): Promise<bigint> {
+    const receipt = await this.send(() => this.wallet.requestWithdrawal(amount));
+    for (const log of receipt.logs) {
+      const parsed = this.wallet.interface.parseLog(log);
+      if (parsed?.name === "WithdrawalRequested") {
+        return parsed.args.requestId;
+      }
+    }
+    throw new Error("WithdrawalRequested event not found");
+  }
+
+  async approveWithdrawal(requestId: bigint): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.wallet.approveWithdrawal(requestId));
+  }
+
+  // Signs the signer's approval of a request off-chain, for the requester or a relayer to submit
+  async signWithdrawalApproval(requestId: bigint): Promise<SignedWithdrawalApproval> {
+    return signWithdrawalApproval(this.wallet, this.signer, requestId);
+  }
+
+  // Submits approvals signed by other participants in one transaction; the signer only pays for the gas
+  async submitWithdrawalApprovals(requestId: bigint, approvals: SignedWithdrawalApproval[]): Promise<ContractTransactionReceipt> {
+    for (const approval of approvals) {
+      if (approval.requestId !== requestId) {
+        throw new Error(`Approval by ${approval.approver} is for request ${approval.requestId}, not ${requestId}`);
+      }
+    }
+
+    return this.send(() =>
+      this.wallet.approveWithdrawalsBySig(
+        requestId,
+        approvals.map((approval) => approval.approver),
+        approvals.map((approval) => approval.signature)
+      )
+    );
+  }
+
+  async withdraw(amount: bigint): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.wallet.withdraw(amount));
+  }
+
+  // Withdraws `amount` of a held token; the approved request must cover its value in the primary token
+  async withdrawHeld(token: string, amount: bigint): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.wallet.withdrawHeld(token, amount));
+  }
+
+  async getWithdrawalRequest(requestId: bigint): Promise<WithdrawalRequestStatus> {
+    const [request, totalParticipants] = await Promise.all([
+      this.wallet.withdrawalRequests(requestId),
+      this.wallet.totalParticipants(),
+    ]);
+
+    return {
+      requestId: request.requestId,
+      participant: request.participant,
+      amount: request.amount,
+      deadline: request.deadline,
+      approvedCount: request.approvedCount,
+      approvalsNeeded: totalParticipants - 1n,
+      executed: request.executed,
+    };
+  }
+
+  async getBalance(): Promise<bigint> {
+    return this.call(() => this.wallet.checkBalance());
+  }
+
+  // The signer's non-empty balances of held tokens
+  async getHeldBalances(): Promise<HeldBalance[]> {
+    const [[tokens, amounts], primaryToken, oracleAddress] = await Promise.all([
+      this.call(() => this.wallet.getHeldBalances()),
+      this.wallet.primaryToken(),
+      this.wallet.priceOracle(),
+    ]);
+    const oracle = IPriceOracle__factory.connect(oracleAddress, this.signer);
+
+    const balances: HeldBalance[] = [];
+    for (let i = 0; i < tokens.length; i++) {
+      if (amounts[i] > 0n) {
+        balances.push({ token: tokens[i], amount: amounts[i], value: await oracle.quote(tokens[i], amounts[i], primaryToken) });
+      }
+    }
+    return balances;
+  }
+
+  async getInvestmentStatus(): Promise<InvestmentStatus> {
+    const [member, interestEarned, timeLeftToWithdraw] = await Promise.all([
+      this.call(() => this.wallet.getParticipant()),
+      this.call(() => this.wallet.checkInterestEarned()),
+      this.call(() => this.wallet.timeLeftToWithdraw()),
+    ]);
+
+    return {
+      isInvested: member.isInvested,
+      investedAmount: member.investedAmount,
+      investmentStartTimestamp: member.investmentStartTimestamp,
+      interestEarned,
+      timeLeftToWithdraw,
+    };
+  }
+
+  private async latestTimestamp(): Promise<bigint> {
+    const block = await this.signer.provider!.getBlock("latest");
+    return BigInt(block!.timestamp);
+  }
+
+  // Sends a transaction and waits for it to be mined, decoding any revert
+  private async send(transaction: () => Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+    try {
+      const response = await transaction();
+      return (await response.wait())!;
+    } catch (error) {
+      throw decodeMultisigWalletError(error);
+    }
+  }
+
+  private async call<T>(read: () => Promise<T>): Promise<T> {
+    try {
+      return await read();
+    } catch (error) {
+      throw decodeMultisigWalletError(error);
+    }
+  }
+}
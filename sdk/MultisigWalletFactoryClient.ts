@@ -0,0 +1,78 @@
+import { Signer } from "ethers";
+import { MultisigWallet__factory, MultisigWalletFactory, MultisigWalletFactory__factory } from "../typechain-types";
+import { decodeMultisigWalletError } from "./errors";
+import { MultisigWalletClient } from "./MultisigWalletClient";
+
+// Per-group parameters for createGroup; amounts are in the primary token's smallest unit
+export type GroupConfig = MultisigWalletFactory.GroupConfigStruct;
+
+// What a member sees of a group without being able to read other members' balances
+export interface GroupSummary {
+  address: string;
+  owner: string;
+  primaryToken: string;
+  fixedMonthlyContribution: bigint;
+  totalParticipants: bigint;
+  totalSavings: bigint;
+}
+
+// Typed client for creating and finding savings groups through a MultisigWalletFactory
+export class MultisigWalletFactoryClient {
+  readonly factory: MultisigWalletFactory;
+  readonly signer: Signer;
+
+  constructor(factory: MultisigWalletFactory, signer: Signer) {
+    this.factory = factory.connect(signer);
+    this.signer = signer;
+  }
+
+  static connect(address: string, signer: Signer): MultisigWalletFactoryClient {
+    return new MultisigWalletFactoryClient(MultisigWalletFactory__factory.connect(address, signer), signer);
+  }
+
+  // Creates a group owned by the signer with `participants` as its founding members, and returns a client for it
+  async createGroup(config: GroupConfig, participants: string[]): Promise<MultisigWalletClient> {
+    let receipt;
+    try {
+      receipt = (await (await this.factory.createGroup(config, participants)).wait())!;
+    } catch (error) {
+      throw decodeMultisigWalletError(error);
+    }
+
+    for (const log of receipt.logs) {
+      const parsed = this.factory.interface.parseLog(log);
+      if (parsed?.name === "GroupCreated") {
+        return this.connectGroup(parsed.args.group);
+      }
+    }
+    throw new Error("GroupCreated event not found");
+  }
+
+  // Client for one of the factory's groups, acting as the signer
+  connectGroup(address: string): MultisigWalletClient {
+    return MultisigWalletClient.connect(address, this.signer);
+  }
+
+  // Every group the factory created, oldest first
+  async listGroups(): Promise<string[]> {
+    return [...(await this.factory.getGroups())];
+  }
+
+  // Groups `member` (default: the signer) currently belongs to
+  async listGroupsOf(member?: string): Promise<string[]> {
+    return [...(await this.factory.getGroupsOf(member ?? (await this.signer.getAddress())))];
+  }
+
+  async getGroupSummary(address: string): Promise<GroupSummary> {
+    const group = MultisigWallet__factory.connect(address, this.signer);
+    const [owner, primaryToken, fixedMonthlyContribution, totalParticipants, totalSavings] = await Promise.all([
+      group.owner(),
+      group.primaryToken(),
+      group.fixedMonthlyContribution(),
+      group.totalParticipants(),
+      group.totalSavings(),
+    ]);
+
+    return { address, owner, primaryToken, fixedMonthlyContribution, totalParticipants, totalSavings };
+  }
+}
@@ -0,0 +1,45 @@
+// Off-chain mirror of MultisigWallet.getContributionStatus, so apps can show what a member owes without a call per render
+
+// Length of a contribution cycle (CONTRIBUTION_PERIOD in the contract)
+export const CONTRIBUTION_PERIOD = 30n * 24n * 60n * 60n;
+
+// Wallet and participant values the calculation depends on
+export interface ContributionSchedule {
+  fixedMonthlyContribution: bigint;
+  gracePeriod: bigint;
+  latePenaltyRate: bigint; // Percentage of the arrears
+  lastContributionTimestamp: bigint;
+  lastCycleContribution: bigint; // Per-cycle amount of the participant's last deposit, up to what the cycle required
+}
+
+export interface ContributionStatus {
+  missedCycles: bigint;
+  arrears: bigint;
+  penalty: bigint;
+  requiredContribution: bigint; // Minimum amount of the primary token the next deposit must bring in
+  nextDueTimestamp: bigint; // Time at which one more cycle counts as missed
+}
+
+// Minimum contribution per cycle, as LedgerLibrary.cycleContribution: each cycle's contribution may not drop below the
+// previous one
+export function calculateCycleContribution(schedule: Pick<ContributionSchedule, "fixedMonthlyContribution" | "lastCycleContribution">): bigint {
+  return schedule.lastCycleContribution > schedule.fixedMonthlyContribution ? schedule.lastCycleContribution : schedule.fixedMonthlyContribution;
+}
+
+// Computes the contribution status at `timestamp` exactly as the contract does
+export function calculateContributionStatus(schedule: ContributionSchedule, timestamp: bigint): ContributionStatus {
+  const elapsed = timestamp - schedule.lastContributionTimestamp;
+  const missedCycles = elapsed > schedule.gracePeriod ? (elapsed - schedule.gracePeriod) / CONTRIBUTION_PERIOD : 0n;
+
+  const cycleContribution = calculateCycleContribution(schedule);
+  const arrears = cycleContribution * missedCycles;
+  const penalty = (arrears * schedule.latePenaltyRate) / 100n;
+
+  return {
+    missedCycles,
+    arrears,
+    penalty,
+    requiredContribution: cycleContribution * (missedCycles + 1n) + penalty,
+    nextDueTimestamp: schedule.lastContributionTimestamp + schedule.gracePeriod + CONTRIBUTION_PERIOD * (missedCycles + 1n),
+  };
+}
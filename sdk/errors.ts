@@ -0,0 +1,206 @@
+import { Interface } from "ethers";
+import { MultisigWallet__factory, WithdrawalLibrary__factory } from "../typechain-types";
+
+// Revert reasons raised by MultisigWallet (and the libraries it links) and MultisigWalletFactory, keyed by a stable code apps can switch on
+export const REVERT_REASONS = {
+  AmountZero: "Amount must be greater than zero",
+  ApprovalsLengthMismatch: "Approvers and signatures length mismatch",
+  BatchSizeZero: "Batch size must be greater than zero",
+  NotGroup: "Caller is not a group",
+  NotParticipant: "Caller is not a participant",
+  NotGuardian: "Caller is not the guardian",
+  SwapPrimaryToken: "Cannot swap USDC for USDC",
+  EmergencyAfterLock: "Cannot use emergency withdrawal after the lock period",
+  ChangeNotQueued: "Change is not queued",
+  Paused: "Contract is not active",
+  ContributionOutOfRange: "Contribution change out of range",
+  ContributionZero: "Contribution must be greater than zero",
+  DeviationAboveMaximum: "Deviation exceeds the maximum",
+  FeeAboveMaximum: "Fee exceeds the maximum",
+  InvalidFee: "Fee must be between 0 and 100",
+  InvalidGracePeriod: "Grace period must be shorter than a cycle",
+  ImplementationNotContract: "Implementation is not a contract",
+  InsufficientContribution: "Insufficient amount to cover missed contributions",
+  InsufficientAllowance: "Insufficient token allowance",
+  InvalidApprovalSignature: "Invalid approval signature",
+  DistributionInProgress: "Interest distribution in progress",
+  InterestRateAboveMaximum: "Interest rate exceeds the maximum",
+  InvalidFeePolicy: "Invalid fee policy",
+  InvalidOwner: "Invalid owner address",
+  InvalidParticipant: "Invalid participant address",
+  InvalidPrimaryToken: "Invalid primary token address",
+  InvalidTreasury: "Invalid treasury address",
+  InvestmentLocked: "Investment lock period has not ended",
+  NoActiveWithdrawalRequest: "No active withdrawal request",
+  NoBalance: "No balance to withdraw",
+  NoFees: "No fees to distribute",
+  NoInterestPeriodElapsed: "No interest period has elapsed",
+  NoBalancesForFees: "No participant balances to share fees with",
+  NoPriceSource: "No price source for held tokens",
+  NoYieldStrategy: "No yield strategy set",
+  NothingToInvest: "Nothing to invest",
+  OnlyParticipantsApprove: "Only participants can approve",
+  OwnershipByVote: "Ownership can only be transferred by vote",
+  ParticipantExists: "Participant already exists",
+  ParticipantNotFound: "Participant does not exist",
+  InvalidPathEnd: "Path must end with the primary token",
+  PathTooShort: "Path must have at least two tokens",
+  InvalidPathStart: "Path must start with the token",
+  DeepensShortfall: "Payout would deepen the wallet's shortfall",
+  PenaltyAboveMaximum: "Penalty exceeds the maximum",
+  OracleRequired: "Price oracle is needed while tokens are held",
+  ProposalExecuted: "Proposal already executed",
+  ProposalNotFound: "Proposal does not exist",
+  QuorumNotMet: "Quorum approval not met",
+  InvalidStrategyAsset: "Strategy asset must be the primary token",
+  OracleDeviation: "Swap price deviates from oracle",
+  TimelockActive: "Timelock has not expired",
+  TokenNotSupported: "Token is not supported",
+  TokenTransferFailed: "Token transfer failed",
+  BelowInvestmentThreshold: "Total savings below investment threshold",
+  TransferFailed: "Transfer failed",
+  UsdcTransferFailed: "USDC transfer failed",
+  UnsupportedToken: "Unsupported token",
+  VotingEnded: "Voting period has ended",
+  AlreadyInitialized: "Wallet is already initialized",
+  GroupIncomplete: "Wallet needs at least 3 participants",
+  ExceedsApprovedAmount: "Withdrawal amount exceeds approved amount",
+  ExceedsBalance: "Withdrawal amount exceeds balance",
+  WithdrawalAmountZero: "Withdrawal amount must be greater than zero",
+  WithdrawalRequestNotFound: "Withdrawal request does not exist",
+  WithdrawalRequestExpired: "Withdrawal request has expired",
+  WithdrawalRequestInactive: "Withdrawal request is no longer active",
+  WithdrawalCadence: "Withdrawals are limited to once every 6 months",
+  SelfApproval: "You cannot approve your own withdrawal",
+  AlreadyApproved: "You have already approved this withdrawal",
+  AlreadyVoted: "You have already voted on this proposal",
+} as const;
+
+// Custom errors inherited from OpenZeppelin (the ECDSA ones are raised for malformed approval signatures)
+export type CustomErrorName =
+  | "OwnableUnauthorizedAccount"
+  | "OwnableInvalidOwner"
+  | "ECDSAInvalidSignature"
+  | "ECDSAInvalidSignatureLength"
+  | "ECDSAInvalidSignatureS";
+
+const CUSTOM_ERROR_NAMES = new Set<string>([
+  "OwnableUnauthorizedAccount",
+  "OwnableInvalidOwner",
+  "ECDSAInvalidSignature",
+  "ECDSAInvalidSignatureLength",
+  "ECDSAInvalidSignatureS",
+]);
+
+export type MultisigWalletErrorCode = keyof typeof REVERT_REASONS | CustomErrorName | "Unknown";
+
+const CODES_BY_REASON = new Map<string, MultisigWalletErrorCode>(
+  Object.entries(REVERT_REASONS).map(([code, reason]) => [reason, code as MultisigWalletErrorCode])
+);
+
+// A decoded MultisigWallet revert: `code` identifies the failure, `reason` is the contract's message
+export class MultisigWalletError extends Error {
+  readonly code: MultisigWalletErrorCode;
+  readonly reason: string;
+  readonly args: readonly unknown[];
+  readonly cause: unknown;
+
+  constructor(code: MultisigWalletErrorCode, reason: string, args: readonly unknown[] = [], cause?: unknown) {
+    super(reason);
+    this.name = "MultisigWalletError";
+    this.code = code;
+    this.reason = reason;
+    this.args = args;
+    this.cause = cause;
+  }
+}
+
+// The wallet's ABI plus the errors of the libraries it runs through delegatecall
+const walletInterface = new Interface([
+  ...MultisigWallet__factory.abi,
+  ...WithdrawalLibrary__factory.abi.filter((fragment) => fragment.type === "error"),
+]);
+
+function hasField<K extends string>(value: unknown, key: K): value is Record<K, unknown> {
+  return typeof value === "object" && value !== null && key in value;
+}
+
+// Reads `key` from an error-like value, whatever its shape
+function field(value: unknown, key: string): unknown {
+  return hasField(value, key) ? value[key] : undefined;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0;
+}
+
+// Collects the error itself and the errors nested inside it (ethers and Hardhat wrap provider errors)
+function errorChain(error: unknown): unknown[] {
+  const chain: unknown[] = [];
+  let current: unknown = error;
+  while (typeof current === "object" && current !== null && !chain.includes(current)) {
+    chain.push(current);
+    current = field(current, "error") ?? field(field(current, "info"), "error") ?? field(current, "cause");
+  }
+  return chain;
+}
+
+function fromReason(reason: string, error: unknown): MultisigWalletError {
+  return new MultisigWalletError(CODES_BY_REASON.get(reason) ?? "Unknown", reason, [], error);
+}
+
+function fromCustomError(name: string, args: readonly unknown[], error: unknown): MultisigWalletError {
+  const code = CUSTOM_ERROR_NAMES.has(name) ? (name as CustomErrorName) : "Unknown";
+  return new MultisigWalletError(code, name, args, error);
+}
+
+// Turns a failed call or transaction into a MultisigWalletError; errors that are not reverts are returned unchanged
+export function decodeMultisigWalletError(error: unknown): MultisigWalletError | unknown {
+  if (error instanceof MultisigWalletError) {
+    return error;
+  }
+
+  for (const item of errorChain(error)) {
+    // Revert data, decoded against the wallet's ABI (custom errors) or the built-in Error(string)
+    const data = field(item, "data");
+    if (typeof data === "string" && data.length >= 10) {
+      try {
+        const parsed = walletInterface.parseError(data);
+        if (parsed !== null) {
+          return parsed.name === "Error"
+            ? fromReason(parsed.args[0], error)
+            : fromCustomError(parsed.name, [...parsed.args], error);
+        }
+      } catch {
+        // Not decodable with this ABI, keep looking
+      }
+    }
+
+    // Already decoded by ethers
+    const revert = field(item, "revert");
+    const revertName = field(revert, "name");
+    if (isNonEmptyString(revertName) && revertName !== "Error") {
+      const revertArgs = field(revert, "args");
+      return fromCustomError(revertName, Array.isArray(revertArgs) ? [...revertArgs] : [], error);
+    }
+    const reason = field(item, "reason");
+    if (isNonEmptyString(reason)) {
+      return fromReason(reason, error);
+    }
+
+    // Hardhat network messages
+    const message = field(item, "message");
+    if (typeof message === "string") {
+      const reasonMatch = message.match(/reverted with reason string '(.*)'/);
+      if (reasonMatch !== null) {
+        return fromReason(reasonMatch[1], error);
+      }
+      const customError = message.match(/reverted with custom error '(\w+)\(/);
+      if (customError !== null) {
+        return fromCustomError(customError[1], [], error);
+      }
+    }
+  }
+
+  return error;
+}
@@ -0,0 +1,16 @@
+// TypeScript client for MultisigWallet, built on the TypeChain types generated by `npx hardhat compile`
+export { MultisigWalletClient } from "./MultisigWalletClient";
+export type { HeldBalance, InvestmentStatus, WithdrawalRequestStatus } from "./MultisigWalletClient";
+export { MultisigWalletFactoryClient } from "./MultisigWalletFactoryClient";
+export type { GroupConfig, GroupSummary } from "./MultisigWalletFactoryClient";
+export { calculateContributionStatus, CONTRIBUTION_PERIOD } from "./contributions";
+export type { ContributionSchedule, ContributionStatus } from "./contributions";
+export { decodeMultisigWalletError, MultisigWalletError, REVERT_REASONS } from "./errors";
+export type { CustomErrorName, MultisigWalletErrorCode } from "./errors";
+export { createEventStore, indexEvents, loadEventStore, saveEventStore } from "./indexer";
+export type { EventStore, IndexedEvent, IndexOptions, StoredParameters, StoredValue } from "./indexer";
+export { getWalletDomain, signPermit, signWithdrawalApproval, WITHDRAWAL_APPROVAL_TYPES } from "./signatures";
+export type { PermitSignature, SignedWithdrawalApproval } from "./signatures";
+export { buildStatements, statementsToCsv, statementsToJson } from "./statements";
+export type { MonthlyStatement, StatementOptions } from "./statements";
+export { priceOracleChangeValue, swapRouteChangeValue, tokenHoldingChangeValue } from "./timelock";
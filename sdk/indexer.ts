@@ -0,0 +1,135 @@
+import fs from "fs";
+import path from "path";
+import { Provider } from "ethers";
+import { MultisigWallet } from "../typechain-types";
+
+// Wallet events replayed into a local JSON store, from which statements are built (see statements.ts)
+
+// One decoded event; uint values are kept as decimal strings so that the store is plain JSON
+export interface IndexedEvent {
+  name: string;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+  args: Record<string, StoredValue>;
+}
+
+export type StoredValue = string | boolean | StoredValue[];
+
+// Contribution parameters in force before the first indexed event; later changes are replayed from events
+export interface StoredParameters {
+  blockNumber: number;
+  fixedMonthlyContribution: string;
+  gracePeriod: string;
+  latePenaltyRate: string;
+}
+
+export interface EventStore {
+  wallet: string;
+  chainId: string;
+  lastBlock: number; // Last block replayed; the next run resumes after it (-1 before the first run)
+  lastTimestamp: number; // Timestamp of lastBlock
+  parameters: StoredParameters | null;
+  events: IndexedEvent[];
+}
+
+export interface IndexOptions {
+  fromBlock?: number; // First block of the first run (default 0); later runs resume after lastBlock
+  toBlock?: number; // Default: the latest block
+  batchSize?: number; // Blocks per eth_getLogs request (default 2000)
+}
+
+export function createEventStore(wallet: string, chainId: bigint): EventStore {
+  return { wallet, chainId: chainId.toString(), lastBlock: -1, lastTimestamp: 0, parameters: null, events: [] };
+}
+
+export function loadEventStore(file: string): EventStore | undefined {
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : undefined;
+}
+
+export function saveEventStore(file: string, store: EventStore) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(store, null, 2));
+}
+
+// Replays the wallet's events from the next unindexed block up to `toBlock` into `store` and returns the number added
+export async function indexEvents(wallet: MultisigWallet, store: EventStore, options: IndexOptions = {}): Promise<number> {
+  const provider = wallet.runner!.provider!;
+  const address = await wallet.getAddress();
+  if (address.toLowerCase() !== store.wallet.toLowerCase()) {
+    throw new Error(`Event store belongs to wallet ${store.wallet}, not ${address}`);
+  }
+
+  const fromBlock = store.lastBlock >= 0 ? store.lastBlock + 1 : options.fromBlock ?? 0;
+  const toBlock = options.toBlock ?? (await provider.getBlockNumber());
+  const batchSize = options.batchSize ?? 2000;
+  const timestamps = new Map<number, number>();
+  let added = 0;
+
+  for (let start = fromBlock; start <= toBlock; start += batchSize) {
+    const end = Math.min(start + batchSize - 1, toBlock);
+    const logs = await provider.getLogs({ address, fromBlock: start, toBlock: end });
+
+    for (const log of logs) {
+      const parsed = wallet.interface.parseLog(log);
+      if (parsed === null) {
+        continue;
+      }
+
+      if (store.parameters === null) {
+        store.parameters = await readParameters(wallet, provider, log.blockNumber);
+      }
+
+      if (!timestamps.has(log.blockNumber)) {
+        timestamps.set(log.blockNumber, (await provider.getBlock(log.blockNumber))!.timestamp);
+      }
+
+      const args: Record<string, StoredValue> = {};
+      parsed.fragment.inputs.forEach((input, i) => {
+        args[input.name] = toStoredValue(parsed.args[i]);
+      });
+
+      store.events.push({
+        name: parsed.name,
+        blockNumber: log.blockNumber,
+        logIndex: log.index,
+        transactionHash: log.transactionHash,
+        timestamp: timestamps.get(log.blockNumber)!,
+        args,
+      });
+      added++;
+    }
+
+    store.lastBlock = end;
+  }
+
+  if (toBlock >= fromBlock) {
+    store.lastTimestamp = (await provider.getBlock(toBlock))!.timestamp;
+  }
+  return added;
+}
+
+// Reads the contribution parameters as they were before `blockNumber`, or right after deployment if the
+// wallet was deployed in that block
+async function readParameters(wallet: MultisigWallet, provider: Provider, blockNumber: number): Promise<StoredParameters> {
+  const deployedBefore = blockNumber > 0 && (await provider.getCode(await wallet.getAddress(), blockNumber - 1)) !== "0x";
+  const blockTag = deployedBefore ? blockNumber - 1 : blockNumber;
+
+  return {
+    blockNumber: blockTag,
+    fixedMonthlyContribution: (await wallet.fixedMonthlyContribution({ blockTag })).toString(),
+    gracePeriod: (await wallet.gracePeriod({ blockTag })).toString(),
+    latePenaltyRate: (await wallet.latePenaltyRate({ blockTag })).toString(),
+  };
+}
+
+function toStoredValue(value: unknown): StoredValue {
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toStoredValue);
+  }
+  return value as string | boolean;
+}
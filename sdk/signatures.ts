@@ -0,0 +1,86 @@
+import { Signature, Signer, TypedDataDomain } from "ethers";
+import { ERC20Permit__factory, MultisigWallet } from "../typechain-types";
+
+// EIP-712 signatures for MultisigWallet: off-chain withdrawal approvals for approveWithdrawalsBySig,
+// and EIP-2612 permits for depositWithPermit
+
+// Matches WITHDRAWAL_APPROVAL_TYPEHASH in WithdrawalLibrary
+export const WITHDRAWAL_APPROVAL_TYPES = {
+  WithdrawalApproval: [
+    { name: "requestId", type: "uint256" },
+    { name: "participant", type: "address" },
+    { name: "amount", type: "uint256" },
+  ],
+};
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+// An approval signed off-chain; anyone can submit a batch of them with approveWithdrawalsBySig
+export interface SignedWithdrawalApproval {
+  requestId: bigint;
+  approver: string;
+  signature: string;
+}
+
+// Arguments depositWithPermit takes after the token and amount
+export interface PermitSignature {
+  deadline: bigint;
+  v: number;
+  r: string;
+  s: string;
+}
+
+// The wallet's EIP-712 domain (domainSeparator() on-chain)
+export async function getWalletDomain(wallet: MultisigWallet): Promise<TypedDataDomain> {
+  const { chainId } = await wallet.runner!.provider!.getNetwork();
+  return { name: "MultisigWallet", version: "1", chainId, verifyingContract: await wallet.getAddress() };
+}
+
+// Signs `signer`'s approval of a withdrawal request; the signature covers the requester and amount read from the chain
+export async function signWithdrawalApproval(wallet: MultisigWallet, signer: Signer, requestId: bigint): Promise<SignedWithdrawalApproval> {
+  const request = await wallet.withdrawalRequests(requestId);
+  if (request.requestId === 0n) {
+    throw new Error(`Withdrawal request ${requestId} does not exist`);
+  }
+
+  const signature = await signer.signTypedData(await getWalletDomain(wallet), WITHDRAWAL_APPROVAL_TYPES, {
+    requestId,
+    participant: request.participant,
+    amount: request.amount,
+  });
+  return { requestId, approver: await signer.getAddress(), signature };
+}
+
+// Signs an EIP-2612 permit letting `spender` pull `amount` of `token` from the signer until `deadline`.
+// The token's domain is read through ERC-5267 (eip712Domain), falling back to its name and version "1".
+export async function signPermit(signer: Signer, token: string, spender: string, amount: bigint, deadline: bigint): Promise<PermitSignature> {
+  const permitToken = ERC20Permit__factory.connect(token, signer);
+  const owner = await signer.getAddress();
+
+  let domain: TypedDataDomain;
+  try {
+    const { name, version, chainId, verifyingContract } = await permitToken.eip712Domain();
+    domain = { name, version, chainId, verifyingContract };
+  } catch {
+    const { chainId } = await signer.provider!.getNetwork();
+    domain = { name: await permitToken.name(), version: "1", chainId, verifyingContract: token };
+  }
+
+  const signature = await signer.signTypedData(domain, PERMIT_TYPES, {
+    owner,
+    spender,
+    value: amount,
+    nonce: await permitToken.nonces(owner),
+    deadline,
+  });
+  const { v, r, s } = Signature.from(signature);
+  return { deadline, v, r, s };
+}
@@ -0,0 +1,193 @@
+import { calculateContributionStatus, calculateCycleContribution, ContributionSchedule } from "./contributions";
+import { EventStore, IndexedEvent } from "./indexer";
+
+// Per-participant monthly statements built from an event store. Months are calendar months in UTC and
+// amounts are in the primary token's smallest unit.
+
+// TransactionType in the contract, by index
+const TRANSACTION_TYPES = ["Deposit", "Swap", "Investment", "Withdrawal", "EmergencyWithdrawal", "Interest", "FeeShare", "Settlement"] as const;
+
+export interface MonthlyStatement {
+  participant: string;
+  month: string; // YYYY-MM
+  openingBalance: bigint;
+  contributions: bigint; // Deposits and swap top-ups credited to the balance
+  arrearsSettled: bigint; // Part of the contributions that made up missed cycles
+  feesPaid: bigint; // Withdrawal fees and late penalties
+  interest: bigint;
+  feeShares: bigint; // Share of collected fees credited by distributeFees
+  withdrawals: bigint; // Withdrawals and settlements, before fees
+  closingBalance: bigint;
+  arrearsOutstanding: bigint; // Missed cycles owed at the end of the month (or at `asOf` for the last month)
+}
+
+export interface StatementOptions {
+  participant?: string; // Only this participant's statements
+  asOf?: number; // Closing time of the last month (default: the store's last indexed block)
+}
+
+interface ParticipantState {
+  statement: MonthlyStatement;
+  schedule: ContributionSchedule;
+}
+
+const STATEMENT_FIELDS: (keyof MonthlyStatement)[] = [
+  "participant", "month", "openingBalance", "contributions", "arrearsSettled", "feesPaid",
+  "interest", "feeShares", "withdrawals", "closingBalance", "arrearsOutstanding",
+];
+
+export function buildStatements(store: EventStore, options: StatementOptions = {}): MonthlyStatement[] {
+  const asOf = options.asOf ?? store.lastTimestamp;
+  const events = store.events
+    .filter((event) => event.timestamp <= asOf)
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+  const parameters = {
+    fixedMonthlyContribution: BigInt(store.parameters?.fixedMonthlyContribution ?? 0),
+    gracePeriod: BigInt(store.parameters?.gracePeriod ?? 0),
+    latePenaltyRate: BigInt(store.parameters?.latePenaltyRate ?? 0),
+  };
+  const members = new Map<string, ParticipantState>();
+  const statements: MonthlyStatement[] = [];
+
+  // Contribution status with the parameters currently in force
+  const status = (state: ParticipantState, timestamp: number) =>
+    calculateContributionStatus({ ...state.schedule, ...parameters }, BigInt(timestamp));
+
+  const close = (state: ParticipantState, timestamp: number) => {
+    state.statement.arrearsOutstanding = status(state, timestamp).arrears;
+    statements.push(state.statement);
+  };
+
+  // Closes every open statement of an earlier month than `timestamp` and opens the following months
+  const rollOver = (timestamp: number) => {
+    for (const state of members.values()) {
+      while (state.statement.month < monthOf(timestamp)) {
+        const next = nextMonthStart(state.statement.month);
+        close(state, next - 1);
+        state.statement = openStatement(state.statement.participant, monthOf(next), state.statement.closingBalance);
+      }
+    }
+  };
+
+  for (const event of events) {
+    rollOver(event.timestamp);
+    const participant = typeof event.args.participant === "string" ? event.args.participant : undefined;
+    const state = participant !== undefined ? members.get(participant) : undefined;
+    const member = () => {
+      if (state === undefined) {
+        throw new Error(`${event.name} for unknown participant ${participant}; index from the wallet's deployment block`);
+      }
+      return state;
+    };
+
+    switch (event.name) {
+      case "ParticipantAdded":
+        members.set(participant!, {
+          statement: openStatement(participant!, monthOf(event.timestamp), 0n),
+          schedule: { ...parameters, lastContributionTimestamp: BigInt(event.timestamp), lastCycleContribution: 0n },
+        });
+        break;
+      case "ParticipantRemoved":
+        close(member(), event.timestamp);
+        members.delete(participant!);
+        break;
+      case "ContributionMade": {
+        // Same bookkeeping as LedgerLibrary.creditContribution, with the status just before the deposit: the recorded
+        // per-cycle contribution is capped at what the cycle required, min(perCycle, required)
+        const contributor = member();
+        const { missedCycles, arrears } = status(contributor, event.timestamp);
+        contributor.statement.arrearsSettled += arrears;
+        const perCycle = BigInt(event.args.amount as string) / (missedCycles + 1n);
+        const required = calculateCycleContribution({ ...contributor.schedule, ...parameters });
+        contributor.schedule.lastCycleContribution = perCycle < required ? perCycle : required;
+        contributor.schedule.lastContributionTimestamp = BigInt(event.timestamp);
+        break;
+      }
+      case "TransactionLogged":
+        applyTransaction(member().statement, event);
+        break;
+      case "MonthlyContributionUpdated":
+        parameters.fixedMonthlyContribution = BigInt(event.args.newContribution as string);
+        break;
+      case "GracePeriodUpdated":
+        parameters.gracePeriod = BigInt(event.args.newGracePeriod as string);
+        break;
+      case "LatePenaltyRateUpdated":
+        parameters.latePenaltyRate = BigInt(event.args.newLatePenaltyRate as string);
+        break;
+    }
+  }
+
+  rollOver(asOf);
+  for (const state of members.values()) {
+    close(state, asOf);
+  }
+
+  return statements
+    .filter((statement) => options.participant === undefined || statement.participant.toLowerCase() === options.participant.toLowerCase())
+    .sort((a, b) => a.participant.localeCompare(b.participant) || a.month.localeCompare(b.month));
+}
+
+function applyTransaction(statement: MonthlyStatement, event: IndexedEvent) {
+  const amount = BigInt(event.args.amount as string);
+  statement.feesPaid += BigInt(event.args.fee as string);
+
+  switch (TRANSACTION_TYPES[Number(event.args.transactionType)]) {
+    case "Deposit":
+    case "Swap":
+      statement.contributions += amount;
+      statement.closingBalance += amount;
+      break;
+    case "Withdrawal":
+    case "EmergencyWithdrawal":
+    case "Settlement":
+      statement.withdrawals += amount;
+      statement.closingBalance -= amount;
+      break;
+    case "Interest":
+      statement.interest += amount;
+      statement.closingBalance += amount;
+      break;
+    case "FeeShare":
+      statement.feeShares += amount;
+      statement.closingBalance += amount;
+      break;
+    // Investments move part of the balance into the pool without changing it
+  }
+}
+
+function openStatement(participant: string, month: string, openingBalance: bigint): MonthlyStatement {
+  return {
+    participant,
+    month,
+    openingBalance,
+    contributions: 0n,
+    arrearsSettled: 0n,
+    feesPaid: 0n,
+    interest: 0n,
+    feeShares: 0n,
+    withdrawals: 0n,
+    closingBalance: openingBalance,
+    arrearsOutstanding: 0n,
+  };
+}
+
+function monthOf(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().slice(0, 7);
+}
+
+// Timestamp at which the month after `month` starts
+function nextMonthStart(month: string): number {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return Date.UTC(year, monthIndex, 1) / 1000;
+}
+
+export function statementsToCsv(statements: MonthlyStatement[]): string {
+  const rows = statements.map((statement) => STATEMENT_FIELDS.map((field) => statement[field].toString()).join(","));
+  return [STATEMENT_FIELDS.join(","), ...rows].join("\n") + "\n";
+}
+
+export function statementsToJson(statements: MonthlyStatement[]): string {
+  return JSON.stringify(statements, (_, value) => (typeof value === "bigint" ? value.toString() : value), 2);
+}
@@ -0,0 +1,19 @@
+import { AbiCoder, keccak256 } from "ethers";
+
+// Values to pass to queueParameterChange for the timelocked setters that do not take a single number. The setters
+// that do (fees, rates, contribution, grace period, oracle deviation) are queued with their new value as-is.
+
+// setPriceOracle is queued under the oracle's address
+export function priceOracleChangeValue(priceOracle: string): bigint {
+  return BigInt(priceOracle);
+}
+
+// setSwapRoute is queued under the hash of its ABI-encoded arguments
+export function swapRouteChangeValue(token: string, path: string[]): bigint {
+  return BigInt(keccak256(AbiCoder.defaultAbiCoder().encode(["address", "address[]"], [token, path])));
+}
+
+// setTokenHolding is queued under the hash of its ABI-encoded arguments
+export function tokenHoldingChangeValue(token: string, hold: boolean): bigint {
+  return BigInt(keccak256(AbiCoder.defaultAbiCoder().encode(["address", "bool"], [token, hold])));
+}
@@ -0,0 +1,65 @@
+// Hardhat tasks for indexing wallet events and producing savings statements, e.g.
+//   npx hardhat index-events --from-block 1234567 --network lisk-sepolia
+//   npx hardhat statements --format csv --out statements.csv --network lisk-sepolia
+// The event store defaults to indexer/chain-<chainId>.json; later runs of index-events resume where the last one stopped.
+
+import fs from "fs";
+import path from "path";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { resolveWalletAddress } from "./wallet";
+
+async function defaultStorePath(hre: HardhatRuntimeEnvironment): Promise<string> {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  return path.join(hre.config.paths.root, "indexer", `chain-${chainId}.json`);
+}
+
+task("index-events", "Replays the wallet's events into the local event store")
+  .addOptionalParam("wallet", "MultisigWallet address (defaults to the Ignition deployment)")
+  .addOptionalParam("store", "Event store file (defaults to indexer/chain-<chainId>.json)")
+  .addOptionalParam("fromBlock", "First block to index on the first run; start at the wallet's deployment block", 0, types.int)
+  .addOptionalParam("toBlock", "Last block to index (defaults to the latest block)", undefined, types.int)
+  .addOptionalParam("batchSize", "Blocks per log request", 2000, types.int)
+  .setAction(async (args: { wallet?: string; store?: string; fromBlock: number; toBlock?: number; batchSize: number }, hre) => {
+    const { createEventStore, indexEvents, loadEventStore, saveEventStore } = await import("../sdk");
+    const file = args.store ?? (await defaultStorePath(hre));
+    const address = await resolveWalletAddress(hre, args.wallet);
+    const wallet = await hre.ethers.getContractAt("MultisigWallet", address);
+
+    const store = loadEventStore(file) ?? createEventStore(address, (await hre.ethers.provider.getNetwork()).chainId);
+    const added = await indexEvents(wallet, store, { fromBlock: args.fromBlock, toBlock: args.toBlock, batchSize: args.batchSize });
+    saveEventStore(file, store);
+
+    console.log(`Indexed ${added} events up to block ${store.lastBlock} (${store.events.length} in ${file})`);
+    return store;
+  });
+
+task("statements", "Prints or writes per-participant monthly statements from the event store")
+  .addOptionalParam("store", "Event store file (defaults to indexer/chain-<chainId>.json)")
+  .addOptionalParam("participant", "Only this participant's statements")
+  .addOptionalParam("asOf", "Closing time of the last month as a Unix timestamp (defaults to the last indexed block)", undefined, types.int)
+  .addOptionalParam("format", "csv or json", "csv")
+  .addOptionalParam("out", "File to write instead of printing")
+  .setAction(async (args: { store?: string; participant?: string; asOf?: number; format: string; out?: string }, hre) => {
+    const { buildStatements, loadEventStore, statementsToCsv, statementsToJson } = await import("../sdk");
+    if (args.format !== "csv" && args.format !== "json") {
+      throw new Error(`Unknown format ${args.format}; use csv or json`);
+    }
+
+    const file = args.store ?? (await defaultStorePath(hre));
+    const store = loadEventStore(file);
+    if (store === undefined) {
+      throw new Error(`No event store at ${file}; run index-events first`);
+    }
+
+    const statements = buildStatements(store, { participant: args.participant, asOf: args.asOf });
+    const output = args.format === "csv" ? statementsToCsv(statements) : statementsToJson(statements);
+
+    if (args.out !== undefined) {
+      fs.writeFileSync(args.out, output);
+      console.log(`Wrote ${statements.length} statements to ${args.out}`);
+    } else {
+      console.log(output);
+    }
+    return statements;
+  });
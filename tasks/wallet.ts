@@ -0,0 +1,278 @@
+// Hardhat tasks for operating a deployed MultisigWallet, e.g.
+//   npx hardhat status --network lisk-sepolia
+//   npx hardhat deposit --token 0x... --amount 100 --dry-run --network lisk-sepolia
+// The wallet address is read from Ignition's deployed_addresses.json for the current chain unless --wallet is given.
+
+import fs from "fs";
+import path from "path";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+interface WalletTaskArgs {
+  wallet?: string;
+  from?: string;
+  dryRun: boolean;
+}
+
+// Finds the MultisigWallet deployed by Ignition on the current chain
+export async function resolveWalletAddress(hre: HardhatRuntimeEnvironment, wallet?: string): Promise<string> {
+  if (wallet !== undefined) {
+    return wallet;
+  }
+
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const file = path.join(hre.config.paths.root, "ignition", "deployments", `chain-${chainId}`, "deployed_addresses.json");
+  if (!fs.existsSync(file)) {
+    throw new Error(`No Ignition deployment found for chain ${chainId} (${file}); pass --wallet instead`);
+  }
+
+  const addresses: Record<string, string> = JSON.parse(fs.readFileSync(file, "utf8"));
+  // Deployments are appended, so the last match is the most recent wallet (e.g. a redeploy through another module)
+  const key = Object.keys(addresses).filter((name) => name.endsWith("#MultisigWallet")).pop();
+  if (key === undefined) {
+    throw new Error(`${file} has no MultisigWallet deployment; pass --wallet instead`);
+  }
+  return addresses[key];
+}
+
+async function connectWallet(hre: HardhatRuntimeEnvironment, args: WalletTaskArgs) {
+  const signer = args.from !== undefined ? await hre.ethers.getSigner(args.from) : (await hre.ethers.getSigners())[0];
+  const wallet = await hre.ethers.getContractAt("MultisigWallet", await resolveWalletAddress(hre, args.wallet), signer);
+  const primaryToken = await hre.ethers.getContractAt("IERC20Metadata", await wallet.primaryToken());
+  const decimals = await primaryToken.decimals();
+  const symbol = await primaryToken.symbol();
+
+  return { wallet, signer, decimals, format: (amount: bigint) => `${hre.ethers.formatUnits(amount, decimals)} ${symbol}` };
+}
+
+// Runs `call` as a static call and reports whether the transaction would go through
+async function simulate(label: string, call: () => Promise<unknown>): Promise<boolean> {
+  const { decodeMultisigWalletError, MultisigWalletError } = await import("../sdk");
+  try {
+    await call();
+    console.log(`${label}: simulation succeeded`);
+    return true;
+  } catch (error) {
+    const decoded = decodeMultisigWalletError(error);
+    console.log(`${label}: would revert with "${decoded instanceof MultisigWalletError ? decoded.reason : String(error)}"`);
+    return false;
+  }
+}
+
+// Sends a transaction and waits for it, printing the hash
+async function send(label: string, transaction: () => Promise<{ hash: string; wait: () => Promise<unknown> }>) {
+  const { decodeMultisigWalletError } = await import("../sdk");
+  try {
+    const response = await transaction();
+    console.log(`${label}: sent ${response.hash}`);
+    await response.wait();
+  } catch (error) {
+    throw decodeMultisigWalletError(error);
+  }
+}
+
+function walletTask(name: string, description: string) {
+  return task(name, description)
+    .addOptionalParam("wallet", "MultisigWallet address (defaults to the Ignition deployment)")
+    .addOptionalParam("from", "Address of the account to send from (defaults to the first account)")
+    .addFlag("dryRun", "Simulate the call and print the expected changes without sending it");
+}
+
+walletTask("add-participant", "Adds a participant to the wallet (owner only)")
+  .addParam("participant", "Address of the participant to add")
+  .setAction(async (args: WalletTaskArgs & { participant: string }, hre) => {
+    const { wallet } = await connectWallet(hre, args);
+    const before = await wallet.totalParticipants();
+
+    if (args.dryRun) {
+      const ok = await simulate("add-participant", () => wallet.addParticipant.staticCall(args.participant));
+      console.log(`Participants: ${before} -> ${ok ? before + 1n : before}`);
+      console.log(`Quorum: ${await wallet.quorum()} -> ${ok ? (before + 1n) / 2n + 1n : await wallet.quorum()}`);
+      return { ok, totalParticipants: ok ? before + 1n : before };
+    }
+
+    await send("add-participant", () => wallet.addParticipant(args.participant));
+    console.log(`Participants: ${before} -> ${await wallet.totalParticipants()}`);
+    return { ok: true, totalParticipants: await wallet.totalParticipants() };
+  });
+
+walletTask("deposit", "Approves and deposits a contribution in the primary token or a supported token")
+  .addParam("token", "Address of the token to deposit")
+  .addParam("amount", "Amount in whole token units (e.g. 100.5)")
+  .setAction(async (args: WalletTaskArgs & { token: string; amount: string }, hre) => {
+    const { wallet, signer, format } = await connectWallet(hre, args);
+    const token = await hre.ethers.getContractAt("IERC20Metadata", args.token);
+    const amount = hre.ethers.parseUnits(args.amount, await token.decimals());
+    const account = await signer.getAddress();
+    const balanceBefore = await wallet.checkBalance();
+
+    if (args.dryRun) {
+      const status = await wallet.getContributionStatus();
+      const isPrimary = args.token.toLowerCase() === (await wallet.primaryToken()).toLowerCase();
+
+      // Value of the deposit in the primary token: as is, or the router's quote along the token's swap route
+      let received = amount;
+      if (!isPrimary) {
+        const router = await hre.ethers.getContractAt("IUniswapV2Router02", await wallet.uniswapRouter());
+        const amounts = await router.getAmountsOut(amount, [...(await wallet.getSwapRoute(args.token))]);
+        received = amounts[amounts.length - 1];
+      }
+
+      console.log(`Missed cycles: ${status.missedCycles}, required contribution: ${format(status.requiredContribution)}`);
+      console.log(`Late penalty to the fee reserve: ${format(status.penalty)}`);
+
+      // The simulation needs an allowance; without one only the expected amounts are printed
+      let ok = received >= status.requiredContribution;
+      if ((await token.allowance(account, await wallet.getAddress())) >= amount) {
+        ok = await simulate("deposit", () => wallet.depositToken.staticCall(args.token, amount));
+      } else {
+        console.log(`deposit: needs an approval of ${args.amount} first${ok ? "" : " and would revert (below the required contribution)"}`);
+      }
+
+      const credited = ok ? received - status.penalty : 0n;
+      console.log(`Balance: ${format(balanceBefore)} -> ${format(balanceBefore + credited)}`);
+      return { ok, credited, penalty: status.penalty };
+    }
+
+    const { MultisigWalletClient } = await import("../sdk");
+    await new MultisigWalletClient(wallet, signer).deposit(args.token, amount);
+    const balanceAfter = await wallet.checkBalance();
+    console.log(`Balance: ${format(balanceBefore)} -> ${format(balanceAfter)}`);
+    return { ok: true, credited: balanceAfter - balanceBefore };
+  });
+
+walletTask("approve-withdrawal", "Approves another participant's withdrawal request")
+  .addParam("request", "ID of the withdrawal request", undefined, types.int)
+  .setAction(async (args: WalletTaskArgs & { request: number }, hre) => {
+    const { wallet, format } = await connectWallet(hre, args);
+    const request = await wallet.withdrawalRequests(args.request);
+    const needed = (await wallet.totalParticipants()) - 1n;
+
+    console.log(`Request ${args.request}: ${format(request.amount)} for ${request.participant}`);
+
+    if (args.dryRun) {
+      const ok = await simulate("approve-withdrawal", () => wallet.approveWithdrawal.staticCall(args.request));
+      const approvals = ok ? request.approvedCount + 1n : request.approvedCount;
+      console.log(`Approvals: ${request.approvedCount} -> ${approvals} of ${needed} needed`);
+      return { ok, approvedCount: approvals };
+    }
+
+    await send("approve-withdrawal", () => wallet.approveWithdrawal(args.request));
+    const approvals = (await wallet.withdrawalRequests(args.request)).approvedCount;
+    console.log(`Approvals: ${request.approvedCount} -> ${approvals} of ${needed} needed`);
+    return { ok: true, approvedCount: approvals };
+  });
+
+walletTask("withdraw", "Withdraws up to the amount of the sender's approved request")
+  .addParam("amount", "Amount in whole primary token units (e.g. 100.5)")
+  .setAction(async (args: WalletTaskArgs & { amount: string }, hre) => {
+    const { wallet, decimals, format } = await connectWallet(hre, args);
+    const amount = hre.ethers.parseUnits(args.amount, decimals);
+    const balanceBefore = await wallet.checkBalance();
+    const fee = (amount * (await wallet.withdrawalFee())) / 100n;
+
+    if (args.dryRun) {
+      const ok = await simulate("withdraw", () => wallet.withdraw.staticCall(amount));
+      console.log(`Balance: ${format(balanceBefore)} -> ${format(ok ? balanceBefore - amount : balanceBefore)}`);
+      console.log(`Fee: ${format(ok ? fee : 0n)}, received: ${format(ok ? amount - fee : 0n)}`);
+      return { ok, fee: ok ? fee : 0n, received: ok ? amount - fee : 0n };
+    }
+
+    await send("withdraw", () => wallet.withdraw(amount));
+    console.log(`Balance: ${format(balanceBefore)} -> ${format(await wallet.checkBalance())}`);
+    console.log(`Fee: ${format(fee)}, received: ${format(amount - fee)}`);
+    return { ok: true, fee, received: amount - fee };
+  });
+
+walletTask("status", "Prints the wallet parameters and the sender's own position")
+  .setAction(async (args: WalletTaskArgs, hre) => {
+    const { wallet, signer, format } = await connectWallet(hre, args);
+    const account = await signer.getAddress();
+
+    console.log(`Wallet ${await wallet.getAddress()} (${(await wallet.active()) ? "active" : "paused"})`);
+    console.log(`Participants: ${await wallet.totalParticipants()}, quorum: ${await wallet.quorum()}`);
+    console.log(`Total savings: ${format(await wallet.totalSavings())}, invested: ${format(await wallet.investmentBalance())}`);
+    console.log(`Monthly contribution: ${format(await wallet.fixedMonthlyContribution())}, grace period: ${await wallet.gracePeriod()}s, late penalty: ${await wallet.latePenaltyRate()}%`);
+    console.log(`Withdrawal fee: ${await wallet.withdrawalFee()}%, emergency fee: ${await wallet.emergencyWithdrawalFee()}%, interest cap: ${await wallet.monthlyInterestRate()}/1000 per month`);
+    console.log(`Fee reserve: ${format(await wallet.feeReserve())}`);
+
+    // Balances are only readable by their owner, so this reports on the sender (see --from)
+    if (!(await wallet.isParticipant(account))) {
+      console.log(`${account} is not a participant`);
+      return;
+    }
+
+    const participant = await wallet.getParticipant();
+    const status = await wallet.getContributionStatus();
+    console.log(`${account}: balance ${format(participant.balance)}, invested ${format(participant.investedAmount)}, interest ${format(participant.interestEarned)}`);
+    console.log(`Missed cycles: ${status.missedCycles}, arrears: ${format(status.arrears)}, next deposit: ${format(status.requiredContribution)} by ${new Date(Number(status.nextDueTimestamp) * 1000).toISOString()}`);
+    console.log(`Next regular withdrawal: ${new Date(Number(await wallet.nextWithdrawalDate()) * 1000).toISOString()}`);
+  });
+
+walletTask("update-params", "Queues or applies timelocked changes to the interest rate, withdrawal fees, monthly contribution, late payment terms or oracle deviation")
+  .addOptionalParam("interestRate", "New cap on monthly interest, per thousand of the invested funds", undefined, types.int)
+  .addOptionalParam("withdrawalFee", "New withdrawal fee, in percent", undefined, types.int)
+  .addOptionalParam("emergencyWithdrawalFee", "New emergency withdrawal fee, in percent", undefined, types.int)
+  .addOptionalParam("monthlyContribution", "New monthly contribution in whole primary token units")
+  .addOptionalParam("gracePeriod", "New grace period after each cycle, in seconds", undefined, types.int)
+  .addOptionalParam("latePenaltyRate", "New penalty on late deposits, in percent of the arrears", undefined, types.int)
+  .addOptionalParam("maxOracleDeviation", "New tolerance between swap quotes and the price oracle, in basis points", undefined, types.int)
+  .addFlag("queue", "Queue the changes instead of applying changes that were queued earlier")
+  .setAction(async (args: WalletTaskArgs & { interestRate?: number; withdrawalFee?: number; emergencyWithdrawalFee?: number; monthlyContribution?: string; gracePeriod?: number; latePenaltyRate?: number; maxOracleDeviation?: number; queue: boolean }, hre) => {
+    const { wallet, decimals, format } = await connectWallet(hre, args);
+
+    type Setter = "updateInterestRate" | "updateWithdrawalFee" | "updateEmergencyWithdrawalFee" | "updateMonthlyContribution" | "updateGracePeriod" | "updateLatePenaltyRate" | "setMaxOracleDeviation";
+    const changes: { name: Setter; current: string; value: bigint; shown: string }[] = [];
+    if (args.interestRate !== undefined) {
+      changes.push({ name: "updateInterestRate", current: `${await wallet.monthlyInterestRate()}/1000`, value: BigInt(args.interestRate), shown: `${args.interestRate}/1000` });
+    }
+    if (args.withdrawalFee !== undefined) {
+      changes.push({ name: "updateWithdrawalFee", current: `${await wallet.withdrawalFee()}%`, value: BigInt(args.withdrawalFee), shown: `${args.withdrawalFee}%` });
+    }
+    if (args.emergencyWithdrawalFee !== undefined) {
+      changes.push({ name: "updateEmergencyWithdrawalFee", current: `${await wallet.emergencyWithdrawalFee()}%`, value: BigInt(args.emergencyWithdrawalFee), shown: `${args.emergencyWithdrawalFee}%` });
+    }
+    if (args.monthlyContribution !== undefined) {
+      const value = hre.ethers.parseUnits(args.monthlyContribution, decimals);
+      changes.push({ name: "updateMonthlyContribution", current: format(await wallet.fixedMonthlyContribution()), value, shown: format(value) });
+    }
+    if (args.gracePeriod !== undefined) {
+      changes.push({ name: "updateGracePeriod", current: `${await wallet.gracePeriod()}s`, value: BigInt(args.gracePeriod), shown: `${args.gracePeriod}s` });
+    }
+    if (args.latePenaltyRate !== undefined) {
+      changes.push({ name: "updateLatePenaltyRate", current: `${await wallet.latePenaltyRate()}%`, value: BigInt(args.latePenaltyRate), shown: `${args.latePenaltyRate}%` });
+    }
+    if (args.maxOracleDeviation !== undefined) {
+      changes.push({ name: "setMaxOracleDeviation", current: `${await wallet.maxOracleDeviation()}bp`, value: BigInt(args.maxOracleDeviation), shown: `${args.maxOracleDeviation}bp` });
+    }
+    if (changes.length === 0) {
+      throw new Error("Nothing to update: pass --interest-rate, --withdrawal-fee, --emergency-withdrawal-fee, --monthly-contribution, --grace-period, --late-penalty-rate or --max-oracle-deviation");
+    }
+
+    const results = [];
+    for (const change of changes) {
+      const selector = wallet.interface.getFunction(change.name).selector;
+      const label = `${change.name} ${change.current} -> ${change.shown}`;
+
+      if (args.queue) {
+        if (args.dryRun) {
+          results.push(await simulate(`queue ${label}`, () => wallet.queueParameterChange.staticCall(selector, change.value)));
+        } else {
+          await send(`queue ${label}`, () => wallet.queueParameterChange(selector, change.value));
+          results.push(true);
+        }
+        continue;
+      }
+
+      const executableAt = await wallet.queuedChanges(await wallet.getChangeId(selector, change.value));
+      console.log(executableAt === 0n ? `${change.name}: not queued` : `${change.name}: executable from ${new Date(Number(executableAt) * 1000).toISOString()}`);
+
+      if (args.dryRun) {
+        results.push(await simulate(label, () => wallet[change.name].staticCall(change.value)));
+      } else {
+        await send(label, () => wallet[change.name](change.value));
+        results.push(true);
+      }
+    }
+    return results;
+  });
@@ -1,45 +1,13 @@
-import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
 import { expect } from "chai";
 import hre, { ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { MockERC20, MultisigWallet } from "../typechain-types";
+import { priceOracleChangeValue, signPermit, swapRouteChangeValue, tokenHoldingChangeValue } from "../sdk";
+import { advanceDays, completeGroup, deployMultisigWalletFixture, deployWithParticipantsFixture, investByVote, queueChange } from "./fixtures";
 
 describe("MultisigWallet", function () {
-  // Fixture to deploy the contract and set up necessary variables
-  async function deployMultisigWalletFixture() {
-    const [admin, otherAccount] = await hre.ethers.getSigners();
-
-    // Deploy a mock ERC20 token (simulating USDC)
-    const MockERC20 = await hre.ethers.getContractFactory("MockERC20");
-    const mockUSDC = await MockERC20.deploy(ethers.parseUnits("100000", 6)); // Mint 100000 mock USDC
-
-    // Define the token addresses and Uniswap router
-    const usdcAddress = mockUSDC.getAddress();
-    // const usdcAddress = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48"; // USDC address on Ethereum
-    const daiAddress = "0x6B175474E89094C44Da98b954EedeAC495271d0F";  // DAI address on Ethereum
-    const uniAddress = "0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984";  // UNI address on Ethereum
-    const linkAddress = "0x514910771AF9Ca656af840dff83E8264EcF986CA"; // LINK address on Ethereum
-    const supportedTokens = [usdcAddress, daiAddress, uniAddress, linkAddress];
-    const primaryToken = usdcAddress; // USDC as primary token
-    const fixedMonthlyContribution = ethers.parseUnits("100", 6); // 100 USDC
-    const investmentThreshold = ethers.parseUnits("200", 6); // 200 USDC
-    const investmentPercentage = 50; // 50%
-    const investmentReturnRate = 15; // 1.5% monthly
-    const uniswapRouter = "0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D"; // Uniswap V2 router address on Ethereum
-    
-    // Deploy the MultisigWallet contract with the constructor arguments
-    const MultisigWallet = await hre.ethers.getContractFactory("MultisigWallet");
-    const multisigWallet = await MultisigWallet.deploy(
-      primaryToken,
-      supportedTokens,
-      fixedMonthlyContribution,
-      investmentThreshold,
-      investmentPercentage,
-      investmentReturnRate,
-      uniswapRouter
-    );
-
-    return { multisigWallet, admin, otherAccount, mockUSDC, uniswapRouter };
-  }
-
   describe("Deployment", function () {
     it("Should deploy the MultisigWallet contract correctly", async function () {
       const { multisigWallet, admin } = await loadFixture(deployMultisigWalletFixture);
@@ -71,12 +39,29 @@ describe("MultisigWallet", function () {
       await expect(multisigWallet.addParticipant(otherAccount.address))
         .to.be.revertedWith("Participant already exists");
     });
+
+    // Test case: Adding several participants at once, all or nothing
+    it("Should add a batch of participants and update the quorum", async function () {
+      const { multisigWallet, admin, otherAccount } = await loadFixture(deployMultisigWalletFixture);
+      const [, , thirdAccount] = await ethers.getSigners();
+
+      await expect(multisigWallet.addParticipants([admin.address, otherAccount.address, admin.address]))
+        .to.be.revertedWith("Participant already exists");
+      await expect(multisigWallet.connect(otherAccount).addParticipants([otherAccount.address]))
+        .to.be.revertedWithCustomError(multisigWallet, "OwnableUnauthorizedAccount");
+
+      await multisigWallet.addParticipants([admin.address, otherAccount.address, thirdAccount.address]);
+      expect(await multisigWallet.totalParticipants()).to.equal(3);
+      expect(await multisigWallet.quorum()).to.equal(2);
+    });
   });
 
   describe("depositToken", function () {
     // Test case: Should revert if the deposit amount is zero
     it("Should revert if the deposit amount is zero", async function () {
       const { multisigWallet, admin, otherAccount } = await loadFixture(deployMultisigWalletFixture);
+      await multisigWallet.addParticipant(otherAccount.address);
+      await completeGroup(multisigWallet);
   
       // Define a supported token (mock USDC in this case)
       const usdcAddress = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48"; // Mock USDC address
@@ -90,6 +75,8 @@ describe("MultisigWallet", function () {
     // Test case: Should revert if trying to deposit an unsupported token
     it("Should revert if trying to deposit an unsupported token", async function () {
       const { multisigWallet, admin, otherAccount } = await loadFixture(deployMultisigWalletFixture);
+      await multisigWallet.addParticipant(otherAccount.address);
+      await completeGroup(multisigWallet);
 
       // Define an unsupported token address (e.g., random token address)
       const unsupportedToken = "0x0000000000000000000000000000000000000001"; // Random unsupported token
@@ -103,6 +90,8 @@ describe("MultisigWallet", function () {
     // Test case: Should revert if the deposit amount is less than required to cover missed contributions
     it("Should revert if the deposit amount is less than the required contribution", async function () {
       const { multisigWallet, admin, otherAccount, mockUSDC } = await loadFixture(deployMultisigWalletFixture);
+      await multisigWallet.addParticipant(otherAccount.address);
+      await completeGroup(multisigWallet);
 
       // Define a supported token (mock USDC in this case)
       const usdcAddress = mockUSDC.getAddress();
@@ -149,9 +138,10 @@ describe("MultisigWallet", function () {
   });  
 
   describe("invest", function () {
-    // Test case: Should revert if the participant already has an active investment
-    it("Should revert if the participant has an active investment", async function () {
+    // Test case: Should revert if the pool is already fully allocated
+    it("Should revert if there is nothing new to invest", async function () {
       const { multisigWallet, admin, otherAccount, mockUSDC } = await loadFixture(deployMultisigWalletFixture);
+      const members = await completeGroup(multisigWallet);
   
       // Define a supported token (mock USDC in this case)
       const usdcAddress = mockUSDC.getAddress();
@@ -168,17 +158,18 @@ describe("MultisigWallet", function () {
       // Simulate the otherAccount making a valid deposit
       await multisigWallet.connect(otherAccount).depositToken(usdcAddress, ethers.parseUnits("200", 6));
   
-      // First investment call should pass and mark the participant as invested
-      await multisigWallet.connect(otherAccount).invest();
+      // The first approved investment allocates the pool and marks the participant as invested
+      await investByVote(multisigWallet, otherAccount, members[0]);
   
-      // Try investing again and expect it to revert due to active investment
-      await expect(multisigWallet.connect(otherAccount).invest())
-        .to.be.revertedWith("Active investment exists. Withdraw first before reinvesting.");
+      // Approving another one without new deposits reverts
+      await expect(investByVote(multisigWallet, otherAccount, members[0]))
+        .to.be.revertedWith("Nothing to invest");
     });
 
-    // Test case: Should revert if the participant's balance is less than twice the fixed monthly contribution
-    it("Should revert if the participant's balance is insufficient to invest", async function () {
+    // Test case: Should revert if total savings have not reached the investment threshold
+    it("Should revert if total savings are below the investment threshold", async function () {
       const { multisigWallet, admin, otherAccount, mockUSDC } = await loadFixture(deployMultisigWalletFixture);
+      await completeGroup(multisigWallet);
 
       // Define a supported token (mock USDC in this case)
       const usdcAddress = mockUSDC.getAddress();
@@ -192,12 +183,98 @@ describe("MultisigWallet", function () {
       // Approve the token for transfer to the contract
       await mockUSDC.connect(otherAccount).approve(multisigWallet.getAddress(), ethers.parseUnits("150", 6));
 
-      // Simulate the otherAccount making a valid deposit (but less than 2x fixed monthly contribution)
+      // Simulate the otherAccount making a valid deposit (but less than the 200 USDC threshold)
       await multisigWallet.connect(otherAccount).depositToken(usdcAddress, ethers.parseUnits("150", 6));
 
-      // Try investing and expect it to revert due to insufficient balance
+      // Try investing and expect it to revert due to the threshold
+      await expect(multisigWallet.connect(otherAccount).invest())
+        .to.be.revertedWith("Total savings below investment threshold");
+    });
+
+    it("Should revert if a non-participant triggers an investment", async function () {
+      const { multisigWallet, nonParticipant } = await loadFixture(deployWithParticipantsFixture);
+
+      await expect(multisigWallet.connect(nonParticipant).invest())
+        .to.be.revertedWith("Caller is not a participant");
+    });
+
+    it("Should need a vote to invest", async function () {
+      const { multisigWallet, otherAccount, thirdAccount } = await loadFixture(deployWithParticipantsFixture);
+
+      // The proposal only counts the proposer's vote, so nothing is invested yet
       await expect(multisigWallet.connect(otherAccount).invest())
-        .to.be.revertedWith("Insufficient balance to invest");
+        .to.emit(multisigWallet, "ProposalCreated")
+        .and.not.to.emit(multisigWallet, "InvestmentMade");
+      expect(await multisigWallet.investmentBalance()).to.equal(0);
+
+      await expect(multisigWallet.connect(thirdAccount).vote(0))
+        .to.emit(multisigWallet, "InvestmentMade").withArgs(ethers.parseUnits("100", 6));
+    });
+
+    it("Should invest only the configured percentage, pro rata to each balance", async function () {
+      const { multisigWallet, admin, otherAccount, thirdAccount, mockUSDC } = await loadFixture(deployWithParticipantsFixture);
+
+      // admin adds 100 USDC next to otherAccount's 200
+      await mockUSDC.approve(multisigWallet.getAddress(), ethers.parseUnits("100", 6));
+      await multisigWallet.connect(admin).depositToken(mockUSDC.getAddress(), ethers.parseUnits("100", 6));
+      expect(await multisigWallet.totalSavings()).to.equal(ethers.parseUnits("300", 6));
+
+      await expect(investByVote(multisigWallet, admin, thirdAccount))
+        .to.emit(multisigWallet, "InvestmentMade").withArgs(ethers.parseUnits("150", 6))
+        .and.to.emit(multisigWallet, "InvestmentStarted").withArgs(otherAccount.address, ethers.parseUnits("100", 6));
+
+      // 50% of the pool is invested, the rest stays liquid
+      expect(await multisigWallet.investmentBalance()).to.equal(ethers.parseUnits("150", 6));
+      expect(await mockUSDC.balanceOf(multisigWallet.getAddress())).to.equal(ethers.parseUnits("300", 6));
+
+      const other = await multisigWallet.connect(otherAccount).getParticipant();
+      expect(other.investedAmount).to.equal(ethers.parseUnits("100", 6));
+      expect(other.isInvested).to.equal(true);
+      expect((await multisigWallet.connect(admin).getParticipant()).investedAmount).to.equal(ethers.parseUnits("50", 6));
+    });
+
+    it("Should top up the allocation after new deposits", async function () {
+      const { multisigWallet, admin, otherAccount, thirdAccount, mockUSDC } = await loadFixture(deployWithParticipantsFixture);
+
+      await investByVote(multisigWallet, admin, thirdAccount);
+      await advanceDays(20);
+
+      // Contributions may not drop below the previous one, so otherAccount deposits another 200
+      await mockUSDC.transfer(otherAccount.address, ethers.parseUnits("200", 6));
+      await mockUSDC.connect(otherAccount).approve(multisigWallet.getAddress(), ethers.parseUnits("200", 6));
+      await multisigWallet.connect(otherAccount).depositToken(mockUSDC.getAddress(), ethers.parseUnits("200", 6));
+
+      await expect(investByVote(multisigWallet, admin, thirdAccount))
+        .to.emit(multisigWallet, "InvestmentMade").withArgs(ethers.parseUnits("100", 6));
+
+      const other = await multisigWallet.connect(otherAccount).getParticipant();
+      expect(other.investedAmount).to.equal(ethers.parseUnits("200", 6));
+      expect(await multisigWallet.investmentBalance()).to.equal(ethers.parseUnits("200", 6));
+    });
+
+    it("Should lock a top-up from its own start and keep the earlier allocation's lock", async function () {
+      const { multisigWallet, admin, otherAccount, thirdAccount, mockUSDC } = await loadFixture(deployWithParticipantsFixture);
+
+      // 100 of otherAccount's 200 are invested, then another 100 from a top-up 20 days later
+      await investByVote(multisigWallet, admin, thirdAccount);
+      await advanceDays(20);
+      await mockUSDC.transfer(otherAccount.address, ethers.parseUnits("200", 6));
+      await mockUSDC.connect(otherAccount).approve(multisigWallet.getAddress(), ethers.parseUnits("200", 6));
+      await multisigWallet.connect(otherAccount).depositToken(mockUSDC.getAddress(), ethers.parseUnits("200", 6));
+      await investByVote(multisigWallet, admin, thirdAccount);
+
+      // 90 days after the first allocation, the liquid 200 and the first 100 can be withdrawn, but not the top-up
+      await advanceDays(71);
+      await multisigWallet.connect(otherAccount).requestWithdrawal(ethers.parseUnits("400", 6));
+      await multisigWallet.connect(admin).approveWithdrawal(1);
+      await multisigWallet.connect(thirdAccount).approveWithdrawal(1);
+      await expect(multisigWallet.connect(otherAccount).withdraw(ethers.parseUnits("400", 6)))
+        .to.be.revertedWith("Investment lock period has not ended");
+
+      await multisigWallet.connect(otherAccount).withdraw(ethers.parseUnits("300", 6));
+      const other = await multisigWallet.connect(otherAccount).getParticipant();
+      expect(other.investedAmount).to.equal(ethers.parseUnits("100", 6));
+      expect(await multisigWallet.investmentBalance()).to.equal(ethers.parseUnits("100", 6));
     });
   });  
   
@@ -214,13 +291,14 @@ describe("MultisigWallet", function () {
       expect(participantBalance).to.equal(0); // Ensure balance is zero
   
       // Try withdrawing and expect it to revert due to no balance
-      await expect(multisigWallet.connect(otherAccount).withdraw())
+      await expect(multisigWallet.connect(otherAccount).withdraw(ethers.parseUnits("100", 6)))
         .to.be.revertedWith("No balance to withdraw");
     });
 
   // Test case: Should revert if the participant's investment lock period has not ended
   it("Should revert if the participant's investment lock period has not ended", async function () {
     const { multisigWallet, admin, otherAccount, mockUSDC } = await loadFixture(deployMultisigWalletFixture);
+    const members = await completeGroup(multisigWallet);
 
     // Define a supported token (mock USDC in this case)
     const usdcAddress = mockUSDC.getAddress();
@@ -237,19 +315,31 @@ describe("MultisigWallet", function () {
     // Simulate the otherAccount making a valid deposit
     await multisigWallet.connect(otherAccount).depositToken(usdcAddress, ethers.parseUnits("200", 6));
 
-    // Have the participant invest
-    await multisigWallet.connect(otherAccount).invest();
+    // Have the group invest
+    await investByVote(multisigWallet, otherAccount, members[0]);
+
+    // Request the withdrawal and have the other two members approve it
+    await multisigWallet.connect(otherAccount).requestWithdrawal(ethers.parseUnits("200", 6));
+    for (const member of members) {
+      await multisigWallet.connect(member).approveWithdrawal(1);
+    }
 
     // Try to withdraw before the 90-day lock period ends
-    await expect(multisigWallet.connect(otherAccount).withdraw())
+    await expect(multisigWallet.connect(otherAccount).withdraw(ethers.parseUnits("200", 6)))
       .to.be.revertedWith("Investment lock period has not ended");
 
     // Fast forward time by 60 days to simulate a scenario where the lock period is still active
     await ethers.provider.send("evm_increaseTime", [60 * 24 * 60 * 60]); // Fast forward 60 days
     await ethers.provider.send("evm_mine"); // Mine the next block
 
+    // The first request has expired by now, so open a fresh one
+    await multisigWallet.connect(otherAccount).requestWithdrawal(ethers.parseUnits("200", 6));
+    for (const member of members) {
+      await multisigWallet.connect(member).approveWithdrawal(2);
+    }
+
     // Try to withdraw again and expect it to revert due to the lock period not ending
-    await expect(multisigWallet.connect(otherAccount).withdraw())
+    await expect(multisigWallet.connect(otherAccount).withdraw(ethers.parseUnits("200", 6)))
       .to.be.revertedWith("Investment lock period has not ended");
   });
   
@@ -302,44 +392,38 @@ describe("MultisigWallet", function () {
   //     .to.be.reverted; // General revert check
   // });
   
-    it("Should revert if the transfer of tokens fails", async function () {
-      const { multisigWallet, admin, otherAccount, mockUSDC } = await loadFixture(deployMultisigWalletFixture);
-    
-      // Define a supported token (mock USDC in this case)
-      const usdcAddress = mockUSDC.getAddress();
-    
-      // Add the otherAccount as a new participant
-      await multisigWallet.connect(admin).addParticipant(otherAccount.address);
-    
-      // Add admin as a participant so they can approve withdrawals
-      await multisigWallet.connect(admin).addParticipant(admin.address);
-    
-      // Transfer enough mock USDC to otherAccount for testing
-      await mockUSDC.transfer(otherAccount.address, ethers.parseUnits("200", 6)); // Give 200 USDC to otherAccount
-    
-      // Approve the token for transfer to the contract
-      await mockUSDC.connect(otherAccount).approve(multisigWallet.getAddress(), ethers.parseUnits("200", 6));
-    
-      // Simulate the otherAccount making a valid deposit
-      await multisigWallet.connect(otherAccount).depositToken(usdcAddress, ethers.parseUnits("200", 6));
-    
-      // Have the participant invest
-      await multisigWallet.connect(otherAccount).invest();
-    
+    it("Should only release the invested share after the lock period", async function () {
+      const { multisigWallet, admin, otherAccount, thirdAccount, mockUSDC } = await loadFixture(deployWithParticipantsFixture);
+
+      // 100 of otherAccount's 200 USDC is invested, 100 stays liquid
+      await investByVote(multisigWallet, otherAccount, thirdAccount);
+
+      // Approve a withdrawal of the full balance
+      await multisigWallet.connect(otherAccount).requestWithdrawal(ethers.parseUnits("200", 6));
+      await multisigWallet.connect(admin).approveWithdrawal(1);
+      await multisigWallet.connect(thirdAccount).approveWithdrawal(1);
+
+      // Only the liquid part is available while the share is locked
+      await expect(multisigWallet.connect(otherAccount).withdraw(ethers.parseUnits("200", 6)))
+        .to.be.revertedWith("Investment lock period has not ended");
+
       // Fast forward time by 90 days to simulate lock period end
       await ethers.provider.send("evm_increaseTime", [90 * 24 * 60 * 60]); // Fast forward 90 days
       await ethers.provider.send("evm_mine"); // Mine the next block
-    
-      // Now, let the admin approve the withdrawal
-      await multisigWallet.connect(admin).approveWithdrawal(otherAccount.address);
-    
-      // Simulate a scenario where the contract has insufficient USDC balance for withdrawal
-      const multisigWalletBalance = await mockUSDC.balanceOf(multisigWallet.getAddress());
-      await mockUSDC.connect(admin).transfer(admin.address, multisigWalletBalance); // Withdraw all USDC from the contract
-    
-      // Try to withdraw and expect a generic revert (without specific message)
-      await expect(multisigWallet.connect(otherAccount).withdraw())
-        .to.be.reverted; // General revert check
+
+      await multisigWallet.connect(otherAccount).requestWithdrawal(ethers.parseUnits("200", 6));
+      await multisigWallet.connect(admin).approveWithdrawal(2);
+      await multisigWallet.connect(thirdAccount).approveWithdrawal(2);
+      await multisigWallet.connect(otherAccount).withdraw(ethers.parseUnits("200", 6));
+
+      // Principal is paid once, from the tracked balance, and the pool shrinks accordingly
+      const other = await multisigWallet.connect(otherAccount).getParticipant();
+      expect(other.balance).to.equal(0);
+      expect(other.investedAmount).to.equal(0);
+      expect(other.isInvested).to.equal(false);
+      expect(await multisigWallet.investmentBalance()).to.equal(0);
+      expect(await multisigWallet.totalSavings()).to.equal(0);
+      expect(await mockUSDC.balanceOf(otherAccount.address)).to.equal(ethers.parseUnits("190", 6));
     });
     
   });
@@ -348,6 +432,7 @@ describe("MultisigWallet", function () {
     // Test case: Should revert if a participant tries to approve their own withdrawal
     it("Should revert if a participant tries to approve their own withdrawal", async function () {
       const { multisigWallet, admin, otherAccount, mockUSDC } = await loadFixture(deployMultisigWalletFixture);
+      await completeGroup(multisigWallet);
   
       // Define a supported token (mock USDC in this case)
       const usdcAddress = mockUSDC.getAddress();
@@ -363,14 +448,18 @@ describe("MultisigWallet", function () {
   
       // Simulate the otherAccount making a valid deposit
       await multisigWallet.connect(otherAccount).depositToken(usdcAddress, ethers.parseUnits("200", 6));
+
+      // Open a withdrawal request
+      await multisigWallet.connect(otherAccount).requestWithdrawal(ethers.parseUnits("200", 6));
   
       // Try to approve their own withdrawal and expect it to revert with the message "You cannot approve your own withdrawal"
-      await expect(multisigWallet.connect(otherAccount).approveWithdrawal(otherAccount.address))
+      await expect(multisigWallet.connect(otherAccount).approveWithdrawal(1))
         .to.be.revertedWith("You cannot approve your own withdrawal");
     });
   
     it("Should revert if a non-participant tries to approve a withdrawal", async function () {
       const { multisigWallet, admin, otherAccount, mockUSDC } = await loadFixture(deployMultisigWalletFixture);
+      await completeGroup(multisigWallet);
     
       // Define a supported token (mock USDC in this case)
       const usdcAddress = mockUSDC.getAddress();
@@ -386,17 +475,21 @@ describe("MultisigWallet", function () {
     
       // Simulate the otherAccount making a valid deposit
       await multisigWallet.connect(otherAccount).depositToken(usdcAddress, ethers.parseUnits("200", 6));
+
+      // Open a withdrawal request
+      await multisigWallet.connect(otherAccount).requestWithdrawal(ethers.parseUnits("200", 6));
     
       // Use a third-party account that is not a participant to try approving a withdrawal
       const [,, nonParticipant] = await hre.ethers.getSigners(); // Third signer as non-participant
       
       // Try to have the non-participant approve a withdrawal and expect it to revert with the message "Only participants can approve"
-      await expect(multisigWallet.connect(nonParticipant).approveWithdrawal(otherAccount.address))
+      await expect(multisigWallet.connect(nonParticipant).approveWithdrawal(1))
         .to.be.revertedWith("Only participants can approve");
     });
 
     it("Should revert if a participant tries to approve the same withdrawal more than once", async function () {
       const { multisigWallet, admin, otherAccount, mockUSDC } = await loadFixture(deployMultisigWalletFixture);
+      await completeGroup(multisigWallet);
     
       // Define a supported token (mock USDC in this case)
       const usdcAddress = mockUSDC.getAddress();
@@ -416,19 +509,326 @@ describe("MultisigWallet", function () {
       // Simulate the otherAccount making a valid deposit
       await multisigWallet.connect(otherAccount).depositToken(usdcAddress, ethers.parseUnits("200", 6));
     
-      // Approve the withdrawal for otherAccount by the admin
-      await multisigWallet.connect(admin).approveWithdrawal(otherAccount.address);
+      // Open a withdrawal request and have the admin approve it
+      await multisigWallet.connect(otherAccount).requestWithdrawal(ethers.parseUnits("200", 6));
+      await multisigWallet.connect(admin).approveWithdrawal(1);
     
       // Try to approve the same withdrawal again and expect it to revert with the message "You have already approved this withdrawal"
-      await expect(multisigWallet.connect(admin).approveWithdrawal(otherAccount.address))
+      await expect(multisigWallet.connect(admin).approveWithdrawal(1))
         .to.be.revertedWith("You have already approved this withdrawal");
     });
+
+    it("Should revert approvals for unknown, superseded or expired requests", async function () {
+      const { multisigWallet, admin, otherAccount } = await loadFixture(deployWithParticipantsFixture);
+
+      await expect(multisigWallet.connect(admin).approveWithdrawal(1))
+        .to.be.revertedWith("Withdrawal request does not exist");
+
+      // A second request replaces the first one
+      await multisigWallet.connect(otherAccount).requestWithdrawal(ethers.parseUnits("50", 6));
+      await multisigWallet.connect(otherAccount).requestWithdrawal(ethers.parseUnits("80", 6));
+      await expect(multisigWallet.connect(admin).approveWithdrawal(1))
+        .to.be.revertedWith("Withdrawal request is no longer active");
+
+      // Fast forward past the 7-day approval window
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+
+      await expect(multisigWallet.connect(admin).approveWithdrawal(2))
+        .to.be.revertedWith("Withdrawal request has expired");
+    });
   });  
 
+  describe("withdrawal requests", function () {
+    it("Should revert if the requested amount is zero or exceeds the balance", async function () {
+      const { multisigWallet, otherAccount, nonParticipant } = await loadFixture(deployWithParticipantsFixture);
+
+      await expect(multisigWallet.connect(otherAccount).requestWithdrawal(0))
+        .to.be.revertedWith("Withdrawal amount must be greater than zero");
+      await expect(multisigWallet.connect(otherAccount).requestWithdrawal(ethers.parseUnits("201", 6)))
+        .to.be.revertedWith("Withdrawal amount exceeds balance");
+      await expect(multisigWallet.connect(nonParticipant).requestWithdrawal(1))
+        .to.be.revertedWith("Caller is not a participant");
+    });
+
+    it("Should record the request and its approvals", async function () {
+      const { multisigWallet, admin, otherAccount } = await loadFixture(deployWithParticipantsFixture);
+      const amount = ethers.parseUnits("50", 6);
+
+      await expect(multisigWallet.connect(otherAccount).requestWithdrawal(amount))
+        .to.emit(multisigWallet, "WithdrawalRequested");
+      await expect(multisigWallet.connect(admin).approveWithdrawal(1))
+        .to.emit(multisigWallet, "WithdrawalApproved").withArgs(1, otherAccount.address, admin.address);
+
+      const request = await multisigWallet.withdrawalRequests(1);
+      expect(request.participant).to.equal(otherAccount.address);
+      expect(request.amount).to.equal(amount);
+      expect(request.approvedCount).to.equal(1);
+      expect(request.executed).to.equal(false);
+      expect(await multisigWallet.activeWithdrawalRequest(otherAccount.address)).to.equal(1);
+      expect(await multisigWallet.hasApprovedWithdrawal(1, admin.address)).to.equal(true);
+    });
+
+    it("Should revert withdrawals without an active, approved and unexpired request", async function () {
+      const { multisigWallet, admin, otherAccount, thirdAccount } = await loadFixture(deployWithParticipantsFixture);
+
+      await expect(multisigWallet.connect(otherAccount).withdraw(ethers.parseUnits("50", 6)))
+        .to.be.revertedWith("No active withdrawal request");
+
+      // One approval out of the two required
+      await multisigWallet.connect(otherAccount).requestWithdrawal(ethers.parseUnits("50", 6));
+      await multisigWallet.connect(admin).approveWithdrawal(1);
+      await expect(multisigWallet.connect(otherAccount).withdraw(ethers.parseUnits("50", 6)))
+        .to.be.revertedWith("Quorum approval not met");
+
+      // Fully approved, but too late
+      await multisigWallet.connect(thirdAccount).approveWithdrawal(1);
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+      await expect(multisigWallet.connect(otherAccount).withdraw(ethers.parseUnits("50", 6)))
+        .to.be.revertedWith("Withdrawal request has expired");
+    });
+
+    it("Should pay out only the approved amount and consume the approvals", async function () {
+      const { multisigWallet, admin, otherAccount, thirdAccount, mockUSDC } = await loadFixture(deployWithParticipantsFixture);
+
+      await multisigWallet.connect(otherAccount).requestWithdrawal(ethers.parseUnits("100", 6));
+      await multisigWallet.connect(admin).approveWithdrawal(1);
+      await multisigWallet.connect(thirdAccount).approveWithdrawal(1);
+
+      await expect(multisigWallet.connect(otherAccount).withdraw(ethers.parseUnits("100", 6)))
+        .to.emit(multisigWallet, "WithdrawalMade").withArgs(otherAccount.address, ethers.parseUnits("95", 6), ethers.parseUnits("5", 6));
+
+      expect(await mockUSDC.balanceOf(otherAccount.address)).to.equal(ethers.parseUnits("95", 6));
+      expect(await multisigWallet.connect(otherAccount).checkBalance()).to.equal(ethers.parseUnits("100", 6));
+      expect((await multisigWallet.withdrawalRequests(1)).executed).to.equal(true);
+      expect(await multisigWallet.activeWithdrawalRequest(otherAccount.address)).to.equal(0);
+
+      // The executed request cannot be replayed or approved again
+      await expect(multisigWallet.connect(otherAccount).withdraw(ethers.parseUnits("100", 6)))
+        .to.be.revertedWith("No active withdrawal request");
+      await expect(multisigWallet.connect(admin).approveWithdrawal(1))
+        .to.be.revertedWith("Withdrawal request is no longer active");
+    });
+
+    it("Should allow a second withdrawal cycle for the same participant", async function () {
+      const { multisigWallet, admin, otherAccount, thirdAccount, mockUSDC } = await loadFixture(deployWithParticipantsFixture);
+
+      for (const requestId of [1, 2]) {
+        await multisigWallet.connect(otherAccount).requestWithdrawal(ethers.parseUnits("100", 6));
+        await multisigWallet.connect(admin).approveWithdrawal(requestId);
+        await multisigWallet.connect(thirdAccount).approveWithdrawal(requestId);
+        await multisigWallet.connect(otherAccount).withdraw(ethers.parseUnits("100", 6));
+
+        // Wait out the 6-month cadence before the next cycle
+        await ethers.provider.send("evm_increaseTime", [180 * 24 * 60 * 60]);
+        await ethers.provider.send("evm_mine");
+      }
+
+      expect(await mockUSDC.balanceOf(otherAccount.address)).to.equal(ethers.parseUnits("190", 6));
+      expect(await multisigWallet.connect(otherAccount).checkBalance()).to.equal(0);
+    });
+  });
+
+  describe("signed withdrawal approvals", function () {
+    // Signs an EIP-712 WithdrawalApproval of `participant`'s request for `amount` on `wallet`
+    async function signApproval(wallet: MultisigWallet, signer: HardhatEthersSigner, requestId: number, participant: string, amount: bigint) {
+      const domain = {
+        name: "MultisigWallet",
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: await wallet.getAddress(),
+      };
+      const types = {
+        WithdrawalApproval: [
+          { name: "requestId", type: "uint256" },
+          { name: "participant", type: "address" },
+          { name: "amount", type: "uint256" },
+        ],
+      };
+      return signer.signTypedData(domain, types, { requestId, participant, amount });
+    }
+
+    it("Should expose the EIP-712 domain separator", async function () {
+      const { multisigWallet } = await loadFixture(deployWithParticipantsFixture);
+
+      const expected = ethers.TypedDataEncoder.hashDomain({
+        name: "MultisigWallet",
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: await multisigWallet.getAddress(),
+      });
+      expect(await multisigWallet.domainSeparator()).to.equal(expected);
+    });
+
+    it("Should accept a batch of signed approvals from any relayer", async function () {
+      const { multisigWallet, admin, otherAccount, thirdAccount, nonParticipant, mockUSDC } = await loadFixture(deployWithParticipantsFixture);
+      const amount = ethers.parseUnits("100", 6);
+      await multisigWallet.connect(otherAccount).requestWithdrawal(amount);
+
+      const signatures = [
+        await signApproval(multisigWallet, admin, 1, otherAccount.address, amount),
+        await signApproval(multisigWallet, thirdAccount, 1, otherAccount.address, amount),
+      ];
+      await expect(multisigWallet.connect(nonParticipant).approveWithdrawalsBySig(1, [admin.address, thirdAccount.address], signatures))
+        .to.emit(multisigWallet, "WithdrawalApproved").withArgs(1, otherAccount.address, admin.address)
+        .and.to.emit(multisigWallet, "WithdrawalApproved").withArgs(1, otherAccount.address, thirdAccount.address);
+
+      expect((await multisigWallet.withdrawalRequests(1)).approvedCount).to.equal(2);
+      await multisigWallet.connect(otherAccount).withdraw(amount);
+      expect(await mockUSDC.balanceOf(otherAccount.address)).to.equal(ethers.parseUnits("95", 6));
+    });
+
+    it("Should count signed and on-chain approvals together, once per approver", async function () {
+      const { multisigWallet, admin, otherAccount, thirdAccount } = await loadFixture(deployWithParticipantsFixture);
+      const amount = ethers.parseUnits("100", 6);
+      await multisigWallet.connect(otherAccount).requestWithdrawal(amount);
+      await multisigWallet.connect(admin).approveWithdrawal(1);
+
+      // Replaying the admin's approval as a signature is rejected
+      const adminSignature = await signApproval(multisigWallet, admin, 1, otherAccount.address, amount);
+      await expect(multisigWallet.approveWithdrawalsBySig(1, [admin.address], [adminSignature]))
+        .to.be.revertedWith("You have already approved this withdrawal");
+
+      const thirdSignature = await signApproval(multisigWallet, thirdAccount, 1, otherAccount.address, amount);
+      await multisigWallet.approveWithdrawalsBySig(1, [thirdAccount.address], [thirdSignature]);
+      await expect(multisigWallet.approveWithdrawalsBySig(1, [thirdAccount.address], [thirdSignature]))
+        .to.be.revertedWith("You have already approved this withdrawal");
+      expect((await multisigWallet.withdrawalRequests(1)).approvedCount).to.equal(2);
+    });
+
+    it("Should reject signatures for another request, amount, wallet or signer", async function () {
+      const { multisigWallet, admin, otherAccount, thirdAccount, nonParticipant } = await loadFixture(deployWithParticipantsFixture);
+      const amount = ethers.parseUnits("100", 6);
+      await multisigWallet.connect(otherAccount).requestWithdrawal(amount);
+
+      const forgeries = [
+        await signApproval(multisigWallet, admin, 2, otherAccount.address, amount), // Another request
+        await signApproval(multisigWallet, admin, 1, otherAccount.address, amount + 1n), // Another amount
+        await signApproval(multisigWallet, admin, 1, thirdAccount.address, amount), // Another requester
+        await signApproval(multisigWallet, thirdAccount, 1, otherAccount.address, amount), // Signed by someone else
+      ];
+      for (const signature of forgeries) {
+        await expect(multisigWallet.approveWithdrawalsBySig(1, [admin.address], [signature]))
+          .to.be.revertedWith("Invalid approval signature");
+      }
+
+      // The same approval for a different wallet
+      const { multisigWallet: otherWallet } = await deployWithParticipantsFixture();
+      const otherWalletSignature = await signApproval(otherWallet, admin, 1, otherAccount.address, amount);
+      await expect(multisigWallet.approveWithdrawalsBySig(1, [admin.address], [otherWalletSignature]))
+        .to.be.revertedWith("Invalid approval signature");
+
+      // Valid signatures still go through the usual approval rules
+      const selfSignature = await signApproval(multisigWallet, otherAccount, 1, otherAccount.address, amount);
+      await expect(multisigWallet.approveWithdrawalsBySig(1, [otherAccount.address], [selfSignature]))
+        .to.be.revertedWith("You cannot approve your own withdrawal");
+      const outsiderSignature = await signApproval(multisigWallet, nonParticipant, 1, otherAccount.address, amount);
+      await expect(multisigWallet.approveWithdrawalsBySig(1, [nonParticipant.address], [outsiderSignature]))
+        .to.be.revertedWith("Only participants can approve");
+      await expect(multisigWallet.approveWithdrawalsBySig(1, [admin.address, thirdAccount.address], [outsiderSignature]))
+        .to.be.revertedWith("Approvers and signatures length mismatch");
+    });
+
+    it("Should stop accepting signatures once the request expires or is superseded", async function () {
+      const { multisigWallet, admin, otherAccount } = await loadFixture(deployWithParticipantsFixture);
+      const amount = ethers.parseUnits("100", 6);
+      await multisigWallet.connect(otherAccount).requestWithdrawal(amount);
+      const signature = await signApproval(multisigWallet, admin, 1, otherAccount.address, amount);
+
+      await multisigWallet.connect(otherAccount).requestWithdrawal(amount);
+      await expect(multisigWallet.approveWithdrawalsBySig(1, [admin.address], [signature]))
+        .to.be.revertedWith("Withdrawal request is no longer active");
+
+      const nextSignature = await signApproval(multisigWallet, admin, 2, otherAccount.address, amount);
+      await advanceDays(8);
+      await expect(multisigWallet.approveWithdrawalsBySig(2, [admin.address], [nextSignature]))
+        .to.be.revertedWith("Withdrawal request has expired");
+    });
+  });
+
+  describe("withdrawal cadence", function () {
+    // Request `amount` for otherAccount and have the other two participants approve it
+    async function approveRequest(fixture: Awaited<ReturnType<typeof deployWithParticipantsFixture>>, amount: bigint) {
+      const { multisigWallet, admin, otherAccount, thirdAccount } = fixture;
+      await multisigWallet.connect(otherAccount).requestWithdrawal(amount);
+      const requestId = await multisigWallet.withdrawalRequestCount();
+      await multisigWallet.connect(admin).approveWithdrawal(requestId);
+      await multisigWallet.connect(thirdAccount).approveWithdrawal(requestId);
+    }
+
+    it("Should allow a partial withdrawal of the approved amount", async function () {
+      const fixture = await loadFixture(deployWithParticipantsFixture);
+      const { multisigWallet, otherAccount, mockUSDC } = fixture;
+
+      await approveRequest(fixture, ethers.parseUnits("150", 6));
+      await multisigWallet.connect(otherAccount).withdraw(ethers.parseUnits("60", 6));
+
+      expect(await mockUSDC.balanceOf(otherAccount.address)).to.equal(ethers.parseUnits("57", 6));
+      expect(await multisigWallet.connect(otherAccount).checkBalance()).to.equal(ethers.parseUnits("140", 6));
+    });
+
+    it("Should revert if the amount exceeds the approved amount", async function () {
+      const fixture = await loadFixture(deployWithParticipantsFixture);
+      const { multisigWallet, otherAccount } = fixture;
+
+      await approveRequest(fixture, ethers.parseUnits("50", 6));
+      await expect(multisigWallet.connect(otherAccount).withdraw(ethers.parseUnits("51", 6)))
+        .to.be.revertedWith("Withdrawal amount exceeds approved amount");
+      await expect(multisigWallet.connect(otherAccount).withdraw(0))
+        .to.be.revertedWith("Withdrawal amount must be greater than zero");
+    });
+
+    it("Should enforce the 6-month interval between withdrawals", async function () {
+      const fixture = await loadFixture(deployWithParticipantsFixture);
+      const { multisigWallet, otherAccount } = fixture;
+
+      await approveRequest(fixture, ethers.parseUnits("50", 6));
+      await multisigWallet.connect(otherAccount).withdraw(ethers.parseUnits("50", 6));
+      const lastWithdrawal = (await multisigWallet.connect(otherAccount).getParticipant()).withdrawalTimestamp;
+      expect(await multisigWallet.connect(otherAccount).nextWithdrawalDate()).to.equal(lastWithdrawal + BigInt(180 * 24 * 60 * 60));
+
+      // Approvals alone do not bypass the cadence
+      await approveRequest(fixture, ethers.parseUnits("50", 6));
+      await expect(multisigWallet.connect(otherAccount).withdraw(ethers.parseUnits("50", 6)))
+        .to.be.revertedWith("Withdrawals are limited to once every 6 months");
+
+      // Fast forward to the next eligible date
+      await ethers.provider.send("evm_increaseTime", [180 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+
+      await approveRequest(fixture, ethers.parseUnits("50", 6));
+      await expect(multisigWallet.connect(otherAccount).withdraw(ethers.parseUnits("50", 6)))
+        .to.emit(multisigWallet, "WithdrawalMade");
+    });
+
+    it("Should let the group approve an early withdrawal with a special fee", async function () {
+      const fixture = await loadFixture(deployWithParticipantsFixture);
+      const { multisigWallet, otherAccount, thirdAccount, mockUSDC } = fixture;
+
+      await approveRequest(fixture, ethers.parseUnits("50", 6));
+      await multisigWallet.connect(otherAccount).withdraw(ethers.parseUnits("50", 6));
+
+      // Still inside the 6-month window, so propose an early withdrawal at 8%
+      await expect(multisigWallet.connect(otherAccount).proposeEarlyWithdrawal(ethers.parseUnits("100", 6), 101))
+        .to.be.revertedWith("Fee must be between 0 and 100");
+      await multisigWallet.connect(otherAccount).proposeEarlyWithdrawal(ethers.parseUnits("100", 6), 8);
+      expect((await multisigWallet.proposals(0)).fee).to.equal(8);
+
+      await expect(multisigWallet.connect(thirdAccount).vote(0))
+        .to.emit(multisigWallet, "WithdrawalMade").withArgs(otherAccount.address, ethers.parseUnits("92", 6), ethers.parseUnits("8", 6));
+
+      // 47.5 from the regular withdrawal plus 92 from the early one
+      expect(await mockUSDC.balanceOf(otherAccount.address)).to.equal(ethers.parseUnits("139.5", 6));
+      expect(await multisigWallet.connect(otherAccount).checkBalance()).to.equal(ethers.parseUnits("50", 6));
+    });
+  });
+
   describe("emergencyWithdraw", function () {
     // Test case: Should revert if the participant tries to use emergency withdrawal after the lock period
     it("Should revert if the participant tries to use emergency withdrawal after the lock period", async function () {
       const { multisigWallet, admin, otherAccount, mockUSDC } = await loadFixture(deployMultisigWalletFixture);
+      const members = await completeGroup(multisigWallet);
   
       // Define a supported token (mock USDC in this case)
       const usdcAddress = mockUSDC.getAddress();
@@ -445,8 +845,8 @@ describe("MultisigWallet", function () {
       // Simulate the otherAccount making a valid deposit
       await multisigWallet.connect(otherAccount).depositToken(usdcAddress, ethers.parseUnits("200", 6));
   
-      // Have the participant invest
-      await multisigWallet.connect(otherAccount).invest();
+      // Have the group invest
+      await investByVote(multisigWallet, otherAccount, members[0]);
   
       // Fast forward time by 91 days to simulate lock period end
       await ethers.provider.send("evm_increaseTime", [91 * 24 * 60 * 60]); // Fast forward 91 days
@@ -457,10 +857,1716 @@ describe("MultisigWallet", function () {
         .to.be.revertedWith("Cannot use emergency withdrawal after the lock period");
     });
 
+    it("Should pay out the whole balance, including the locked share, minus the emergency fee", async function () {
+      const { multisigWallet, otherAccount, thirdAccount, mockUSDC } = await loadFixture(deployWithParticipantsFixture);
+
+      await investByVote(multisigWallet, otherAccount, thirdAccount);
+
+      await expect(multisigWallet.connect(otherAccount).emergencyWithdraw())
+        .to.emit(multisigWallet, "EmergencyWithdrawal").withArgs(otherAccount.address, ethers.parseUnits("180", 6), ethers.parseUnits("20", 6));
+
+      expect(await mockUSDC.balanceOf(otherAccount.address)).to.equal(ethers.parseUnits("180", 6));
+      expect(await multisigWallet.investmentBalance()).to.equal(0);
+      expect(await multisigWallet.totalSavings()).to.equal(0);
+    });
+
 
   });
-  
 
-});
+  describe("proposals", function () {
+    // Proposal types, mirroring the ProposalType enum in the contract
+    const EarlyWithdrawal = 0;
+    const FeeChange = 1;
+    const ContributionChange = 2;
+    const InterestRateChange = 3;
+    const AddParticipant = 4;
+
+    it("Should set quorum to a majority of participants", async function () {
+      const { multisigWallet, nonParticipant } = await loadFixture(deployWithParticipantsFixture);
+
+      expect(await multisigWallet.quorum()).to.equal(2);
+
+      // A fourth participant raises the quorum to 3
+      await multisigWallet.addParticipant(nonParticipant.address);
+      expect(await multisigWallet.quorum()).to.equal(3);
+    });
+
+    it("Should revert if a non-participant creates a proposal", async function () {
+      const { multisigWallet, nonParticipant } = await loadFixture(deployWithParticipantsFixture);
+
+      await expect(multisigWallet.connect(nonParticipant).createProposal(FeeChange, ethers.ZeroAddress, 3))
+        .to.be.revertedWith("Caller is not a participant");
+    });
+
+    it("Should reject proposals that could never be executed", async function () {
+      const { multisigWallet, otherAccount } = await loadFixture(deployWithParticipantsFixture);
+
+      await expect(multisigWallet.connect(otherAccount).createProposal(ContributionChange, ethers.ZeroAddress, 0))
+        .to.be.revertedWith("Contribution must be greater than zero");
+      await expect(multisigWallet.connect(otherAccount).createProposal(AddParticipant, otherAccount.address, 0))
+        .to.be.revertedWith("Participant already exists");
+      await expect(multisigWallet.connect(otherAccount).createProposal(EarlyWithdrawal, ethers.ZeroAddress, ethers.parseUnits("300", 6)))
+        .to.be.revertedWith("Withdrawal amount exceeds balance");
+    });
+
+    it("Should record the proposal and count the initiator's vote", async function () {
+      const { multisigWallet, otherAccount } = await loadFixture(deployWithParticipantsFixture);
+
+      await expect(multisigWallet.connect(otherAccount).createProposal(InterestRateChange, ethers.ZeroAddress, 20))
+        .to.emit(multisigWallet, "ProposalCreated")
+        .and.to.emit(multisigWallet, "VoteCast").withArgs(0, otherAccount.address, 1);
+
+      const proposal = await multisigWallet.proposals(0);
+      expect(proposal.initiator).to.equal(otherAccount.address);
+      expect(proposal.voteCount).to.equal(1);
+      expect(proposal.approved).to.equal(false);
+      expect(proposal.deadline).to.equal(proposal.timestamp + BigInt(7 * 24 * 60 * 60));
+      // Votes are recorded against the voter's current membership
+      expect(await multisigWallet.votes(otherAccount.address, 0)).to.equal((await multisigWallet.connect(otherAccount).getParticipant()).membershipId);
+      expect(await multisigWallet.proposalCount()).to.equal(1);
+    });
+
+    it("Should execute a fee change once quorum is reached", async function () {
+      const { multisigWallet, otherAccount, thirdAccount } = await loadFixture(deployWithParticipantsFixture);
+
+      await multisigWallet.connect(otherAccount).createProposal(FeeChange, ethers.ZeroAddress, 3);
+      expect(await multisigWallet.withdrawalFee()).to.equal(5);
+
+      await expect(multisigWallet.connect(thirdAccount).vote(0))
+        .to.emit(multisigWallet, "WithdrawalFeeUpdated").withArgs(3)
+        .and.to.emit(multisigWallet, "ProposalExecuted").withArgs(0, FeeChange);
+
+      expect(await multisigWallet.withdrawalFee()).to.equal(3);
+      expect((await multisigWallet.proposals(0)).approved).to.equal(true);
+    });
+
+    it("Should execute contribution and interest rate changes", async function () {
+      const { multisigWallet, admin, otherAccount } = await loadFixture(deployWithParticipantsFixture);
+
+      await multisigWallet.connect(otherAccount).createProposal(ContributionChange, ethers.ZeroAddress, ethers.parseUnits("150", 6));
+      await multisigWallet.connect(admin).vote(0);
+      expect(await multisigWallet.fixedMonthlyContribution()).to.equal(ethers.parseUnits("150", 6));
+
+      await multisigWallet.connect(otherAccount).createProposal(InterestRateChange, ethers.ZeroAddress, 20);
+      await multisigWallet.connect(admin).vote(1);
+      expect(await multisigWallet.monthlyInterestRate()).to.equal(20);
+    });
+
+    it("Should hold proposals to the same bounds as the owner's parameter changes", async function () {
+      const { multisigWallet, admin, otherAccount } = await loadFixture(deployWithParticipantsFixture);
+
+      await expect(multisigWallet.connect(otherAccount).createProposal(FeeChange, ethers.ZeroAddress, 21))
+        .to.be.revertedWith("Fee exceeds the maximum");
+      await expect(multisigWallet.connect(otherAccount).createProposal(InterestRateChange, ethers.ZeroAddress, 51))
+        .to.be.revertedWith("Interest rate exceeds the maximum");
+      await expect(multisigWallet.connect(otherAccount).createProposal(ContributionChange, ethers.ZeroAddress, ethers.parseUnits("201", 6)))
+        .to.be.revertedWith("Contribution change out of range");
+
+      // The bound is checked again on execution, against the contribution at that time
+      await multisigWallet.connect(otherAccount).createProposal(ContributionChange, ethers.ZeroAddress, ethers.parseUnits("200", 6));
+      await multisigWallet.connect(otherAccount).createProposal(ContributionChange, ethers.ZeroAddress, ethers.parseUnits("60", 6));
+      await multisigWallet.connect(admin).vote(0);
+      await expect(multisigWallet.connect(admin).vote(1))
+        .to.be.revertedWith("Contribution change out of range");
+    });
+
+    it("Should add a participant through a proposal", async function () {
+      const { multisigWallet, otherAccount, thirdAccount, nonParticipant } = await loadFixture(deployWithParticipantsFixture);
+
+      await multisigWallet.connect(otherAccount).createProposal(AddParticipant, nonParticipant.address, 0);
+      await expect(multisigWallet.connect(thirdAccount).vote(0))
+        .to.emit(multisigWallet, "ParticipantAdded");
+
+      expect(await multisigWallet.isParticipant(nonParticipant.address)).to.equal(true);
+      expect(await multisigWallet.totalParticipants()).to.equal(4);
+      expect(await multisigWallet.quorum()).to.equal(3);
+    });
+
+    it("Should pay out an approved early withdrawal minus the fee", async function () {
+      const { multisigWallet, otherAccount, thirdAccount, mockUSDC } = await loadFixture(deployWithParticipantsFixture);
+      const amount = ethers.parseUnits("100", 6);
+
+      await multisigWallet.connect(otherAccount).createProposal(EarlyWithdrawal, ethers.ZeroAddress, amount);
+      const proposal = await multisigWallet.proposals(0);
+      expect(proposal.target).to.equal(otherAccount.address);
+
+      await expect(multisigWallet.connect(thirdAccount).vote(0))
+        .to.emit(multisigWallet, "WithdrawalMade").withArgs(otherAccount.address, ethers.parseUnits("95", 6), ethers.parseUnits("5", 6));
+
+      expect(await mockUSDC.balanceOf(otherAccount.address)).to.equal(ethers.parseUnits("95", 6));
+      expect(await multisigWallet.connect(otherAccount).checkBalance()).to.equal(ethers.parseUnits("100", 6));
+    });
+
+    it("Should revert if a participant votes twice", async function () {
+      const { multisigWallet, admin, otherAccount, nonParticipant } = await loadFixture(deployWithParticipantsFixture);
+
+      // With 4 participants quorum is 3, so the second vote does not execute the proposal
+      await multisigWallet.addParticipant(nonParticipant.address);
+      await multisigWallet.connect(otherAccount).createProposal(FeeChange, ethers.ZeroAddress, 3);
+      await multisigWallet.connect(admin).vote(0);
+
+      await expect(multisigWallet.connect(admin).vote(0))
+        .to.be.revertedWith("You have already voted on this proposal");
+      await expect(multisigWallet.connect(otherAccount).vote(0))
+        .to.be.revertedWith("You have already voted on this proposal");
+    });
+
+    it("Should revert votes after the voting period has ended", async function () {
+      const { multisigWallet, otherAccount, thirdAccount } = await loadFixture(deployWithParticipantsFixture);
+
+      await multisigWallet.connect(otherAccount).createProposal(FeeChange, ethers.ZeroAddress, 3);
+
+      // Fast forward past the 7-day voting window
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+
+      await expect(multisigWallet.connect(thirdAccount).vote(0))
+        .to.be.revertedWith("Voting period has ended");
+      expect(await multisigWallet.withdrawalFee()).to.equal(5);
+    });
+
+    it("Should revert votes on executed or unknown proposals", async function () {
+      const { multisigWallet, admin, otherAccount, thirdAccount } = await loadFixture(deployWithParticipantsFixture);
+
+      await multisigWallet.connect(otherAccount).createProposal(FeeChange, ethers.ZeroAddress, 3);
+      await multisigWallet.connect(thirdAccount).vote(0);
+
+      await expect(multisigWallet.connect(admin).vote(0))
+        .to.be.revertedWith("Proposal already executed");
+      await expect(multisigWallet.connect(admin).vote(1))
+        .to.be.revertedWith("Proposal does not exist");
+    });
+  });
+
+  describe("yield strategy", function () {
+    const StrategyChange = 5;
+
+    // Three participants plus a mock ERC-4626 vault on the primary token
+    async function deployWithVaultFixture() {
+      const base = await deployWithParticipantsFixture();
+      const MockYieldVault = await hre.ethers.getContractFactory("MockYieldVault");
+      const vault = await MockYieldVault.deploy(base.mockUSDC.getAddress());
+      return { ...base, vault };
+    }
+
+    // Owner (also a participant here) proposes the vault and otherAccount's vote reaches quorum
+    async function approveVault(fixture: Awaited<ReturnType<typeof deployWithVaultFixture>>) {
+      const { multisigWallet, otherAccount, vault } = fixture;
+      await multisigWallet.proposeStrategyChange(vault.getAddress());
+      await multisigWallet.connect(otherAccount).vote((await multisigWallet.proposalCount()) - 1n);
+    }
+
+    it("Should only change the strategy after a participant vote", async function () {
+      const { multisigWallet, otherAccount, vault } = await loadFixture(deployWithVaultFixture);
+
+      await multisigWallet.proposeStrategyChange(vault.getAddress());
+
+      // The owner's proposal alone does not reach quorum
+      const proposal = await multisigWallet.proposals(0);
+      expect(proposal.proposalType).to.equal(StrategyChange);
+      expect(proposal.voteCount).to.equal(1);
+      expect(await multisigWallet.yieldStrategy()).to.equal(ethers.ZeroAddress);
+
+      await expect(multisigWallet.connect(otherAccount).vote(0))
+        .to.emit(multisigWallet, "YieldStrategyUpdated").withArgs(ethers.ZeroAddress, await vault.getAddress());
+      expect(await multisigWallet.yieldStrategy()).to.equal(await vault.getAddress());
+    });
+
+    it("Should not count the owner's vote when the owner is not a participant", async function () {
+      const { multisigWallet, admin, otherAccount, mockUSDC } = await loadFixture(deployMultisigWalletFixture);
+      await multisigWallet.addParticipant(otherAccount.address);
+
+      const MockYieldVault = await hre.ethers.getContractFactory("MockYieldVault");
+      const vault = await MockYieldVault.deploy(mockUSDC.getAddress());
+
+      await multisigWallet.connect(admin).proposeStrategyChange(vault.getAddress());
+      expect((await multisigWallet.proposals(0)).voteCount).to.equal(0);
+      expect(await multisigWallet.votes(admin.address, 0)).to.equal(0);
+
+      await multisigWallet.connect(otherAccount).vote(0);
+      expect(await multisigWallet.yieldStrategy()).to.equal(await vault.getAddress());
+    });
+
+    it("Should revert if a non-owner proposes a strategy change or the asset does not match", async function () {
+      const { multisigWallet, otherAccount, vault } = await loadFixture(deployWithVaultFixture);
+
+      await expect(multisigWallet.connect(otherAccount).proposeStrategyChange(vault.getAddress()))
+        .to.be.revertedWithCustomError(multisigWallet, "OwnableUnauthorizedAccount");
+
+      // A vault on another token cannot hold the wallet's savings
+      const MockERC20 = await hre.ethers.getContractFactory("MockERC20");
+      const otherToken = await MockERC20.deploy("Other Token", "OTH", 6, ethers.parseUnits("1000", 6));
+      const MockYieldVault = await hre.ethers.getContractFactory("MockYieldVault");
+      const otherVault = await MockYieldVault.deploy(otherToken.getAddress());
+
+      await expect(multisigWallet.proposeStrategyChange(otherVault.getAddress()))
+        .to.be.revertedWith("Strategy asset must be the primary token");
+    });
+
+    it("Should deposit invested funds into the strategy and harvest its yield", async function () {
+      const fixture = await loadFixture(deployWithVaultFixture);
+      const { multisigWallet, admin, otherAccount, thirdAccount, mockUSDC, vault } = fixture;
+
+      await approveVault(fixture);
+      await investByVote(multisigWallet, otherAccount, thirdAccount);
+
+      // 100 USDC is invested in the vault, 100 stays liquid in the wallet
+      expect(await vault.principalOf(multisigWallet.getAddress())).to.equal(ethers.parseUnits("100", 6));
+      expect(await mockUSDC.balanceOf(vault.getAddress())).to.equal(ethers.parseUnits("100", 6));
+      expect(await mockUSDC.balanceOf(multisigWallet.getAddress())).to.equal(ethers.parseUnits("100", 6));
+
+      // The vault earns 10 USDC
+      await mockUSDC.connect(admin).approve(vault.getAddress(), ethers.parseUnits("10", 6));
+      await vault.connect(admin).accrueYield(ethers.parseUnits("10", 6));
+
+      await expect(multisigWallet.connect(otherAccount).harvestYield())
+        .to.emit(multisigWallet, "YieldHarvested");
+
+      // Share rounding may leave dust in the vault
+      const harvested = (await multisigWallet.interestRound()).undistributedYield;
+      expect(harvested).to.be.closeTo(ethers.parseUnits("10", 6), 1);
+      expect(await mockUSDC.balanceOf(multisigWallet.getAddress())).to.equal(ethers.parseUnits("100", 6) + harvested);
+      expect(await vault.principalOf(multisigWallet.getAddress())).to.equal(ethers.parseUnits("100", 6));
+    });
+
+    it("Should revert harvesting without a strategy", async function () {
+      const { multisigWallet, otherAccount } = await loadFixture(deployWithVaultFixture);
+
+      await expect(multisigWallet.connect(otherAccount).harvestYield())
+        .to.be.revertedWith("No yield strategy set");
+    });
+
+    it("Should pull released shares back from the strategy", async function () {
+      const fixture = await loadFixture(deployWithVaultFixture);
+      const { multisigWallet, otherAccount, thirdAccount, mockUSDC, vault } = fixture;
+
+      await approveVault(fixture);
+      await investByVote(multisigWallet, otherAccount, thirdAccount);
+
+      await multisigWallet.connect(otherAccount).emergencyWithdraw();
+
+      expect(await vault.principalOf(multisigWallet.getAddress())).to.equal(0);
+      expect(await mockUSDC.balanceOf(otherAccount.address)).to.equal(ethers.parseUnits("180", 6));
+    });
+
+    it("Should move invested funds when the strategy is replaced", async function () {
+      const fixture = await loadFixture(deployWithVaultFixture);
+      const { multisigWallet, otherAccount, thirdAccount, mockUSDC, vault } = fixture;
+
+      await approveVault(fixture);
+      await investByVote(multisigWallet, otherAccount, thirdAccount);
+
+      const MockYieldVault = await hre.ethers.getContractFactory("MockYieldVault");
+      const newVault = await MockYieldVault.deploy(mockUSDC.getAddress());
+
+      await multisigWallet.proposeStrategyChange(newVault.getAddress());
+      await multisigWallet.connect(otherAccount).vote(2);
+
+      expect(await vault.principalOf(multisigWallet.getAddress())).to.equal(0);
+      expect(await newVault.principalOf(multisigWallet.getAddress())).to.equal(ethers.parseUnits("100", 6));
+      expect(await mockUSDC.balanceOf(newVault.getAddress())).to.equal(ethers.parseUnits("100", 6));
+    });
+  });
+
+  describe("distributeInterest", function () {
+    // Three participants with 200 (otherAccount) and 100 (admin) USDC, half of it invested in a mock vault
+    async function deployInvestedFixture() {
+      const base = await deployWithParticipantsFixture();
+      const { multisigWallet, admin, otherAccount, mockUSDC } = base;
+
+      const MockYieldVault = await hre.ethers.getContractFactory("MockYieldVault");
+      const vault = await MockYieldVault.deploy(mockUSDC.getAddress());
+      await multisigWallet.proposeStrategyChange(vault.getAddress());
+      await multisigWallet.connect(otherAccount).vote(0);
 
+      await mockUSDC.approve(multisigWallet.getAddress(), ethers.parseUnits("100", 6));
+      await multisigWallet.connect(admin).depositToken(mockUSDC.getAddress(), ethers.parseUnits("100", 6));
+      await investByVote(multisigWallet, admin, otherAccount);
 
+      // The vault earns 1.5 USDC on the 150 invested, under the 1.5% monthly interest rate
+      await mockUSDC.approve(vault.getAddress(), ethers.parseUnits("1.5", 6));
+      await vault.accrueYield(ethers.parseUnits("1.5", 6));
+
+      return { ...base, vault };
+    }
+
+    it("Should revert before a 30-day period has elapsed", async function () {
+      const { multisigWallet, nonParticipant } = await loadFixture(deployInvestedFixture);
+
+      await expect(multisigWallet.connect(nonParticipant).distributeInterest(10))
+        .to.be.revertedWith("No interest period has elapsed");
+      await expect(multisigWallet.distributeInterest(0))
+        .to.be.revertedWith("Batch size must be greater than zero");
+    });
+
+    it("Should credit harvested yield pro rata to invested shares", async function () {
+      const { multisigWallet, admin, otherAccount, thirdAccount, nonParticipant } = await loadFixture(deployInvestedFixture);
+      await advanceDays(30);
+
+      // Anyone can trigger the distribution
+      await expect(multisigWallet.connect(nonParticipant).distributeInterest(10))
+        .to.emit(multisigWallet, "InterestDistributed");
+
+      // otherAccount holds 2/3 of the invested pool, admin 1/3; allow for vault share rounding
+      const other = await multisigWallet.connect(otherAccount).getParticipant();
+      const adminParticipant = await multisigWallet.connect(admin).getParticipant();
+      expect(other.interestEarned).to.be.closeTo(ethers.parseUnits("1", 6), 10);
+      expect(other.investmentEarnings).to.equal(other.interestEarned);
+      expect(other.balance).to.equal(ethers.parseUnits("200", 6) + other.interestEarned);
+      expect(adminParticipant.interestEarned).to.be.closeTo(ethers.parseUnits("0.5", 6), 10);
+      expect((await multisigWallet.connect(thirdAccount).getParticipant()).interestEarned).to.equal(0);
+
+      expect(await multisigWallet.connect(otherAccount).checkInterestEarned()).to.equal(other.interestEarned);
+
+      // The credit shows up in the participant's history (deposit, investment, interest)
+      const [interestLog] = await multisigWallet.connect(otherAccount).getTransactionLogs(2, 1);
+      expect(interestLog.transactionType).to.equal(5);
+      expect(interestLog.amount).to.equal(other.interestEarned);
+      expect(await multisigWallet.totalSavings()).to.equal(other.balance + adminParticipant.balance);
+      expect((await multisigWallet.interestRound()).inProgress).to.equal(false);
+    });
+
+    it("Should credit at most the monthly interest rate and keep the rest of the yield", async function () {
+      const { multisigWallet, otherAccount, mockUSDC, vault } = await loadFixture(deployInvestedFixture);
+      await mockUSDC.approve(vault.getAddress(), ethers.parseUnits("28.5", 6));
+      await vault.accrueYield(ethers.parseUnits("28.5", 6));
+      await advanceDays(30);
+
+      // 1.5% of the 150 invested is credited out of the 30 earned
+      await multisigWallet.distributeInterest(10);
+      const credited = (await multisigWallet.connect(otherAccount).getParticipant()).interestEarned;
+      expect(credited).to.be.closeTo(ethers.parseUnits("1.5", 6), 10);
+      expect((await multisigWallet.interestRound()).undistributedYield).to.be.closeTo(ethers.parseUnits("27.75", 6), 10);
+
+      // The next month credits another 1.5% from what was kept
+      await advanceDays(30);
+      await multisigWallet.distributeInterest(10);
+      expect((await multisigWallet.connect(otherAccount).getParticipant()).interestEarned).to.be.closeTo(credited * 2n, 10);
+    });
+
+    it("Should cover every elapsed period in one distribution", async function () {
+      const { multisigWallet } = await loadFixture(deployInvestedFixture);
+      const start = (await multisigWallet.interestRound()).lastDistributionTimestamp;
+      await advanceDays(65);
+
+      await multisigWallet.distributeInterest(10);
+
+      // Two full periods are processed and the schedule stays on 30-day boundaries
+      expect((await multisigWallet.interestRound()).lastDistributionTimestamp).to.equal(start + BigInt(60 * 24 * 60 * 60));
+      await expect(multisigWallet.distributeInterest(10))
+        .to.be.revertedWith("No interest period has elapsed");
+    });
+
+    it("Should process participants in batches", async function () {
+      const { multisigWallet, admin, otherAccount } = await loadFixture(deployInvestedFixture);
+      await advanceDays(30);
+
+      // The first batch credits admin only (participant order: admin, otherAccount, thirdAccount)
+      await expect(multisigWallet.distributeInterest(1))
+        .not.to.emit(multisigWallet, "InterestDistributed");
+      expect((await multisigWallet.interestRound()).inProgress).to.equal(true);
+      expect((await multisigWallet.interestRound()).cursor).to.equal(1);
+      expect((await multisigWallet.connect(admin).getParticipant()).interestEarned).to.be.greaterThan(0);
+      expect((await multisigWallet.connect(otherAccount).getParticipant()).interestEarned).to.equal(0);
+
+      // New allocations wait until the round is finished
+      await expect(multisigWallet.connect(admin).invest())
+        .to.be.revertedWith("Interest distribution in progress");
+
+      await expect(multisigWallet.distributeInterest(2))
+        .to.emit(multisigWallet, "InterestDistributed");
+      expect((await multisigWallet.interestRound()).inProgress).to.equal(false);
+      expect((await multisigWallet.connect(otherAccount).getParticipant()).interestEarned).to.be.greaterThan(0);
+    });
+
+    it("Should credit nothing when no funds are invested", async function () {
+      const { multisigWallet, otherAccount } = await loadFixture(deployWithParticipantsFixture);
+      await advanceDays(30);
+
+      await expect(multisigWallet.distributeInterest(10))
+        .to.emit(multisigWallet, "InterestDistributed").withArgs(0);
+      expect((await multisigWallet.connect(otherAccount).getParticipant()).interestEarned).to.equal(0);
+    });
+  });
+
+  describe("transaction logs", function () {
+    // Transaction types, mirroring the TransactionType enum in the contract
+    const Deposit = 0;
+    const Investment = 2;
+    const Withdrawal = 3;
+    const EmergencyWithdrawal = 4;
+
+    it("Should log a full deposit, invest and withdraw cycle in order", async function () {
+      const { multisigWallet, admin, otherAccount, thirdAccount, mockUSDC } = await loadFixture(deployWithParticipantsFixture);
+      const usdcAddress = await mockUSDC.getAddress();
+
+      // The fixture deposit is the first entry
+      await investByVote(multisigWallet, otherAccount, thirdAccount);
+
+      await ethers.provider.send("evm_increaseTime", [90 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+
+      await multisigWallet.connect(otherAccount).requestWithdrawal(ethers.parseUnits("150", 6));
+      await multisigWallet.connect(admin).approveWithdrawal(1);
+      await multisigWallet.connect(thirdAccount).approveWithdrawal(1);
+      await multisigWallet.connect(otherAccount).withdraw(ethers.parseUnits("150", 6));
+
+      expect(await multisigWallet.connect(otherAccount).getTransactionLogCount()).to.equal(3);
+
+      const logs = await multisigWallet.connect(otherAccount).getTransactionLogs(0, 10);
+      expect(logs.map((log) => [log.transactionType, log.amount, log.token, log.fee])).to.deep.equal([
+        [BigInt(Deposit), ethers.parseUnits("200", 6), usdcAddress, 0n],
+        [BigInt(Investment), ethers.parseUnits("100", 6), usdcAddress, 0n],
+        [BigInt(Withdrawal), ethers.parseUnits("150", 6), usdcAddress, ethers.parseUnits("7.5", 6)],
+      ]);
+      expect(logs[2].timestamp).to.be.greaterThan(logs[0].timestamp);
+
+      // Other participants only see their own history
+      expect(await multisigWallet.connect(thirdAccount).getTransactionLogCount()).to.equal(0);
+    });
+
+    it("Should log emergency withdrawals with their fee", async function () {
+      const { multisigWallet, otherAccount } = await loadFixture(deployWithParticipantsFixture);
+
+      await multisigWallet.connect(otherAccount).emergencyWithdraw();
+
+      const [log] = await multisigWallet.connect(otherAccount).getTransactionLogs(1, 1);
+      expect(log.transactionType).to.equal(EmergencyWithdrawal);
+      expect(log.amount).to.equal(ethers.parseUnits("200", 6));
+      expect(log.fee).to.equal(ethers.parseUnits("20", 6));
+    });
+
+    it("Should page through the history", async function () {
+      const { multisigWallet, otherAccount, mockUSDC } = await loadFixture(deployWithParticipantsFixture);
+
+      // Four more deposits, five entries in total
+      await mockUSDC.transfer(otherAccount.address, ethers.parseUnits("800", 6));
+      await mockUSDC.connect(otherAccount).approve(multisigWallet.getAddress(), ethers.parseUnits("800", 6));
+      for (let i = 0; i < 4; i++) {
+        await multisigWallet.connect(otherAccount).depositToken(mockUSDC.getAddress(), ethers.parseUnits("200", 6));
+      }
+
+      const wallet = multisigWallet.connect(otherAccount);
+      expect(await wallet.getTransactionLogs(0, 2)).to.have.lengthOf(2);
+      expect(await wallet.getTransactionLogs(4, 2)).to.have.lengthOf(1);
+      expect(await wallet.getTransactionLogs(5, 2)).to.have.lengthOf(0);
+      expect(await wallet.getTransactionLogs(1, ethers.MaxUint256)).to.have.lengthOf(4);
+      expect((await wallet.getTransactionLogs(2, 1))[0].amount).to.equal(ethers.parseUnits("200", 6));
+    });
+  });
+
+  describe("balance privacy", function () {
+    it("Should not expose per-participant getters", async function () {
+      const { multisigWallet } = await loadFixture(deployMultisigWalletFixture);
+
+      for (const getter of ["participants", "transactionLogs", "lastCycleContribution", "withdrawalTimestamps"]) {
+        expect(multisigWallet.interface.hasFunction(getter)).to.equal(false);
+      }
+    });
+
+    it("Should only return the caller's own record, next to public aggregates", async function () {
+      const { multisigWallet, otherAccount, thirdAccount, nonParticipant } = await loadFixture(deployWithParticipantsFixture);
+
+      expect((await multisigWallet.connect(otherAccount).getParticipant()).balance).to.equal(ethers.parseUnits("200", 6));
+      expect((await multisigWallet.connect(thirdAccount).getParticipant()).balance).to.equal(0);
+      expect((await multisigWallet.connect(nonParticipant).getParticipant()).participantAddress).to.equal(ethers.ZeroAddress);
+      expect(await multisigWallet.totalSavings()).to.equal(ethers.parseUnits("200", 6));
+
+      // Membership stays public
+      expect(await multisigWallet.isParticipant(otherAccount.address)).to.equal(true);
+      expect(await multisigWallet.isParticipant(nonParticipant.address)).to.equal(false);
+
+      await expect(multisigWallet.connect(nonParticipant).getContributionStatus())
+        .to.be.revertedWith("Participant does not exist");
+    });
+  });
+
+  describe("contribution cycles", function () {
+    // Gives `account` enough USDC for `amount` and approves the wallet to pull it
+    async function fund(mockUSDC: MockERC20, multisigWallet: MultisigWallet, account: HardhatEthersSigner, amount: bigint) {
+      await mockUSDC.transfer(account.address, amount);
+      await mockUSDC.connect(account).approve(multisigWallet.getAddress(), amount);
+    }
+
+    it("Should revert deposits from non-participants", async function () {
+      const { multisigWallet, nonParticipant, mockUSDC } = await loadFixture(deployWithParticipantsFixture);
+
+      await fund(mockUSDC, multisigWallet, nonParticipant, ethers.parseUnits("100", 6));
+      await expect(multisigWallet.connect(nonParticipant).depositToken(mockUSDC.getAddress(), ethers.parseUnits("100", 6)))
+        .to.be.revertedWith("Caller is not a participant");
+    });
+
+    it("Should report arrears across several cycles and record them once paid", async function () {
+      const { multisigWallet, thirdAccount, mockUSDC } = await loadFixture(deployWithParticipantsFixture);
+
+      let status = await multisigWallet.connect(thirdAccount).getContributionStatus();
+      expect(status.missedCycles).to.equal(0);
+      expect(status.requiredContribution).to.equal(ethers.parseUnits("100", 6));
+
+      await advanceDays(31);
+      status = await multisigWallet.connect(thirdAccount).getContributionStatus();
+      expect(status.missedCycles).to.equal(1);
+      expect(status.arrears).to.equal(ethers.parseUnits("100", 6));
+      expect(status.requiredContribution).to.equal(ethers.parseUnits("200", 6));
+
+      await advanceDays(30);
+      status = await multisigWallet.connect(thirdAccount).getContributionStatus();
+      expect(status.missedCycles).to.equal(2);
+      expect(status.requiredContribution).to.equal(ethers.parseUnits("300", 6));
+
+      await fund(mockUSDC, multisigWallet, thirdAccount, ethers.parseUnits("300", 6));
+      await expect(multisigWallet.connect(thirdAccount).depositToken(mockUSDC.getAddress(), ethers.parseUnits("250", 6)))
+        .to.be.revertedWith("Insufficient amount to cover missed contributions");
+      await multisigWallet.connect(thirdAccount).depositToken(mockUSDC.getAddress(), ethers.parseUnits("300", 6));
+
+      // The ledger keeps the two cycles that were made up late
+      expect((await multisigWallet.connect(thirdAccount).getParticipant()).missedContributions).to.equal(ethers.parseUnits("200", 6));
+      status = await multisigWallet.connect(thirdAccount).getContributionStatus();
+      expect(status.missedCycles).to.equal(0);
+      expect(status.arrears).to.equal(0);
+      expect(status.requiredContribution).to.equal(ethers.parseUnits("100", 6));
+    });
+
+    it("Should only count a cycle as missed after the grace period", async function () {
+      const { multisigWallet, thirdAccount } = await loadFixture(deployWithParticipantsFixture);
+
+      await queueChange(multisigWallet, "updateGracePeriod", 5 * 24 * 60 * 60);
+      await expect(multisigWallet.updateGracePeriod(5 * 24 * 60 * 60))
+        .to.emit(multisigWallet, "GracePeriodUpdated").withArgs(5 * 24 * 60 * 60);
+      const joined = (await multisigWallet.connect(thirdAccount).getParticipant()).lastContributionTimestamp;
+
+      // 33 days after joining, counting the timelock delay
+      await advanceDays(31);
+      let status = await multisigWallet.connect(thirdAccount).getContributionStatus();
+      expect(status.missedCycles).to.equal(0);
+      expect(status.nextDueTimestamp).to.equal(joined + BigInt(35 * 24 * 60 * 60));
+
+      await advanceDays(3);
+      status = await multisigWallet.connect(thirdAccount).getContributionStatus();
+      expect(status.missedCycles).to.equal(1);
+      expect(status.nextDueTimestamp).to.equal(joined + BigInt(65 * 24 * 60 * 60));
+    });
+
+    it("Should charge the late penalty on arrears and route it to the fee reserve", async function () {
+      const { multisigWallet, thirdAccount, mockUSDC } = await loadFixture(deployWithParticipantsFixture);
+
+      await queueChange(multisigWallet, "updateLatePenaltyRate", 10);
+      await multisigWallet.updateLatePenaltyRate(10);
+      await advanceDays(29);
+
+      const status = await multisigWallet.connect(thirdAccount).getContributionStatus();
+      expect(status.penalty).to.equal(ethers.parseUnits("10", 6));
+      expect(status.requiredContribution).to.equal(ethers.parseUnits("210", 6));
+
+      await fund(mockUSDC, multisigWallet, thirdAccount, ethers.parseUnits("210", 6));
+      await expect(multisigWallet.connect(thirdAccount).depositToken(mockUSDC.getAddress(), ethers.parseUnits("200", 6)))
+        .to.be.revertedWith("Insufficient amount to cover missed contributions");
+      await expect(multisigWallet.connect(thirdAccount).depositToken(mockUSDC.getAddress(), ethers.parseUnits("210", 6)))
+        .to.emit(multisigWallet, "ContributionMade").withArgs(thirdAccount.address, ethers.parseUnits("200", 6));
+
+      expect(await multisigWallet.connect(thirdAccount).checkBalance()).to.equal(ethers.parseUnits("200", 6));
+      expect(await multisigWallet.feeReserve()).to.equal(ethers.parseUnits("10", 6));
+
+      const [log] = await multisigWallet.connect(thirdAccount).getTransactionLogs(0, 1);
+      expect(log.amount).to.equal(ethers.parseUnits("200", 6));
+      expect(log.fee).to.equal(ethers.parseUnits("10", 6));
+    });
+
+    it("Should not let a contribution drop below the previous cycle's", async function () {
+      const { multisigWallet, otherAccount, mockUSDC } = await loadFixture(deployWithParticipantsFixture);
+
+      // otherAccount paid 200 against the 100 required in the fixture; the extra does not raise later cycles
+      expect((await multisigWallet.connect(otherAccount).getParticipant()).lastCycleContribution).to.equal(ethers.parseUnits("100", 6));
+      expect((await multisigWallet.connect(otherAccount).getContributionStatus()).requiredContribution).to.equal(ethers.parseUnits("100", 6));
+
+      // Lowering the fixed contribution does not lower it below what the member contributed last cycle
+      await multisigWallet.queueParameterChange(multisigWallet.interface.getFunction("updateMonthlyContribution").selector, ethers.parseUnits("60", 6));
+      await advanceDays(2);
+      await multisigWallet.updateMonthlyContribution(ethers.parseUnits("60", 6));
+
+      await fund(mockUSDC, multisigWallet, otherAccount, ethers.parseUnits("100", 6));
+      await expect(multisigWallet.connect(otherAccount).depositToken(mockUSDC.getAddress(), ethers.parseUnits("60", 6)))
+        .to.be.revertedWith("Insufficient amount to cover missed contributions");
+      await multisigWallet.connect(otherAccount).depositToken(mockUSDC.getAddress(), ethers.parseUnits("100", 6));
+      expect((await multisigWallet.connect(otherAccount).getContributionStatus()).requiredContribution).to.equal(ethers.parseUnits("100", 6));
+    });
+
+    it("Should not settle missed cycles with a swap top-up", async function () {
+      const { multisigWallet, thirdAccount, mockDAI } = await loadFixture(deployWithParticipantsFixture);
+
+      await advanceDays(31);
+      await mockDAI.transfer(thirdAccount.address, ethers.parseUnits("50", 18));
+      await mockDAI.connect(thirdAccount).approve(multisigWallet.getAddress(), ethers.parseUnits("50", 18));
+      await multisigWallet.connect(thirdAccount).swapToken(mockDAI.getAddress(), ethers.parseUnits("50", 18));
+
+      expect((await multisigWallet.connect(thirdAccount).getContributionStatus()).missedCycles).to.equal(1);
+    });
+
+    it("Should validate the grace period and penalty rate", async function () {
+      const { multisigWallet, otherAccount } = await loadFixture(deployWithParticipantsFixture);
+
+      await multisigWallet.queueParameterChange(multisigWallet.interface.getFunction("updateGracePeriod").selector, 30 * 24 * 60 * 60);
+      await queueChange(multisigWallet, "updateLatePenaltyRate", 21);
+
+      await expect(multisigWallet.updateGracePeriod(30 * 24 * 60 * 60))
+        .to.be.revertedWith("Grace period must be shorter than a cycle");
+      await expect(multisigWallet.updateLatePenaltyRate(21))
+        .to.be.revertedWith("Penalty exceeds the maximum");
+      await expect(multisigWallet.connect(otherAccount).updateLatePenaltyRate(5))
+        .to.be.revertedWithCustomError(multisigWallet, "OwnableUnauthorizedAccount");
+    });
+  });
+
+  describe("pause", function () {
+    it("Should let the guardian pause deposits, swaps and investments", async function () {
+      const { multisigWallet, admin, otherAccount, nonParticipant, mockUSDC, mockDAI } = await loadFixture(deployWithParticipantsFixture);
+
+      await expect(multisigWallet.setGuardian(nonParticipant.address))
+        .to.emit(multisigWallet, "GuardianUpdated").withArgs(nonParticipant.address);
+      await expect(multisigWallet.connect(nonParticipant).pause())
+        .to.emit(multisigWallet, "Paused").withArgs(nonParticipant.address);
+      expect(await multisigWallet.active()).to.equal(false);
+
+      await mockUSDC.approve(multisigWallet.getAddress(), ethers.parseUnits("100", 6));
+      await expect(multisigWallet.connect(admin).depositToken(mockUSDC.getAddress(), ethers.parseUnits("100", 6)))
+        .to.be.revertedWith("Contract is not active");
+      await expect(multisigWallet.connect(admin).swapToken(mockDAI.getAddress(), ethers.parseUnits("100", 18)))
+        .to.be.revertedWith("Contract is not active");
+      await expect(multisigWallet.connect(otherAccount).invest())
+        .to.be.revertedWith("Contract is not active");
+
+      await expect(multisigWallet.connect(nonParticipant).unpause())
+        .to.emit(multisigWallet, "Unpaused").withArgs(nonParticipant.address);
+      await multisigWallet.connect(admin).depositToken(mockUSDC.getAddress(), ethers.parseUnits("100", 6));
+    });
+
+    it("Should still allow emergency withdrawals while paused", async function () {
+      const { multisigWallet, otherAccount, thirdAccount, mockUSDC } = await loadFixture(deployWithParticipantsFixture);
+
+      await investByVote(multisigWallet, otherAccount, thirdAccount);
+      await multisigWallet.pause();
+
+      await expect(multisigWallet.connect(otherAccount).emergencyWithdraw())
+        .to.emit(multisigWallet, "EmergencyWithdrawal");
+      expect(await mockUSDC.balanceOf(otherAccount.address)).to.equal(ethers.parseUnits("180", 6));
+    });
+
+    it("Should revert if anyone but the guardian or owner pauses", async function () {
+      const { multisigWallet, otherAccount } = await loadFixture(deployWithParticipantsFixture);
+
+      await expect(multisigWallet.connect(otherAccount).pause())
+        .to.be.revertedWith("Caller is not the guardian");
+      await expect(multisigWallet.connect(otherAccount).unpause())
+        .to.be.revertedWith("Caller is not the guardian");
+    });
+  });
+
+  describe("parameter timelock", function () {
+    function selectorOf(multisigWallet: MultisigWallet, name: "updateInterestRate" | "updateWithdrawalFee" | "updateEmergencyWithdrawalFee" | "updateMonthlyContribution" | "updateGracePeriod" | "updateLatePenaltyRate" | "setMaxOracleDeviation" | "setGuardian") {
+      return multisigWallet.interface.getFunction(name).selector;
+    }
+
+    it("Should only apply a parameter change after it has been queued for the delay", async function () {
+      const { multisigWallet } = await loadFixture(deployWithParticipantsFixture);
+      const selector = await selectorOf(multisigWallet, "updateWithdrawalFee");
+
+      await expect(multisigWallet.updateWithdrawalFee(8))
+        .to.be.revertedWith("Change is not queued");
+
+      await expect(multisigWallet.queueParameterChange(selector, 8))
+        .to.emit(multisigWallet, "ParameterChangeQueued");
+      await expect(multisigWallet.updateWithdrawalFee(8))
+        .to.be.revertedWith("Timelock has not expired");
+
+      await advanceDays(2);
+      await expect(multisigWallet.updateWithdrawalFee(8))
+        .to.emit(multisigWallet, "WithdrawalFeeUpdated").withArgs(8);
+      expect(await multisigWallet.withdrawalFee()).to.equal(8);
+
+      // A queued change applies only once
+      await expect(multisigWallet.updateWithdrawalFee(8))
+        .to.be.revertedWith("Change is not queued");
+    });
+
+    it("Should only apply the queued value", async function () {
+      const { multisigWallet } = await loadFixture(deployWithParticipantsFixture);
+
+      await multisigWallet.queueParameterChange(await selectorOf(multisigWallet, "updateInterestRate"), 20);
+      await advanceDays(2);
+
+      await expect(multisigWallet.updateInterestRate(25))
+        .to.be.revertedWith("Change is not queued");
+      await multisigWallet.updateInterestRate(20);
+      expect(await multisigWallet.monthlyInterestRate()).to.equal(20);
+    });
+
+    it("Should enforce the bounds on each parameter", async function () {
+      const { multisigWallet } = await loadFixture(deployWithParticipantsFixture);
+
+      await multisigWallet.queueParameterChange(await selectorOf(multisigWallet, "updateWithdrawalFee"), 21);
+      await multisigWallet.queueParameterChange(await selectorOf(multisigWallet, "updateEmergencyWithdrawalFee"), 31);
+      await multisigWallet.queueParameterChange(await selectorOf(multisigWallet, "updateInterestRate"), 51);
+      await multisigWallet.queueParameterChange(await selectorOf(multisigWallet, "updateMonthlyContribution"), ethers.parseUnits("201", 6));
+      await multisigWallet.queueParameterChange(await selectorOf(multisigWallet, "updateMonthlyContribution"), ethers.parseUnits("49", 6));
+      await multisigWallet.queueParameterChange(await selectorOf(multisigWallet, "updateMonthlyContribution"), ethers.parseUnits("200", 6));
+      await advanceDays(2);
+
+      await expect(multisigWallet.updateWithdrawalFee(21)).to.be.revertedWith("Fee exceeds the maximum");
+      await expect(multisigWallet.updateEmergencyWithdrawalFee(31)).to.be.revertedWith("Fee exceeds the maximum");
+      await expect(multisigWallet.updateInterestRate(51)).to.be.revertedWith("Interest rate exceeds the maximum");
+      await expect(multisigWallet.updateMonthlyContribution(ethers.parseUnits("201", 6))).to.be.revertedWith("Contribution change out of range");
+      await expect(multisigWallet.updateMonthlyContribution(ethers.parseUnits("49", 6))).to.be.revertedWith("Contribution change out of range");
+
+      await multisigWallet.updateMonthlyContribution(ethers.parseUnits("200", 6));
+      expect(await multisigWallet.fixedMonthlyContribution()).to.equal(ethers.parseUnits("200", 6));
+    });
+
+    it("Should timelock the late payment terms and the oracle, swap and holding settings", async function () {
+      const { multisigWallet, mockDAI, mockUSDC } = await loadFixture(deployWithParticipantsFixture);
+      const daiAddress = await mockDAI.getAddress();
+      const path = [daiAddress, await mockUSDC.getAddress()];
+
+      await expect(multisigWallet.updateGracePeriod(1)).to.be.revertedWith("Change is not queued");
+      await expect(multisigWallet.updateLatePenaltyRate(1)).to.be.revertedWith("Change is not queued");
+      await expect(multisigWallet.setMaxOracleDeviation(1)).to.be.revertedWith("Change is not queued");
+      await expect(multisigWallet.setPriceOracle(daiAddress)).to.be.revertedWith("Change is not queued");
+      await expect(multisigWallet.setSwapRoute(daiAddress, path)).to.be.revertedWith("Change is not queued");
+      await expect(multisigWallet.setTokenHolding(daiAddress, false)).to.be.revertedWith("Change is not queued");
+
+      // Settings with several arguments are queued under the hash of the arguments
+      await queueChange(multisigWallet, "setSwapRoute", swapRouteChangeValue(daiAddress, path));
+      await expect(multisigWallet.setSwapRoute(daiAddress, [daiAddress, daiAddress, path[1]]))
+        .to.be.revertedWith("Change is not queued");
+      await multisigWallet.setSwapRoute(daiAddress, path);
+      expect(await multisigWallet.getSwapRoute(daiAddress)).to.deep.equal(path);
+    });
+
+    it("Should let the owner cancel a queued change", async function () {
+      const { multisigWallet } = await loadFixture(deployWithParticipantsFixture);
+      const selector = await selectorOf(multisigWallet, "updateWithdrawalFee");
+
+      await multisigWallet.queueParameterChange(selector, 8);
+      await expect(multisigWallet.cancelParameterChange(selector, 8))
+        .to.emit(multisigWallet, "ParameterChangeCancelled").withArgs(await multisigWallet.getChangeId(selector, 8));
+
+      await advanceDays(2);
+      await expect(multisigWallet.updateWithdrawalFee(8)).to.be.revertedWith("Change is not queued");
+      await expect(multisigWallet.cancelParameterChange(selector, 8)).to.be.revertedWith("Change is not queued");
+    });
+
+    it("Should revert queueing parameters that are not timelocked, or by non-owners", async function () {
+      const { multisigWallet, otherAccount } = await loadFixture(deployWithParticipantsFixture);
+
+      await expect(multisigWallet.queueParameterChange(await selectorOf(multisigWallet, "setGuardian"), 1))
+        .to.be.revertedWith("Parameter is not timelocked");
+      await expect(multisigWallet.connect(otherAccount).queueParameterChange(await selectorOf(multisigWallet, "updateWithdrawalFee"), 8))
+        .to.be.revertedWithCustomError(multisigWallet, "OwnableUnauthorizedAccount");
+    });
+  });
+
+  describe("ownership", function () {
+    // Proposal type for ownership transfers, mirroring the ProposalType enum in the contract
+    const OwnershipTransfer = 8;
+
+    it("Should only transfer ownership once participants approve it", async function () {
+      const { multisigWallet, admin, otherAccount, nonParticipant } = await loadFixture(deployWithParticipantsFixture);
+
+      // The owner's request opens a proposal instead of transferring right away
+      await expect(multisigWallet.transferOwnership(nonParticipant.address))
+        .to.emit(multisigWallet, "ProposalCreated").withArgs(0, OwnershipTransfer, admin.address, nonParticipant.address, 0, anyValue);
+      expect(await multisigWallet.owner()).to.equal(admin.address);
+
+      await expect(multisigWallet.connect(otherAccount).vote(0))
+        .to.emit(multisigWallet, "OwnershipTransferred").withArgs(admin.address, nonParticipant.address);
+      expect(await multisigWallet.owner()).to.equal(nonParticipant.address);
+    });
+
+    it("Should let participants propose a new owner", async function () {
+      const { multisigWallet, otherAccount, thirdAccount, nonParticipant } = await loadFixture(deployWithParticipantsFixture);
+
+      await multisigWallet.connect(otherAccount).createProposal(OwnershipTransfer, nonParticipant.address, 0);
+      await multisigWallet.connect(thirdAccount).vote(0);
+      expect(await multisigWallet.owner()).to.equal(nonParticipant.address);
+
+      await expect(multisigWallet.connect(otherAccount).createProposal(OwnershipTransfer, ethers.ZeroAddress, 0))
+        .to.be.revertedWith("Invalid owner address");
+    });
+
+    it("Should not allow renouncing ownership", async function () {
+      const { multisigWallet, otherAccount } = await loadFixture(deployWithParticipantsFixture);
+
+      await expect(multisigWallet.renounceOwnership())
+        .to.be.revertedWith("Ownership can only be transferred by vote");
+      await expect(multisigWallet.connect(otherAccount).transferOwnership(otherAccount.address))
+        .to.be.revertedWithCustomError(multisigWallet, "OwnableUnauthorizedAccount");
+    });
+  });
+
+  describe("participant lifecycle", function () {
+    // Proposal types for removals, exits and replacements, mirroring the ProposalType enum in the contract
+    const FeeChange = 1;
+    const RemoveParticipant = 7;
+    const ReplaceParticipant = 9;
+
+    it("Should only accept deposits and swaps once the group has 3 participants", async function () {
+      const { multisigWallet, admin, otherAccount, mockUSDC, mockDAI } = await loadFixture(deployMultisigWalletFixture);
+
+      await multisigWallet.addParticipant(admin.address);
+      await multisigWallet.addParticipant(otherAccount.address);
+      await mockUSDC.approve(multisigWallet.getAddress(), ethers.parseUnits("100", 6));
+
+      await expect(multisigWallet.depositToken(mockUSDC.getAddress(), ethers.parseUnits("100", 6)))
+        .to.be.revertedWith("Wallet needs at least 3 participants");
+      await expect(multisigWallet.swapToken(mockDAI.getAddress(), ethers.parseUnits("100", 18)))
+        .to.be.revertedWith("Wallet needs at least 3 participants");
+
+      const [, , thirdAccount] = await hre.ethers.getSigners();
+      await multisigWallet.addParticipant(thirdAccount.address);
+      await multisigWallet.depositToken(mockUSDC.getAddress(), ethers.parseUnits("100", 6));
+      expect(await multisigWallet.checkBalance()).to.equal(ethers.parseUnits("100", 6));
+    });
+
+    it("Should remove a participant by vote and settle their balance, including a locked investment share", async function () {
+      const { multisigWallet, admin, otherAccount, thirdAccount, mockUSDC } = await loadFixture(deployWithParticipantsFixture);
+
+      // Half of otherAccount's 200 USDC is locked in the investment
+      await investByVote(multisigWallet, otherAccount, thirdAccount);
+
+      await multisigWallet.connect(admin).createProposal(RemoveParticipant, otherAccount.address, 0);
+      await expect(multisigWallet.connect(thirdAccount).vote(1))
+        .to.emit(multisigWallet, "ParticipantRemoved").withArgs(otherAccount.address, ethers.parseUnits("200", 6));
+
+      // A member voted out pays no fee, even on a locked share, so the others gain nothing from the removal
+      expect(await mockUSDC.balanceOf(otherAccount.address)).to.equal(ethers.parseUnits("200", 6));
+      expect(await multisigWallet.feeReserve()).to.equal(0);
+      expect(await multisigWallet.totalSavings()).to.equal(0);
+      expect(await multisigWallet.investmentBalance()).to.equal(0);
+      expect(await multisigWallet.isParticipant(otherAccount.address)).to.equal(false);
+
+      const [log] = await multisigWallet.connect(otherAccount).getTransactionLogs(2, 1);
+      expect(log.transactionType).to.equal(7);
+      expect(log.amount).to.equal(ethers.parseUnits("200", 6));
+      expect(log.fee).to.equal(0);
+
+      // The removed member can no longer take part
+      await expect(multisigWallet.connect(otherAccount).requestWithdrawal(1))
+        .to.be.revertedWith("Caller is not a participant");
+    });
+
+    it("Should let a participant exit voluntarily once the group approves", async function () {
+      const { multisigWallet, admin, otherAccount, mockUSDC } = await loadFixture(deployWithParticipantsFixture);
+
+      // The initiator's own vote counts towards quorum
+      await expect(multisigWallet.connect(otherAccount).proposeExit())
+        .to.emit(multisigWallet, "ProposalCreated").withArgs(0, RemoveParticipant, otherAccount.address, otherAccount.address, 0, anyValue);
+      await multisigWallet.connect(admin).vote(0);
+
+      // Nothing is locked and no regular withdrawal was made, so the standard 5% fee applies
+      expect(await mockUSDC.balanceOf(otherAccount.address)).to.equal(ethers.parseUnits("190", 6));
+      expect(await multisigWallet.totalParticipants()).to.equal(2);
+    });
+
+    it("Should charge the emergency fee on leaving within 6 months of a withdrawal", async function () {
+      const { multisigWallet, admin, otherAccount, thirdAccount, mockUSDC } = await loadFixture(deployWithParticipantsFixture);
+
+      await multisigWallet.connect(otherAccount).requestWithdrawal(ethers.parseUnits("100", 6));
+      await multisigWallet.connect(admin).approveWithdrawal(1);
+      await multisigWallet.connect(thirdAccount).approveWithdrawal(1);
+      await multisigWallet.connect(otherAccount).withdraw(ethers.parseUnits("100", 6));
+
+      await multisigWallet.connect(otherAccount).proposeExit();
+      await multisigWallet.connect(admin).vote(0);
+
+      // 95 from the withdrawal, then 90 of the remaining 100
+      expect(await mockUSDC.balanceOf(otherAccount.address)).to.equal(ethers.parseUnits("185", 6));
+    });
+
+    it("Should stop counting the votes of members who have left", async function () {
+      const { multisigWallet, admin, otherAccount, thirdAccount, nonParticipant } = await loadFixture(deployWithParticipantsFixture);
+      await multisigWallet.addParticipant(nonParticipant.address);
+
+      // otherAccount votes for a fee change, then leaves; quorum drops to 2 of the 3 remaining members
+      await multisigWallet.connect(otherAccount).createProposal(FeeChange, ethers.ZeroAddress, 3);
+      await multisigWallet.connect(otherAccount).proposeExit();
+      await multisigWallet.connect(admin).vote(1);
+      await multisigWallet.connect(thirdAccount).vote(1);
+      expect(await multisigWallet.quorum()).to.equal(2);
+
+      // admin's vote is the only one that counts, so the change does not pass yet
+      await multisigWallet.connect(admin).vote(0);
+      expect((await multisigWallet.proposals(0)).voteCount).to.equal(1);
+      expect(await multisigWallet.withdrawalFee()).to.equal(5);
+
+      await multisigWallet.connect(thirdAccount).vote(0);
+      expect(await multisigWallet.withdrawalFee()).to.equal(3);
+    });
+
+    it("Should stop counting the withdrawal approvals of members who have left", async function () {
+      const { multisigWallet, admin, otherAccount, thirdAccount, nonParticipant } = await loadFixture(deployWithParticipantsFixture);
+      await multisigWallet.addParticipant(nonParticipant.address);
+
+      await multisigWallet.connect(otherAccount).requestWithdrawal(ethers.parseUnits("100", 6));
+      await multisigWallet.connect(nonParticipant).approveWithdrawal(1);
+      await multisigWallet.connect(admin).approveWithdrawal(1);
+
+      // nonParticipant leaves; of the two approvals needed from the others, only admin's still counts
+      await multisigWallet.connect(nonParticipant).proposeExit();
+      await multisigWallet.connect(admin).vote(0);
+      await multisigWallet.connect(thirdAccount).vote(0);
+
+      await expect(multisigWallet.connect(otherAccount).withdraw(ethers.parseUnits("100", 6)))
+        .to.be.revertedWith("Quorum approval not met");
+      await multisigWallet.connect(thirdAccount).approveWithdrawal(1);
+      expect((await multisigWallet.withdrawalRequests(1)).approvedCount).to.equal(2);
+      await expect(multisigWallet.connect(otherAccount).withdraw(ethers.parseUnits("100", 6)))
+        .to.emit(multisigWallet, "WithdrawalMade");
+    });
+
+    it("Should not restore the votes and approvals of a member who rejoins", async function () {
+      const { multisigWallet, admin, otherAccount, thirdAccount, nonParticipant } = await loadFixture(deployWithParticipantsFixture);
+      await multisigWallet.addParticipant(nonParticipant.address);
+
+      // nonParticipant votes for a fee change and approves otherAccount's withdrawal, then leaves
+      await multisigWallet.connect(otherAccount).createProposal(FeeChange, ethers.ZeroAddress, 3);
+      await multisigWallet.connect(nonParticipant).vote(0);
+      await multisigWallet.connect(otherAccount).requestWithdrawal(ethers.parseUnits("100", 6));
+      await multisigWallet.connect(nonParticipant).approveWithdrawal(1);
+      await multisigWallet.connect(nonParticipant).proposeExit();
+      await multisigWallet.connect(admin).vote(1);
+      await multisigWallet.connect(thirdAccount).vote(1);
+
+      // Rejoining starts a new membership, which has neither voted nor approved
+      await multisigWallet.addParticipant(nonParticipant.address);
+      expect(await multisigWallet.hasApprovedWithdrawal(1, nonParticipant.address)).to.equal(false);
+      await expect(multisigWallet.connect(nonParticipant).vote(0))
+        .to.emit(multisigWallet, "VoteCast").withArgs(0, nonParticipant.address, 2);
+      expect(await multisigWallet.withdrawalFee()).to.equal(5);
+
+      await multisigWallet.connect(nonParticipant).approveWithdrawal(1);
+      expect((await multisigWallet.withdrawalRequests(1)).approvedCount).to.equal(1);
+    });
+
+    it("Should replace a participant by vote", async function () {
+      const { multisigWallet, admin, otherAccount, thirdAccount, nonParticipant, mockUSDC } = await loadFixture(deployWithParticipantsFixture);
+
+      await expect(multisigWallet.connect(admin).proposeReplacement(otherAccount.address, thirdAccount.address))
+        .to.be.revertedWith("Participant already exists");
+      await expect(multisigWallet.connect(admin).proposeReplacement(nonParticipant.address, otherAccount.address))
+        .to.be.revertedWith("Participant does not exist");
+      await expect(multisigWallet.connect(admin).proposeReplacement(otherAccount.address, ethers.ZeroAddress))
+        .to.be.revertedWith("Invalid participant address");
+
+      await expect(multisigWallet.connect(admin).proposeReplacement(otherAccount.address, nonParticipant.address))
+        .to.emit(multisigWallet, "ProposalCreated")
+        .withArgs(0, ReplaceParticipant, admin.address, otherAccount.address, BigInt(nonParticipant.address), anyValue);
+      await expect(multisigWallet.connect(thirdAccount).vote(0))
+        .to.emit(multisigWallet, "ParticipantRemoved").withArgs(otherAccount.address, ethers.parseUnits("200", 6))
+        .and.to.emit(multisigWallet, "ParticipantAdded");
+
+      // The leaver is settled in full like any other forced removal and the group keeps its size
+      expect(await mockUSDC.balanceOf(otherAccount.address)).to.equal(ethers.parseUnits("200", 6));
+      expect(await multisigWallet.isParticipant(otherAccount.address)).to.equal(false);
+      expect(await multisigWallet.isParticipant(nonParticipant.address)).to.equal(true);
+      expect(await multisigWallet.totalParticipants()).to.equal(3);
+      expect(await multisigWallet.quorum()).to.equal(2);
+    });
+
+    it("Should keep participantAddresses compact and update counts and quorum", async function () {
+      const { multisigWallet, admin, otherAccount, thirdAccount, nonParticipant } = await loadFixture(deployWithParticipantsFixture);
+
+      await multisigWallet.addParticipant(nonParticipant.address);
+      expect(await multisigWallet.quorum()).to.equal(3);
+
+      // Remove admin, the first entry; the last entry takes its slot
+      await multisigWallet.connect(otherAccount).createProposal(RemoveParticipant, admin.address, 0);
+      await multisigWallet.connect(thirdAccount).vote(0);
+      await multisigWallet.connect(nonParticipant).vote(0);
+
+      expect(await multisigWallet.totalParticipants()).to.equal(3);
+      expect(await multisigWallet.participantCount()).to.equal(3);
+      expect(await multisigWallet.quorum()).to.equal(2);
+      expect(await multisigWallet.participantAddresses(0)).to.equal(nonParticipant.address);
+      expect(await multisigWallet.participantAddresses(1)).to.equal(otherAccount.address);
+      expect(await multisigWallet.participantAddresses(2)).to.equal(thirdAccount.address);
+      await expect(multisigWallet.participantAddresses(3)).to.be.reverted;
+
+      // A replacement takes the free slot at the end
+      await multisigWallet.addParticipant(admin.address);
+      expect(await multisigWallet.participantAddresses(3)).to.equal(admin.address);
+      expect(await multisigWallet.totalParticipants()).to.equal(4);
+    });
+
+    it("Should base the withdrawal quorum on the current group size", async function () {
+      const { multisigWallet, admin, otherAccount, thirdAccount, nonParticipant } = await loadFixture(deployWithParticipantsFixture);
+
+      await multisigWallet.addParticipant(nonParticipant.address);
+      await multisigWallet.connect(otherAccount).createProposal(RemoveParticipant, nonParticipant.address, 0);
+      await multisigWallet.connect(admin).vote(0);
+      await multisigWallet.connect(thirdAccount).vote(0);
+
+      // Back to three members, two approvals are enough
+      await multisigWallet.connect(otherAccount).requestWithdrawal(ethers.parseUnits("100", 6));
+      await multisigWallet.connect(admin).approveWithdrawal(1);
+      await expect(multisigWallet.connect(otherAccount).withdraw(ethers.parseUnits("100", 6)))
+        .to.be.revertedWith("Quorum approval not met");
+      await multisigWallet.connect(thirdAccount).approveWithdrawal(1);
+      await expect(multisigWallet.connect(otherAccount).withdraw(ethers.parseUnits("100", 6)))
+        .to.emit(multisigWallet, "WithdrawalMade");
+    });
+
+    it("Should drop the leaver's open withdrawal request", async function () {
+      const { multisigWallet, admin, otherAccount, thirdAccount } = await loadFixture(deployWithParticipantsFixture);
+
+      await multisigWallet.connect(otherAccount).requestWithdrawal(ethers.parseUnits("100", 6));
+      await multisigWallet.connect(admin).createProposal(RemoveParticipant, otherAccount.address, 0);
+      await multisigWallet.connect(thirdAccount).vote(0);
+
+      expect(await multisigWallet.activeWithdrawalRequest(otherAccount.address)).to.equal(0);
+      await expect(multisigWallet.connect(admin).approveWithdrawal(1))
+        .to.be.revertedWith("Withdrawal request is no longer active");
+    });
+
+    it("Should revert removal proposals for non-participants", async function () {
+      const { multisigWallet, admin, nonParticipant } = await loadFixture(deployWithParticipantsFixture);
+
+      await expect(multisigWallet.connect(admin).createProposal(RemoveParticipant, nonParticipant.address, 0))
+        .to.be.revertedWith("Participant does not exist");
+    });
+  });
+
+  describe("solvency", function () {
+    // otherAccount's 200 USDC is half invested in a mock vault
+    async function deployInvestedInVaultFixture() {
+      const base = await deployWithParticipantsFixture();
+      const { multisigWallet, otherAccount, thirdAccount, mockUSDC } = base;
+
+      const MockYieldVault = await hre.ethers.getContractFactory("MockYieldVault");
+      const vault = await MockYieldVault.deploy(mockUSDC.getAddress());
+      await multisigWallet.proposeStrategyChange(vault.getAddress());
+      await multisigWallet.connect(otherAccount).vote(0);
+      await investByVote(multisigWallet, otherAccount, thirdAccount);
+
+      return { ...base, vault };
+    }
+
+    it("Should report assets against balances, fees and pending yield", async function () {
+      const { multisigWallet, otherAccount, mockUSDC, vault } = await loadFixture(deployInvestedInVaultFixture);
+
+      let report = await multisigWallet.solvencyReport();
+      expect(report.liquidAssets).to.equal(ethers.parseUnits("100", 6));
+      expect(report.investedAssets).to.equal(ethers.parseUnits("100", 6));
+      expect(report.liabilities).to.equal(ethers.parseUnits("200", 6));
+      expect(report.solvent).to.equal(true);
+
+      // Unharvested yield is a surplus until it is harvested, then it is owed to the investors
+      await mockUSDC.approve(vault.getAddress(), ethers.parseUnits("30", 6));
+      await vault.accrueYield(ethers.parseUnits("30", 6));
+      // Allow for vault share rounding
+      expect((await multisigWallet.solvencyReport()).investedAssets).to.be.closeTo(ethers.parseUnits("130", 6), 1);
+
+      await advanceDays(30);
+      await multisigWallet.distributeInterest(10);
+      report = await multisigWallet.solvencyReport();
+      expect(report.liquidAssets + report.investedAssets).to.be.greaterThanOrEqual(report.liabilities);
+      expect(report.liabilities).to.equal(await multisigWallet.totalSavings() + (await multisigWallet.interestRound()).undistributedYield);
+
+      // The fee of a withdrawal stays in the wallet as a liability
+      await multisigWallet.connect(otherAccount).emergencyWithdraw();
+      report = await multisigWallet.solvencyReport();
+      expect(report.liabilities).to.equal(await multisigWallet.feeReserve() + (await multisigWallet.interestRound()).undistributedYield);
+      expect(report.solvent).to.equal(true);
+    });
+
+    it("Should refuse payouts while the wallet is under water", async function () {
+      const { multisigWallet, thirdAccount, mockUSDC, vault } = await loadFixture(deployInvestedInVaultFixture);
+
+      await mockUSDC.transfer(thirdAccount.address, ethers.parseUnits("100", 6));
+      await mockUSDC.connect(thirdAccount).approve(multisigWallet.getAddress(), ethers.parseUnits("100", 6));
+      await multisigWallet.connect(thirdAccount).depositToken(mockUSDC.getAddress(), ethers.parseUnits("100", 6));
+
+      // The vault loses 60 of the 100 invested, so the wallet holds 240 against 300 owed
+      await vault.simulateLoss(ethers.parseUnits("60", 6));
+      const report = await multisigWallet.solvencyReport();
+      expect(report.liquidAssets + report.investedAssets).to.equal(ethers.parseUnits("240", 6));
+      expect(report.solvent).to.equal(false);
+
+      // Paying thirdAccount in full would leave the others to absorb the whole loss
+      await expect(multisigWallet.connect(thirdAccount).emergencyWithdraw())
+        .to.be.revertedWith("Payout would deepen the wallet's shortfall");
+
+      // Payouts resume once the loss is covered
+      await mockUSDC.transfer(multisigWallet.getAddress(), ethers.parseUnits("60", 6));
+      await expect(multisigWallet.connect(thirdAccount).emergencyWithdraw()).not.to.be.reverted;
+      expect((await multisigWallet.solvencyReport()).solvent).to.equal(true);
+    });
+  });
+
+  describe("fees", function () {
+    const FeePolicyChange = 6;
+    const Redistribute = 0;
+    const Treasury = 1;
+
+    it("Should update the emergency withdrawal fee", async function () {
+      const { multisigWallet, otherAccount } = await loadFixture(deployMultisigWalletFixture);
+      const selector = multisigWallet.interface.getFunction("updateEmergencyWithdrawalFee").selector;
+
+      await expect(multisigWallet.updateEmergencyWithdrawalFee(12))
+        .to.be.revertedWith("Change is not queued");
+      await multisigWallet.queueParameterChange(selector, 12);
+      await advanceDays(2);
+      await expect(multisigWallet.updateEmergencyWithdrawalFee(12))
+        .to.emit(multisigWallet, "EmergencyWithdrawalFeeUpdated").withArgs(12);
+      expect(await multisigWallet.emergencyWithdrawalFee()).to.equal(12);
+
+      await expect(multisigWallet.connect(otherAccount).updateEmergencyWithdrawalFee(5))
+        .to.be.revertedWithCustomError(multisigWallet, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should track collected fees in the reserve", async function () {
+      const { multisigWallet, otherAccount, mockUSDC } = await loadFixture(deployWithParticipantsFixture);
+
+      await multisigWallet.connect(otherAccount).emergencyWithdraw();
+
+      expect(await multisigWallet.feeReserve()).to.equal(ethers.parseUnits("20", 6));
+      expect(await mockUSDC.balanceOf(multisigWallet.getAddress())).to.equal(ethers.parseUnits("20", 6));
+      await expect(multisigWallet.distributeFees()).to.be.revertedWith("No participant balances to share fees with");
+    });
+
+    it("Should redistribute fees pro rata to the remaining participants", async function () {
+      const { multisigWallet, admin, otherAccount, thirdAccount, mockUSDC } = await loadFixture(deployWithParticipantsFixture);
+
+      // admin saves 300 and thirdAccount 100 next to otherAccount's 200
+      await mockUSDC.approve(multisigWallet.getAddress(), ethers.parseUnits("300", 6));
+      await multisigWallet.connect(admin).depositToken(mockUSDC.getAddress(), ethers.parseUnits("300", 6));
+      await mockUSDC.transfer(thirdAccount.address, ethers.parseUnits("100", 6));
+      await mockUSDC.connect(thirdAccount).approve(multisigWallet.getAddress(), ethers.parseUnits("100", 6));
+      await multisigWallet.connect(thirdAccount).depositToken(mockUSDC.getAddress(), ethers.parseUnits("100", 6));
+
+      // otherAccount leaves, paying a 20 USDC fee
+      await multisigWallet.connect(otherAccount).emergencyWithdraw();
+      expect(await multisigWallet.feePolicy()).to.equal(Redistribute);
+
+      await expect(multisigWallet.connect(otherAccount).distributeFees())
+        .to.emit(multisigWallet, "FeesDistributed").withArgs(ethers.parseUnits("20", 6));
+
+      expect(await multisigWallet.connect(admin).checkBalance()).to.equal(ethers.parseUnits("315", 6));
+      expect(await multisigWallet.connect(thirdAccount).checkBalance()).to.equal(ethers.parseUnits("105", 6));
+      expect(await multisigWallet.feeReserve()).to.equal(0);
+      expect(await multisigWallet.totalSavings()).to.equal(ethers.parseUnits("420", 6));
+
+      const [log] = await multisigWallet.connect(thirdAccount).getTransactionLogs(1, 1);
+      expect(log.transactionType).to.equal(6);
+      expect(log.amount).to.equal(ethers.parseUnits("5", 6));
+
+      await expect(multisigWallet.distributeFees()).to.be.revertedWith("No fees to distribute");
+    });
+
+    it("Should send fees to the treasury once participants vote for it", async function () {
+      const { multisigWallet, admin, otherAccount, thirdAccount, nonParticipant, mockUSDC } = await loadFixture(deployWithParticipantsFixture);
+
+      await expect(multisigWallet.connect(admin).createProposal(FeePolicyChange, ethers.ZeroAddress, Treasury))
+        .to.be.revertedWith("Invalid treasury address");
+      await expect(multisigWallet.connect(admin).createProposal(FeePolicyChange, nonParticipant.address, 2))
+        .to.be.revertedWith("Invalid fee policy");
+
+      await multisigWallet.connect(admin).createProposal(FeePolicyChange, nonParticipant.address, Treasury);
+      await expect(multisigWallet.connect(thirdAccount).vote(0))
+        .to.emit(multisigWallet, "FeePolicyUpdated").withArgs(Treasury, nonParticipant.address);
+
+      await multisigWallet.connect(otherAccount).emergencyWithdraw();
+
+      await expect(multisigWallet.distributeFees())
+        .to.emit(multisigWallet, "FeesSentToTreasury").withArgs(nonParticipant.address, ethers.parseUnits("20", 6));
+      expect(await mockUSDC.balanceOf(nonParticipant.address)).to.equal(ethers.parseUnits("20", 6));
+      expect(await multisigWallet.feeReserve()).to.equal(0);
+    });
+  });
+
+  describe("swap routes", function () {
+    const wethAddress = "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2"; // Any unsupported token works as an intermediate hop
+
+    // Queues each route change, then waits out the timelock once
+    async function queueRoutes(multisigWallet: MultisigWallet, routes: [string, string[]][]) {
+      const selector = multisigWallet.interface.getFunction("setSwapRoute").selector;
+      for (const [token, path] of routes) {
+        await multisigWallet.queueParameterChange(selector, swapRouteChangeValue(token, path));
+      }
+      await advanceDays(2);
+    }
+
+    it("Should default to the direct pair into the primary token", async function () {
+      const { multisigWallet, mockUSDC, mockDAI } = await loadFixture(deployMultisigWalletFixture);
+      const daiAddress = await mockDAI.getAddress();
+
+      expect(await multisigWallet.getSwapRoute(daiAddress)).to.deep.equal([daiAddress, await mockUSDC.getAddress()]);
+    });
+
+    it("Should let the owner configure and reset a multi-hop route", async function () {
+      const { multisigWallet, mockUSDC, mockDAI } = await loadFixture(deployMultisigWalletFixture);
+      const daiAddress = await mockDAI.getAddress();
+      const path = [daiAddress, wethAddress, await mockUSDC.getAddress()];
+      await queueRoutes(multisigWallet, [[daiAddress, path], [daiAddress, []]]);
+
+      await expect(multisigWallet.setSwapRoute(daiAddress, path))
+        .to.emit(multisigWallet, "SwapRouteUpdated").withArgs(daiAddress, path);
+      expect(await multisigWallet.getSwapRoute(daiAddress)).to.deep.equal(path);
+
+      await multisigWallet.setSwapRoute(daiAddress, []);
+      expect(await multisigWallet.getSwapRoute(daiAddress)).to.deep.equal([daiAddress, await mockUSDC.getAddress()]);
+    });
+
+    it("Should reject invalid routes", async function () {
+      const { multisigWallet, otherAccount, mockUSDC, mockDAI } = await loadFixture(deployMultisigWalletFixture);
+      const daiAddress = await mockDAI.getAddress();
+      const usdcAddress = await mockUSDC.getAddress();
+      await queueRoutes(multisigWallet, [
+        [usdcAddress, [usdcAddress, usdcAddress]],
+        [wethAddress, [wethAddress, usdcAddress]],
+        [daiAddress, [daiAddress]],
+        [daiAddress, [wethAddress, usdcAddress]],
+        [daiAddress, [daiAddress, wethAddress]],
+      ]);
+
+      await expect(multisigWallet.connect(otherAccount).setSwapRoute(daiAddress, [daiAddress, usdcAddress]))
+        .to.be.revertedWithCustomError(multisigWallet, "OwnableUnauthorizedAccount");
+      await expect(multisigWallet.setSwapRoute(usdcAddress, [usdcAddress, usdcAddress]))
+        .to.be.revertedWith("Token is not supported");
+      await expect(multisigWallet.setSwapRoute(wethAddress, [wethAddress, usdcAddress]))
+        .to.be.revertedWith("Token is not supported");
+      await expect(multisigWallet.setSwapRoute(daiAddress, [daiAddress]))
+        .to.be.revertedWith("Path must have at least two tokens");
+      await expect(multisigWallet.setSwapRoute(daiAddress, [wethAddress, usdcAddress]))
+        .to.be.revertedWith("Path must start with the token");
+      await expect(multisigWallet.setSwapRoute(daiAddress, [daiAddress, wethAddress]))
+        .to.be.revertedWith("Path must end with the primary token");
+    });
+
+    it("Should let the owner configure the price oracle check", async function () {
+      const { multisigWallet, otherAccount } = await loadFixture(deployMultisigWalletFixture);
+      await multisigWallet.queueParameterChange(multisigWallet.interface.getFunction("setMaxOracleDeviation").selector, 500);
+      await multisigWallet.queueParameterChange(multisigWallet.interface.getFunction("setMaxOracleDeviation").selector, 1001);
+      await queueChange(multisigWallet, "setPriceOracle", priceOracleChangeValue(otherAccount.address));
+
+      await expect(multisigWallet.setPriceOracle(otherAccount.address))
+        .to.emit(multisigWallet, "PriceOracleUpdated").withArgs(otherAccount.address);
+      expect(await multisigWallet.priceOracle()).to.equal(otherAccount.address);
+
+      await expect(multisigWallet.setMaxOracleDeviation(500))
+        .to.emit(multisigWallet, "MaxOracleDeviationUpdated").withArgs(500);
+      await expect(multisigWallet.setMaxOracleDeviation(1001))
+        .to.be.revertedWith("Deviation exceeds the maximum");
+    });
+  });
+
+  describe("swapToken", function () {
+    it("Should credit only the USDC the swap produced", async function () {
+      const { multisigWallet, otherAccount, thirdAccount, mockUSDC, mockUNI } = await loadFixture(deployWithParticipantsFixture);
+
+      // The wallet already holds otherAccount's 200 USDC
+      await mockUNI.transfer(thirdAccount.address, ethers.parseUnits("10", 18));
+      await mockUNI.connect(thirdAccount).approve(multisigWallet.getAddress(), ethers.parseUnits("10", 18));
+
+      await expect(multisigWallet.connect(thirdAccount).swapToken(mockUNI.getAddress(), ethers.parseUnits("10", 18)))
+        .to.emit(multisigWallet, "SwapCompleted")
+        .withArgs(thirdAccount.address, await mockUNI.getAddress(), ethers.parseUnits("10", 18), ethers.parseUnits("80", 6));
+
+      expect(await multisigWallet.connect(thirdAccount).checkBalance()).to.equal(ethers.parseUnits("80", 6));
+      expect(await multisigWallet.connect(otherAccount).checkBalance()).to.equal(ethers.parseUnits("200", 6));
+      expect(await mockUSDC.balanceOf(multisigWallet.getAddress())).to.equal(ethers.parseUnits("280", 6));
+      expect(await multisigWallet.totalSavings()).to.equal(ethers.parseUnits("280", 6));
+    });
+
+    it("Should swap along a configured multi-hop route", async function () {
+      const { multisigWallet, thirdAccount, mockUSDC, mockDAI, mockLINK, mockRouter } = await loadFixture(deployWithParticipantsFixture);
+
+      // LINK -> DAI -> USDC at 12 DAI per LINK
+      await mockRouter.setRate(mockLINK.getAddress(), mockDAI.getAddress(), ethers.parseUnits("12", 18));
+      const path = [await mockLINK.getAddress(), await mockDAI.getAddress(), await mockUSDC.getAddress()];
+      await queueChange(multisigWallet, "setSwapRoute", swapRouteChangeValue(path[0], path));
+      await multisigWallet.setSwapRoute(path[0], path);
+
+      await mockLINK.transfer(thirdAccount.address, ethers.parseUnits("5", 18));
+      await mockLINK.connect(thirdAccount).approve(multisigWallet.getAddress(), ethers.parseUnits("5", 18));
+      await multisigWallet.connect(thirdAccount).swapToken(mockLINK.getAddress(), ethers.parseUnits("5", 18));
+
+      expect(await multisigWallet.connect(thirdAccount).checkBalance()).to.equal(ethers.parseUnits("60", 6));
+    });
+
+    it("Should revert if the execution price slips past the tolerance", async function () {
+      const { multisigWallet, thirdAccount, mockUNI, mockRouter } = await loadFixture(deployWithParticipantsFixture);
+
+      await mockUNI.transfer(thirdAccount.address, ethers.parseUnits("10", 18));
+      await mockUNI.connect(thirdAccount).approve(multisigWallet.getAddress(), ethers.parseUnits("10", 18));
+
+      // 2% worse than quoted, tolerance is 1%
+      await mockRouter.setSlippage(200);
+      await expect(multisigWallet.connect(thirdAccount).swapToken(mockUNI.getAddress(), ethers.parseUnits("10", 18)))
+        .to.be.revertedWith("MockUniswapV2Router: INSUFFICIENT_OUTPUT_AMOUNT");
+
+      // 0.5% is within tolerance
+      await mockRouter.setSlippage(50);
+      await multisigWallet.connect(thirdAccount).swapToken(mockUNI.getAddress(), ethers.parseUnits("10", 18));
+      expect(await multisigWallet.connect(thirdAccount).checkBalance()).to.equal(ethers.parseUnits("79.6", 6));
+    });
+
+    it("Should revert if the router quote deviates from the price oracle", async function () {
+      const { multisigWallet, thirdAccount, mockUSDC, mockUNI } = await loadFixture(deployWithParticipantsFixture);
+
+      // The oracle values UNI at 9 USDC, the router quotes 8 (more than 3% below)
+      const MockPriceOracle = await hre.ethers.getContractFactory("MockPriceOracle");
+      const oracle = await MockPriceOracle.deploy();
+      await oracle.setRate(mockUNI.getAddress(), mockUSDC.getAddress(), ethers.parseUnits("9", 6));
+      await queueChange(multisigWallet, "setPriceOracle", priceOracleChangeValue(await oracle.getAddress()));
+      await multisigWallet.setPriceOracle(oracle.getAddress());
+
+      await mockUNI.transfer(thirdAccount.address, ethers.parseUnits("10", 18));
+      await mockUNI.connect(thirdAccount).approve(multisigWallet.getAddress(), ethers.parseUnits("10", 18));
+      await expect(multisigWallet.connect(thirdAccount).swapToken(mockUNI.getAddress(), ethers.parseUnits("10", 18)))
+        .to.be.revertedWith("Swap price deviates from oracle");
+
+      // Within the allowed deviation the swap goes through
+      await oracle.setRate(mockUNI.getAddress(), mockUSDC.getAddress(), ethers.parseUnits("8.1", 6));
+      await multisigWallet.connect(thirdAccount).swapToken(mockUNI.getAddress(), ethers.parseUnits("10", 18));
+      expect(await multisigWallet.connect(thirdAccount).checkBalance()).to.equal(ethers.parseUnits("80", 6));
+    });
+
+    it("Should revert without a token allowance", async function () {
+      const { multisigWallet, thirdAccount, mockDAI } = await loadFixture(deployWithParticipantsFixture);
+
+      await expect(multisigWallet.connect(thirdAccount).swapToken(mockDAI.getAddress(), 1))
+        .to.be.revertedWith("Insufficient token allowance");
+    });
+  });
+
+  describe("depositToken with swaps", function () {
+    it("Should swap a supported token and record it as a contribution", async function () {
+      const { multisigWallet, thirdAccount, mockDAI } = await loadFixture(deployWithParticipantsFixture);
+
+      await mockDAI.transfer(thirdAccount.address, ethers.parseUnits("150", 18));
+      await mockDAI.connect(thirdAccount).approve(multisigWallet.getAddress(), ethers.parseUnits("150", 18));
+
+      await expect(multisigWallet.connect(thirdAccount).depositToken(mockDAI.getAddress(), ethers.parseUnits("150", 18)))
+        .to.emit(multisigWallet, "ContributionMade").withArgs(thirdAccount.address, ethers.parseUnits("150", 6))
+        .and.to.emit(multisigWallet, "SwapCompleted");
+
+      const participant = await multisigWallet.connect(thirdAccount).getParticipant();
+      expect(participant.balance).to.equal(ethers.parseUnits("150", 6));
+      expect(participant.missedContributions).to.equal(0);
+
+      const [log] = await multisigWallet.connect(thirdAccount).getTransactionLogs(0, 1);
+      expect(log.transactionType).to.equal(1);
+      expect(log.token).to.equal(await mockDAI.getAddress());
+    });
+
+    it("Should value the required contribution in USDC received, not tokens sent", async function () {
+      const { multisigWallet, thirdAccount, mockDAI } = await loadFixture(deployWithParticipantsFixture);
+
+      // 50 DAI is a large number of wei but only 50 USDC, below the 100 USDC contribution
+      await mockDAI.transfer(thirdAccount.address, ethers.parseUnits("50", 18));
+      await mockDAI.connect(thirdAccount).approve(multisigWallet.getAddress(), ethers.parseUnits("50", 18));
+
+      await expect(multisigWallet.connect(thirdAccount).depositToken(mockDAI.getAddress(), ethers.parseUnits("50", 18)))
+        .to.be.revertedWith("Insufficient amount to cover missed contributions");
+    });
+  });
+
+  describe("depositWithPermit", function () {
+    it("Should deposit without a prior approve transaction", async function () {
+      const { multisigWallet, mockUSDC, thirdAccount } = await loadFixture(deployWithParticipantsFixture);
+      const amount = ethers.parseUnits("100", 6);
+      const deadline = BigInt(await time.latest()) + 3600n;
+      await mockUSDC.transfer(thirdAccount.address, amount);
+
+      const { v, r, s } = await signPermit(thirdAccount, await mockUSDC.getAddress(), await multisigWallet.getAddress(), amount, deadline);
+      await expect(multisigWallet.connect(thirdAccount).depositWithPermit(mockUSDC.getAddress(), amount, deadline, v, r, s))
+        .to.emit(multisigWallet, "ContributionMade").withArgs(thirdAccount.address, amount);
+
+      expect(await multisigWallet.connect(thirdAccount).checkBalance()).to.equal(amount);
+      expect(await mockUSDC.allowance(thirdAccount.address, multisigWallet.getAddress())).to.equal(0);
+    });
+
+    it("Should still deposit when someone else submitted the permit first", async function () {
+      const { multisigWallet, mockUSDC, thirdAccount, nonParticipant } = await loadFixture(deployWithParticipantsFixture);
+      const amount = ethers.parseUnits("100", 6);
+      const deadline = BigInt(await time.latest()) + 3600n;
+      await mockUSDC.transfer(thirdAccount.address, amount);
+
+      const { v, r, s } = await signPermit(thirdAccount, await mockUSDC.getAddress(), await multisigWallet.getAddress(), amount, deadline);
+      await mockUSDC.connect(nonParticipant).permit(thirdAccount.address, multisigWallet.getAddress(), amount, deadline, v, r, s);
+
+      await multisigWallet.connect(thirdAccount).depositWithPermit(mockUSDC.getAddress(), amount, deadline, v, r, s);
+      expect(await multisigWallet.connect(thirdAccount).checkBalance()).to.equal(amount);
+    });
+
+    it("Should apply the usual deposit rules", async function () {
+      const { multisigWallet, mockUSDC, thirdAccount, nonParticipant } = await loadFixture(deployWithParticipantsFixture);
+      const walletAddress = await multisigWallet.getAddress();
+      const deadline = BigInt(await time.latest()) + 3600n;
+      await mockUSDC.transfer(thirdAccount.address, ethers.parseUnits("100", 6));
+
+      // Below the monthly contribution
+      const small = ethers.parseUnits("50", 6);
+      const smallPermit = await signPermit(thirdAccount, await mockUSDC.getAddress(), walletAddress, small, deadline);
+      await expect(multisigWallet.connect(thirdAccount).depositWithPermit(mockUSDC.getAddress(), small, deadline, smallPermit.v, smallPermit.r, smallPermit.s))
+        .to.be.revertedWith("Insufficient amount to cover missed contributions");
+
+      // A permit signed by someone else grants no allowance to the caller
+      const amount = ethers.parseUnits("100", 6);
+      const permit = await signPermit(thirdAccount, await mockUSDC.getAddress(), walletAddress, amount, deadline);
+      await expect(multisigWallet.connect(nonParticipant).depositWithPermit(mockUSDC.getAddress(), amount, deadline, permit.v, permit.r, permit.s))
+        .to.be.revertedWith("Caller is not a participant");
+
+      // An expired permit leaves the deposit without an allowance
+      await time.increaseTo(deadline + 1n);
+      await expect(multisigWallet.connect(thirdAccount).depositWithPermit(mockUSDC.getAddress(), amount, deadline, permit.v, permit.r, permit.s))
+        .to.be.revertedWithCustomError(mockUSDC, "ERC20InsufficientAllowance");
+    });
+  });
+
+  describe("held tokens", function () {
+    // DAI is held as-is and valued at 1 USDC by the price oracle
+    async function deployHeldDaiFixture() {
+      const base = await deployWithParticipantsFixture();
+      const { multisigWallet, mockUSDC, mockDAI, thirdAccount } = base;
+
+      const MockPriceOracle = await hre.ethers.getContractFactory("MockPriceOracle");
+      const oracle = await MockPriceOracle.deploy();
+      await oracle.setRate(mockDAI.getAddress(), mockUSDC.getAddress(), ethers.parseUnits("1", 6));
+      await multisigWallet.queueParameterChange(multisigWallet.interface.getFunction("setPriceOracle").selector, priceOracleChangeValue(await oracle.getAddress()));
+      await queueChange(multisigWallet, "setTokenHolding", tokenHoldingChangeValue(await mockDAI.getAddress(), true));
+      await multisigWallet.setPriceOracle(oracle.getAddress());
+      await multisigWallet.setTokenHolding(mockDAI.getAddress(), true);
+
+      await mockDAI.transfer(thirdAccount.address, ethers.parseUnits("500", 18));
+      await mockDAI.connect(thirdAccount).approve(multisigWallet.getAddress(), ethers.parseUnits("500", 18));
+
+      return { ...base, oracle };
+    }
+
+    // thirdAccount holds 150 DAI and asks to withdraw `value` USDC worth of it; the other two approve
+    async function depositAndApprove(multisigWallet: MultisigWallet, mockDAI: MockERC20, approvers: HardhatEthersSigner[], thirdAccount: HardhatEthersSigner, value: bigint) {
+      await multisigWallet.connect(thirdAccount).depositToken(mockDAI.getAddress(), ethers.parseUnits("150", 18));
+      await multisigWallet.connect(thirdAccount).requestWithdrawal(value);
+      const requestId = await multisigWallet.withdrawalRequestCount();
+      for (const approver of approvers) {
+        await multisigWallet.connect(approver).approveWithdrawal(requestId);
+      }
+    }
+
+    it("Should hold a deposit as-is and count its value as the contribution", async function () {
+      const { multisigWallet, mockDAI, thirdAccount } = await loadFixture(deployHeldDaiFixture);
+      const savingsBefore = await multisigWallet.totalSavings();
+
+      await expect(multisigWallet.connect(thirdAccount).depositToken(mockDAI.getAddress(), ethers.parseUnits("150", 18)))
+        .to.emit(multisigWallet, "ContributionMade").withArgs(thirdAccount.address, ethers.parseUnits("150", 6))
+        .and.not.to.emit(multisigWallet, "SwapCompleted");
+
+      const [tokens, amounts] = await multisigWallet.connect(thirdAccount).getHeldBalances();
+      expect(tokens).to.deep.equal([await mockDAI.getAddress()]);
+      expect(amounts).to.deep.equal([ethers.parseUnits("150", 18)]);
+      expect(await multisigWallet.totalHeld(mockDAI.getAddress())).to.equal(ethers.parseUnits("150", 18));
+      expect(await mockDAI.balanceOf(multisigWallet.getAddress())).to.equal(ethers.parseUnits("150", 18));
+
+      // The primary balance and the pool's savings are unchanged
+      expect(await multisigWallet.connect(thirdAccount).checkBalance()).to.equal(0);
+      expect(await multisigWallet.totalSavings()).to.equal(savingsBefore);
+
+      // The log records the deposit's value in the primary token
+      const [log] = await multisigWallet.connect(thirdAccount).getTransactionLogs(0, 1);
+      expect(log.transactionType).to.equal(0); // Deposit
+      expect(log.amount).to.equal(ethers.parseUnits("150", 6));
+      expect(log.token).to.equal(await mockDAI.getAddress());
+    });
+
+    it("Should require the held deposit's value to cover the contribution", async function () {
+      const { multisigWallet, mockDAI, thirdAccount, oracle, mockUSDC } = await loadFixture(deployHeldDaiFixture);
+
+      // 120 DAI at 0.8 USDC is below the 100 USDC monthly contribution
+      await oracle.setRate(mockDAI.getAddress(), mockUSDC.getAddress(), ethers.parseUnits("0.8", 6));
+      await expect(multisigWallet.connect(thirdAccount).depositToken(mockDAI.getAddress(), ethers.parseUnits("120", 18)))
+        .to.be.revertedWith("Insufficient amount to cover missed contributions");
+
+      await multisigWallet.connect(thirdAccount).depositToken(mockDAI.getAddress(), ethers.parseUnits("125", 18));
+      expect((await multisigWallet.connect(thirdAccount).getContributionStatus()).requiredContribution).to.equal(ethers.parseUnits("100", 6));
+    });
+
+    it("Should convert the late penalty into the fee reserve", async function () {
+      const { multisigWallet, mockDAI, thirdAccount } = await loadFixture(deployHeldDaiFixture);
+      await queueChange(multisigWallet, "updateLatePenaltyRate", 10);
+      await multisigWallet.updateLatePenaltyRate(10);
+      await advanceDays(31);
+
+      // One missed cycle: 2 x 100 USDC plus a 10 USDC penalty
+      await multisigWallet.connect(thirdAccount).depositToken(mockDAI.getAddress(), ethers.parseUnits("210", 18));
+
+      const [, amounts] = await multisigWallet.connect(thirdAccount).getHeldBalances();
+      expect(amounts).to.deep.equal([ethers.parseUnits("200", 18)]);
+      expect(await multisigWallet.feeReserve()).to.equal(ethers.parseUnits("10", 6));
+    });
+
+    it("Should keep converting tokens that are not held", async function () {
+      const { multisigWallet, mockDAI, mockUNI, mockUSDC, thirdAccount, oracle } = await loadFixture(deployHeldDaiFixture);
+
+      // The oracle also checks swap quotes, so it needs a UNI price
+      await oracle.setRate(mockUNI.getAddress(), mockUSDC.getAddress(), ethers.parseUnits("8", 6));
+      await mockUNI.transfer(thirdAccount.address, ethers.parseUnits("12.5", 18));
+      await mockUNI.connect(thirdAccount).approve(multisigWallet.getAddress(), ethers.parseUnits("12.5", 18));
+      await multisigWallet.connect(thirdAccount).depositToken(mockUNI.getAddress(), ethers.parseUnits("12.5", 18));
+      expect(await multisigWallet.connect(thirdAccount).checkBalance()).to.equal(ethers.parseUnits("100", 6));
+
+      // Turning holding off converts later deposits; earlier held balances stay
+      await multisigWallet.connect(thirdAccount).depositToken(mockDAI.getAddress(), ethers.parseUnits("150", 18));
+      await queueChange(multisigWallet, "setTokenHolding", tokenHoldingChangeValue(await mockDAI.getAddress(), false));
+      await multisigWallet.setTokenHolding(mockDAI.getAddress(), false);
+      await multisigWallet.connect(thirdAccount).depositToken(mockDAI.getAddress(), ethers.parseUnits("150", 18));
+
+      expect(await multisigWallet.isTokenHeld(mockDAI.getAddress())).to.equal(false);
+      expect(await multisigWallet.connect(thirdAccount).checkBalance()).to.equal(ethers.parseUnits("250", 6));
+      const [tokens, amounts] = await multisigWallet.connect(thirdAccount).getHeldBalances();
+      expect(tokens).to.deep.equal([await mockDAI.getAddress()]);
+      expect(amounts).to.deep.equal([ethers.parseUnits("150", 18)]);
+    });
+
+    it("Should only hold supported tokens valued by a price oracle", async function () {
+      const { multisigWallet, mockDAI, mockUSDC, otherAccount } = await loadFixture(deployWithParticipantsFixture);
+      await multisigWallet.queueParameterChange(multisigWallet.interface.getFunction("setTokenHolding").selector, tokenHoldingChangeValue(await mockUSDC.getAddress(), true));
+      await queueChange(multisigWallet, "setTokenHolding", tokenHoldingChangeValue(await mockDAI.getAddress(), true));
+
+      await expect(multisigWallet.setTokenHolding(mockDAI.getAddress(), true))
+        .to.be.revertedWith("No price source for held tokens");
+      await expect(multisigWallet.setTokenHolding(mockUSDC.getAddress(), true))
+        .to.be.revertedWith("Token is not supported");
+      await expect(multisigWallet.connect(otherAccount).setTokenHolding(mockDAI.getAddress(), true))
+        .to.be.revertedWithCustomError(multisigWallet, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should withdraw a held token against an approved request for its value", async function () {
+      const { multisigWallet, mockDAI, admin, otherAccount, thirdAccount } = await loadFixture(deployHeldDaiFixture);
+      await depositAndApprove(multisigWallet, mockDAI, [admin, otherAccount], thirdAccount, ethers.parseUnits("100", 6));
+
+      await expect(multisigWallet.connect(thirdAccount).withdrawHeld(mockDAI.getAddress(), ethers.parseUnits("120", 18)))
+        .to.be.revertedWith("Withdrawal amount exceeds approved amount");
+
+      // 5% fee is taken in DAI and converted into the fee reserve
+      await expect(multisigWallet.connect(thirdAccount).withdrawHeld(mockDAI.getAddress(), ethers.parseUnits("100", 18)))
+        .to.emit(multisigWallet, "HeldTokenWithdrawn")
+        .withArgs(thirdAccount.address, await mockDAI.getAddress(), ethers.parseUnits("95", 18), ethers.parseUnits("5", 18));
+
+      expect(await mockDAI.balanceOf(thirdAccount.address)).to.equal(ethers.parseUnits("445", 18));
+      expect(await multisigWallet.totalHeld(mockDAI.getAddress())).to.equal(ethers.parseUnits("50", 18));
+      expect(await multisigWallet.feeReserve()).to.equal(ethers.parseUnits("5", 6));
+
+      // The request is consumed and the 6-month cadence applies
+      await expect(multisigWallet.connect(thirdAccount).withdrawHeld(mockDAI.getAddress(), ethers.parseUnits("10", 18)))
+        .to.be.revertedWith("No active withdrawal request");
+    });
+
+    it("Should count held tokens towards the amount that can be requested", async function () {
+      const { multisigWallet, mockDAI, thirdAccount } = await loadFixture(deployHeldDaiFixture);
+      await multisigWallet.connect(thirdAccount).depositToken(mockDAI.getAddress(), ethers.parseUnits("150", 18));
+
+      await expect(multisigWallet.connect(thirdAccount).requestWithdrawal(ethers.parseUnits("151", 6)))
+        .to.be.revertedWith("Withdrawal amount exceeds balance");
+      await multisigWallet.connect(thirdAccount).requestWithdrawal(ethers.parseUnits("150", 6));
+
+      // The request is checked before anything is paid out
+      await expect(multisigWallet.connect(thirdAccount).withdrawHeld(mockDAI.getAddress(), ethers.parseUnits("151", 18)))
+        .to.be.revertedWith("Withdrawal amount exceeds approved amount");
+    });
+
+    it("Should log held withdrawals at the value the tokens were deposited at", async function () {
+      const { multisigWallet, mockDAI, mockUSDC, mockRouter, thirdAccount, oracle } = await loadFixture(deployHeldDaiFixture);
+      await multisigWallet.connect(thirdAccount).depositToken(mockDAI.getAddress(), ethers.parseUnits("150", 18));
+
+      // DAI doubles in value; the payout still logs the 150 USDC it was deposited at, so the log nets out
+      await oracle.setRate(mockDAI.getAddress(), mockUSDC.getAddress(), ethers.parseUnits("2", 6));
+      await mockRouter.setRate(mockDAI.getAddress(), mockUSDC.getAddress(), ethers.parseUnits("2", 6));
+      await multisigWallet.connect(thirdAccount).emergencyWithdraw();
+
+      const [deposit, withdrawal] = await multisigWallet.connect(thirdAccount).getTransactionLogs(0, 2);
+      expect(withdrawal.transactionType).to.equal(4); // EmergencyWithdrawal
+      expect(withdrawal.amount).to.equal(deposit.amount);
+      expect(withdrawal.amount).to.equal(ethers.parseUnits("150", 6));
+    });
+
+    it("Should count held tokens in the solvency report", async function () {
+      const { multisigWallet, mockDAI, thirdAccount } = await loadFixture(deployHeldDaiFixture);
+      const before = await multisigWallet.solvencyReport();
+      await multisigWallet.connect(thirdAccount).depositToken(mockDAI.getAddress(), ethers.parseUnits("150", 18));
+
+      const report = await multisigWallet.solvencyReport();
+      expect(report.liquidAssets - before.liquidAssets).to.equal(ethers.parseUnits("150", 6));
+      expect(report.liabilities - before.liabilities).to.equal(ethers.parseUnits("150", 6));
+      expect(report.solvent).to.equal(true);
+    });
+
+    it("Should stop listing a token once it is no longer held and nobody holds any", async function () {
+      const { multisigWallet, mockDAI, mockUSDC, thirdAccount, oracle } = await loadFixture(deployHeldDaiFixture);
+      await multisigWallet.connect(thirdAccount).depositToken(mockDAI.getAddress(), ethers.parseUnits("150", 18));
+      await multisigWallet.queueParameterChange(multisigWallet.interface.getFunction("setPriceOracle").selector, priceOracleChangeValue(ethers.ZeroAddress));
+      await queueChange(multisigWallet, "setTokenHolding", tokenHoldingChangeValue(await mockDAI.getAddress(), false));
+      await multisigWallet.setTokenHolding(mockDAI.getAddress(), false);
+      expect((await multisigWallet.connect(thirdAccount).getHeldBalances())[0]).to.deep.equal([await mockDAI.getAddress()]);
+
+      // The DAI still held is valued through the oracle
+      await expect(multisigWallet.setPriceOracle(ethers.ZeroAddress))
+        .to.be.revertedWith("Price oracle is needed while tokens are held");
+
+      await multisigWallet.connect(thirdAccount).emergencyWithdraw();
+      expect((await multisigWallet.connect(thirdAccount).getHeldBalances())[0]).to.deep.equal([]);
+
+      // The delisted token's price is no longer needed to value the wallet, and the oracle can be removed
+      await oracle.setRate(mockDAI.getAddress(), mockUSDC.getAddress(), 0);
+      await expect(multisigWallet.solvencyReport()).not.to.be.reverted;
+      await expect(multisigWallet.setPriceOracle(ethers.ZeroAddress))
+        .to.emit(multisigWallet, "PriceOracleUpdated").withArgs(ethers.ZeroAddress);
+    });
+
+    it("Should pay held tokens out on emergency withdrawals", async function () {
+      const { multisigWallet, mockDAI, thirdAccount } = await loadFixture(deployHeldDaiFixture);
+      await multisigWallet.connect(thirdAccount).depositToken(mockDAI.getAddress(), ethers.parseUnits("150", 18));
+
+      // 10% emergency fee, converted into the fee reserve
+      await expect(multisigWallet.connect(thirdAccount).emergencyWithdraw())
+        .to.emit(multisigWallet, "HeldTokenWithdrawn")
+        .withArgs(thirdAccount.address, await mockDAI.getAddress(), ethers.parseUnits("135", 18), ethers.parseUnits("15", 18));
+      expect(await multisigWallet.feeReserve()).to.equal(ethers.parseUnits("15", 6));
+      expect(await multisigWallet.totalHeld(mockDAI.getAddress())).to.equal(0);
+
+      await expect(multisigWallet.connect(thirdAccount).emergencyWithdraw()).to.be.revertedWith("No balance to withdraw");
+    });
+
+    it("Should pay held tokens out on emergency withdrawals after the investment lock has ended", async function () {
+      const { multisigWallet, mockDAI, admin, otherAccount, thirdAccount } = await loadFixture(deployHeldDaiFixture);
+      await mockDAI.transfer(otherAccount.address, ethers.parseUnits("150", 18));
+      await mockDAI.connect(otherAccount).approve(multisigWallet.getAddress(), ethers.parseUnits("150", 18));
+      await multisigWallet.connect(otherAccount).depositToken(mockDAI.getAddress(), ethers.parseUnits("150", 18));
+      await investByVote(multisigWallet, admin, thirdAccount);
+      await advanceDays(91);
+
+      // The primary balance is past its lock and stays for the regular withdrawal; the held DAI is paid out
+      await expect(multisigWallet.connect(otherAccount).emergencyWithdraw())
+        .to.emit(multisigWallet, "HeldTokenWithdrawn")
+        .withArgs(otherAccount.address, await mockDAI.getAddress(), ethers.parseUnits("135", 18), ethers.parseUnits("15", 18))
+        .and.not.to.emit(multisigWallet, "EmergencyWithdrawal");
+      expect(await multisigWallet.connect(otherAccount).checkBalance()).to.equal(ethers.parseUnits("200", 6));
+
+      await expect(multisigWallet.connect(otherAccount).emergencyWithdraw())
+        .to.be.revertedWith("Cannot use emergency withdrawal after the lock period");
+    });
+
+    it("Should settle held tokens when a participant leaves", async function () {
+      const { multisigWallet, mockDAI, admin, thirdAccount } = await loadFixture(deployHeldDaiFixture);
+      await multisigWallet.connect(thirdAccount).depositToken(mockDAI.getAddress(), ethers.parseUnits("150", 18));
+
+      await multisigWallet.connect(thirdAccount).proposeExit();
+      const proposalId = (await multisigWallet.proposalCount()) - 1n;
+      await multisigWallet.connect(admin).vote(proposalId);
+
+      // The standard 5% fee is converted to the primary token
+      expect(await mockDAI.balanceOf(thirdAccount.address)).to.equal(ethers.parseUnits("492.5", 18));
+      expect(await multisigWallet.totalHeld(mockDAI.getAddress())).to.equal(0);
+      expect(await multisigWallet.feeReserve()).to.equal(ethers.parseUnits("7.5", 6));
+    });
+  });
+});
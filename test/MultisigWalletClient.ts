@@ -0,0 +1,232 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { decodeMultisigWalletError, MultisigWalletClient, MultisigWalletError, priceOracleChangeValue, tokenHoldingChangeValue } from "../sdk";
+import { advanceDays, deployWithParticipantsFixture, investByVote, queueChange } from "./fixtures";
+
+describe("MultisigWalletClient", function () {
+  // Fixture with a client for each participant
+  async function deployClientsFixture() {
+    const base = await deployWithParticipantsFixture();
+    const { multisigWallet, admin, otherAccount, thirdAccount, nonParticipant } = base;
+
+    return {
+      ...base,
+      adminClient: new MultisigWalletClient(multisigWallet, admin),
+      otherClient: new MultisigWalletClient(multisigWallet, otherAccount),
+      thirdClient: MultisigWalletClient.connect(await multisigWallet.getAddress(), thirdAccount),
+      outsiderClient: new MultisigWalletClient(multisigWallet, nonParticipant),
+    };
+  }
+
+  // Expects `promise` to reject with a MultisigWalletError carrying `code`
+  async function expectWalletError(promise: Promise<unknown>, code: string) {
+    try {
+      await promise;
+    } catch (error) {
+      expect(error).to.be.instanceOf(MultisigWalletError);
+      expect((error as MultisigWalletError).code).to.equal(code);
+      return error as MultisigWalletError;
+    }
+    expect.fail(`Expected a ${code} revert`);
+  }
+
+  describe("deposit", function () {
+    it("Should approve and deposit in one call", async function () {
+      const { thirdClient, thirdAccount, mockUSDC, multisigWallet } = await loadFixture(deployClientsFixture);
+
+      await mockUSDC.transfer(thirdAccount.address, ethers.parseUnits("100", 6));
+      expect(await mockUSDC.allowance(thirdAccount.address, multisigWallet.getAddress())).to.equal(0);
+
+      await thirdClient.deposit(await mockUSDC.getAddress(), ethers.parseUnits("100", 6));
+      expect(await thirdClient.getBalance()).to.equal(ethers.parseUnits("100", 6));
+    });
+
+    it("Should deposit with a signed permit instead of an approval", async function () {
+      const { thirdClient, thirdAccount, mockUSDC, multisigWallet } = await loadFixture(deployClientsFixture);
+      await mockUSDC.transfer(thirdAccount.address, ethers.parseUnits("100", 6));
+
+      await thirdClient.depositWithPermit(await mockUSDC.getAddress(), ethers.parseUnits("100", 6));
+      expect(await thirdClient.getBalance()).to.equal(ethers.parseUnits("100", 6));
+      expect(await mockUSDC.allowance(thirdAccount.address, multisigWallet.getAddress())).to.equal(0);
+    });
+
+    it("Should swap other tokens through the same call", async function () {
+      const { thirdClient, thirdAccount, mockDAI } = await loadFixture(deployClientsFixture);
+
+      await mockDAI.transfer(thirdAccount.address, ethers.parseUnits("100", 18));
+      await thirdClient.deposit(await mockDAI.getAddress(), ethers.parseUnits("100", 18));
+      expect(await thirdClient.getBalance()).to.equal(ethers.parseUnits("100", 6));
+    });
+  });
+
+  describe("contribution status", function () {
+    it("Should mirror the on-chain calculation across cycles, grace periods and penalties", async function () {
+      const { multisigWallet, thirdClient, thirdAccount, otherAccount, otherClient } = await loadFixture(deployClientsFixture);
+
+      await multisigWallet.queueParameterChange(multisigWallet.interface.getFunction("updateGracePeriod").selector, 3 * 24 * 60 * 60);
+      await queueChange(multisigWallet, "updateLatePenaltyRate", 5);
+      await multisigWallet.updateGracePeriod(3 * 24 * 60 * 60);
+      await multisigWallet.updateLatePenaltyRate(5);
+
+      // Check around the cycle and grace period boundaries
+      const joined = Number((await multisigWallet.connect(thirdAccount).getParticipant()).lastContributionTimestamp);
+      for (const days of [20, 32, 34, 40, 65, 95]) {
+        await ethers.provider.send("evm_setNextBlockTimestamp", [joined + days * 24 * 60 * 60]);
+        await ethers.provider.send("evm_mine");
+
+        for (const [client, account] of [[thirdClient, thirdAccount], [otherClient, otherAccount]] as const) {
+          const onChain = await multisigWallet.connect(account).getContributionStatus();
+          const offChain = await client.getContributionStatus();
+          expect(offChain.missedCycles).to.equal(onChain.missedCycles);
+          expect(offChain.arrears).to.equal(onChain.arrears);
+          expect(offChain.penalty).to.equal(onChain.penalty);
+          expect(offChain.requiredContribution).to.equal(onChain.requiredContribution);
+          expect(offChain.nextDueTimestamp).to.equal(onChain.nextDueTimestamp);
+        }
+      }
+    });
+
+    it("Should let the required contribution be paid exactly", async function () {
+      const { thirdClient, thirdAccount, mockUSDC } = await loadFixture(deployClientsFixture);
+
+      await advanceDays(61);
+      const required = await thirdClient.getRequiredContribution();
+      expect(required).to.equal(ethers.parseUnits("300", 6));
+
+      await mockUSDC.transfer(thirdAccount.address, required);
+      await expectWalletError(thirdClient.deposit(await mockUSDC.getAddress(), required - 1n), "InsufficientContribution");
+      await thirdClient.deposit(await mockUSDC.getAddress(), required);
+      expect(await thirdClient.getBalance()).to.equal(required);
+    });
+  });
+
+  describe("withdrawals", function () {
+    it("Should request, approve and execute a withdrawal", async function () {
+      const { otherClient, adminClient, thirdClient, otherAccount, mockUSDC } = await loadFixture(deployClientsFixture);
+
+      const requestId = await otherClient.requestWithdrawal(ethers.parseUnits("100", 6));
+      expect(requestId).to.equal(1n);
+
+      await adminClient.approveWithdrawal(requestId);
+      let request = await otherClient.getWithdrawalRequest(requestId);
+      expect(request.approvedCount).to.equal(1n);
+      expect(request.approvalsNeeded).to.equal(2n);
+      await expectWalletError(otherClient.withdraw(ethers.parseUnits("100", 6)), "QuorumNotMet");
+
+      await thirdClient.approveWithdrawal(requestId);
+      await otherClient.withdraw(ethers.parseUnits("100", 6));
+
+      request = await otherClient.getWithdrawalRequest(requestId);
+      expect(request.executed).to.equal(true);
+      expect(await mockUSDC.balanceOf(otherAccount.address)).to.equal(ethers.parseUnits("95", 6));
+    });
+
+    it("Should collect approvals off-chain and submit them in one transaction", async function () {
+      const { otherClient, adminClient, thirdClient, outsiderClient, otherAccount, mockUSDC } = await loadFixture(deployClientsFixture);
+
+      const requestId = await otherClient.requestWithdrawal(ethers.parseUnits("100", 6));
+      const approvals = [await adminClient.signWithdrawalApproval(requestId), await thirdClient.signWithdrawalApproval(requestId)];
+
+      // Anyone can relay the signatures
+      await outsiderClient.submitWithdrawalApprovals(requestId, approvals);
+      expect((await otherClient.getWithdrawalRequest(requestId)).approvedCount).to.equal(2n);
+
+      await otherClient.withdraw(ethers.parseUnits("100", 6));
+      expect(await mockUSDC.balanceOf(otherAccount.address)).to.equal(ethers.parseUnits("95", 6));
+    });
+
+    it("Should decode signed approval reverts", async function () {
+      const { otherClient, adminClient, outsiderClient } = await loadFixture(deployClientsFixture);
+
+      const requestId = await otherClient.requestWithdrawal(ethers.parseUnits("100", 6));
+      const approval = await adminClient.signWithdrawalApproval(requestId);
+      await expectWalletError(outsiderClient.submitWithdrawalApprovals(requestId, [{ ...approval, approver: await otherClient.signer.getAddress() }]), "InvalidApprovalSignature");
+      await expectWalletError(outsiderClient.submitWithdrawalApprovals(requestId, [{ ...approval, signature: "0x1234" }]), "ECDSAInvalidSignatureLength");
+
+      await outsiderClient.submitWithdrawalApprovals(requestId, [approval]);
+      await expectWalletError(outsiderClient.submitWithdrawalApprovals(requestId, [approval]), "AlreadyApproved");
+    });
+
+    it("Should decode approval reverts", async function () {
+      const { otherClient, outsiderClient } = await loadFixture(deployClientsFixture);
+
+      const requestId = await otherClient.requestWithdrawal(ethers.parseUnits("100", 6));
+      await expectWalletError(otherClient.approveWithdrawal(requestId), "SelfApproval");
+      const error = await expectWalletError(outsiderClient.approveWithdrawal(requestId), "OnlyParticipantsApprove");
+      expect(error.reason).to.equal("Only participants can approve");
+    });
+  });
+
+  describe("held tokens", function () {
+    it("Should report held balances with their value and withdraw them", async function () {
+      const { multisigWallet, thirdClient, adminClient, otherClient, thirdAccount, mockDAI, mockUSDC, mockRouter } = await loadFixture(deployClientsFixture);
+
+      const MockPriceOracle = await ethers.getContractFactory("MockPriceOracle");
+      const oracle = await MockPriceOracle.deploy();
+      await oracle.setRate(mockDAI.getAddress(), mockUSDC.getAddress(), ethers.parseUnits("1", 6));
+      await multisigWallet.queueParameterChange(multisigWallet.interface.getFunction("setPriceOracle").selector, priceOracleChangeValue(await oracle.getAddress()));
+      await queueChange(multisigWallet, "setTokenHolding", tokenHoldingChangeValue(await mockDAI.getAddress(), true));
+      await multisigWallet.setPriceOracle(oracle.getAddress());
+      await multisigWallet.setTokenHolding(mockDAI.getAddress(), true);
+
+      await mockDAI.transfer(thirdAccount.address, ethers.parseUnits("150", 18));
+      await thirdClient.deposit(await mockDAI.getAddress(), ethers.parseUnits("150", 18));
+      expect(await thirdClient.getHeldBalances()).to.deep.equal([
+        { token: await mockDAI.getAddress(), amount: ethers.parseUnits("150", 18), value: ethers.parseUnits("150", 6) },
+      ]);
+
+      // DAI has risen to 2 USDC, so 50 DAI needs a request for 100 USDC
+      await oracle.setRate(mockDAI.getAddress(), mockUSDC.getAddress(), ethers.parseUnits("2", 6));
+      await mockRouter.setRate(mockDAI.getAddress(), mockUSDC.getAddress(), ethers.parseUnits("2", 6));
+      const requestId = await thirdClient.requestWithdrawal(ethers.parseUnits("100", 6));
+      await adminClient.approveWithdrawal(requestId);
+      await expectWalletError(thirdClient.withdrawHeld(await mockDAI.getAddress(), ethers.parseUnits("51", 18)), "ExceedsApprovedAmount");
+
+      await otherClient.approveWithdrawal(requestId);
+      await thirdClient.withdrawHeld(await mockDAI.getAddress(), ethers.parseUnits("50", 18));
+      expect((await thirdClient.getHeldBalances())[0].amount).to.equal(ethers.parseUnits("100", 18));
+    });
+  });
+
+  describe("investment status", function () {
+    it("Should report the lock period and interest", async function () {
+      const { multisigWallet, otherAccount, thirdAccount, otherClient } = await loadFixture(deployClientsFixture);
+
+      expect((await otherClient.getInvestmentStatus()).isInvested).to.equal(false);
+
+      await investByVote(multisigWallet, otherAccount, thirdAccount);
+      const status = await otherClient.getInvestmentStatus();
+      expect(status.isInvested).to.equal(true);
+      expect(status.investedAmount).to.equal(ethers.parseUnits("100", 6));
+      expect(status.interestEarned).to.equal(0);
+      expect(status.timeLeftToWithdraw).to.equal(90n * 24n * 60n * 60n);
+
+      await advanceDays(30);
+      expect((await otherClient.getInvestmentStatus()).timeLeftToWithdraw).to.equal(60n * 24n * 60n * 60n);
+    });
+  });
+
+  describe("errors", function () {
+    it("Should decode reverts into typed errors", async function () {
+      const { outsiderClient, mockUSDC, nonParticipant } = await loadFixture(deployClientsFixture);
+
+      await mockUSDC.transfer(nonParticipant.address, ethers.parseUnits("100", 6));
+      await expectWalletError(outsiderClient.deposit(await mockUSDC.getAddress(), ethers.parseUnits("100", 6)), "NotParticipant");
+      await expectWalletError(outsiderClient.requestWithdrawal(1n), "NotParticipant");
+    });
+
+    it("Should decode custom errors with their arguments", async function () {
+      const { multisigWallet, otherAccount } = await loadFixture(deployClientsFixture);
+
+      try {
+        await multisigWallet.connect(otherAccount).addParticipant(otherAccount.address);
+        expect.fail("Expected a revert");
+      } catch (error) {
+        const decoded = decodeMultisigWalletError(error) as MultisigWalletError;
+        expect(decoded.code).to.equal("OwnableUnauthorizedAccount");
+        expect(decoded.args).to.deep.equal([otherAccount.address]);
+      }
+    });
+  });
+});
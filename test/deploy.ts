@@ -0,0 +1,84 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import MultisigWalletModule from "../ignition/modules/Deploy";
+import LocalMultisigWalletModule from "../ignition/modules/LocalDeploy";
+
+describe("Ignition deployment", function () {
+  async function deployLocalModuleFixture() {
+    const [admin, otherAccount, thirdAccount] = await hre.ethers.getSigners();
+    const deployment = await hre.ignition.deploy(LocalMultisigWalletModule, {
+      parameters: {
+        LocalMultisigWalletModule: {
+          fixedMonthlyContribution: ethers.parseUnits("50", 6),
+          initialParticipants: [admin.address, otherAccount.address, thirdAccount.address],
+        },
+      },
+    });
+    return {
+      multisigWallet: await ethers.getContractAt("MultisigWallet", await deployment.multisigWallet.getAddress()),
+      mockUSDC: await ethers.getContractAt("MockERC20", await deployment.mockUSDC.getAddress()),
+      mockDAI: await ethers.getContractAt("MockERC20", await deployment.mockDAI.getAddress()),
+      mockRouter: await ethers.getContractAt("MockUniswapV2Router", await deployment.mockRouter.getAddress()),
+      admin,
+      otherAccount,
+      thirdAccount,
+    };
+  }
+
+  // Parameters for MultisigWalletModule pointing at the mocks of the local deployment
+  async function moduleParameters(uniswapRouter: string) {
+    const { mockUSDC, mockDAI } = await loadFixture(deployLocalModuleFixture);
+    return {
+      MultisigWalletModule: {
+        primaryToken: await mockUSDC.getAddress(),
+        supportedTokens: [await mockUSDC.getAddress(), await mockDAI.getAddress()],
+        fixedMonthlyContribution: ethers.parseUnits("100", 6),
+        investmentThreshold: ethers.parseUnits("200", 6),
+        uniswapRouter,
+      },
+    };
+  }
+
+  it("Should deploy the mocks and a wallet with its initial participants", async function () {
+    const { multisigWallet, mockRouter, mockUSDC, mockDAI, otherAccount } = await loadFixture(deployLocalModuleFixture);
+
+    expect(await multisigWallet.uniswapRouter()).to.equal(await mockRouter.getAddress());
+    expect(await multisigWallet.primaryToken()).to.equal(await mockUSDC.getAddress());
+    expect(await multisigWallet.fixedMonthlyContribution()).to.equal(ethers.parseUnits("50", 6));
+    expect(await multisigWallet.investmentThreshold()).to.equal(ethers.parseUnits("200", 6));
+    expect(await multisigWallet.totalParticipants()).to.equal(3);
+    expect(await multisigWallet.quorum()).to.equal(2);
+
+    // The group is complete, so deposits through the mock router work straight away
+    await mockDAI.transfer(otherAccount.address, ethers.parseUnits("50", 18));
+    await mockDAI.connect(otherAccount).approve(multisigWallet.getAddress(), ethers.parseUnits("50", 18));
+    await multisigWallet.connect(otherAccount).depositToken(mockDAI.getAddress(), ethers.parseUnits("50", 18));
+    expect((await multisigWallet.connect(otherAccount).getParticipant()).balance).to.equal(ethers.parseUnits("50", 6));
+  });
+
+  it("Should deploy from parameters", async function () {
+    const { mockRouter } = await loadFixture(deployLocalModuleFixture);
+    const parameters = await moduleParameters(await mockRouter.getAddress());
+
+    const { multisigWallet } = await hre.ignition.deploy(MultisigWalletModule, { parameters });
+    expect(await multisigWallet.uniswapRouter()).to.equal(await mockRouter.getAddress());
+    expect(await multisigWallet.supportedTokenAddresses(parameters.MultisigWalletModule.supportedTokens[1])).to.equal(true);
+    expect(await multisigWallet.totalParticipants()).to.equal(0);
+  });
+
+  it("Should reject a router address that is not a router", async function () {
+    const { mockUSDC } = await loadFixture(deployLocalModuleFixture);
+    const parameters = await moduleParameters(await mockUSDC.getAddress());
+
+    await expect(hre.ignition.deploy(MultisigWalletModule, { parameters })).to.be.rejectedWith("RouterFactory");
+  });
+
+  it("Should reject a contract that has factory() but is not a router", async function () {
+    // Like a Uniswap V2 pair, the wallet answers factory() but has no WETH()
+    const { multisigWallet } = await loadFixture(deployLocalModuleFixture);
+    const parameters = await moduleParameters(await multisigWallet.getAddress());
+
+    await expect(hre.ignition.deploy(MultisigWalletModule, { parameters })).to.be.rejectedWith("RouterWETH");
+  });
+});
@@ -0,0 +1,274 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import LocalMultisigWalletFactoryModule from "../ignition/modules/LocalFactory";
+import { MultisigWalletFactoryClient } from "../sdk";
+import { deployMultisigWalletFixture } from "./fixtures";
+
+describe("MultisigWalletFactory", function () {
+  // Factory on top of the fixture's wallet, which serves as the implementation
+  async function deployFactoryFixture() {
+    const base = await deployMultisigWalletFixture();
+    const [, , thirdAccount, fourthAccount] = await hre.ethers.getSigners();
+
+    const MultisigWalletFactory = await hre.ethers.getContractFactory("MultisigWalletFactory");
+    const factory = await MultisigWalletFactory.deploy(base.multisigWallet.getAddress());
+
+    const config = {
+      primaryToken: await base.mockUSDC.getAddress(),
+      supportedTokens: [await base.mockUSDC.getAddress(), await base.mockDAI.getAddress()],
+      fixedMonthlyContribution: ethers.parseUnits("50", 6),
+      investmentThreshold: ethers.parseUnits("300", 6),
+      investmentPercentage: 40,
+      investmentReturnRate: 10,
+      uniswapRouter: await base.mockRouter.getAddress(),
+    };
+
+    return { ...base, factory, config, thirdAccount, fourthAccount };
+  }
+
+  // Factory with one group of three founding members (admin, otherAccount, thirdAccount), owned by admin
+  async function deployGroupFixture() {
+    const base = await deployFactoryFixture();
+    const { factory, config, admin, otherAccount, thirdAccount } = base;
+
+    const founders = [admin.address, otherAccount.address, thirdAccount.address];
+    await factory.createGroup(config, founders);
+    const group = await ethers.getContractAt("MultisigWallet", await factory.groups(0));
+
+    return { ...base, group, founders };
+  }
+
+  describe("createGroup", function () {
+    it("Should create an initialized group with its founding members", async function () {
+      const { factory, group, config, admin, founders } = await loadFixture(deployGroupFixture);
+
+      expect(await factory.groupCount()).to.equal(1);
+      expect(await factory.isGroup(group.getAddress())).to.equal(true);
+      expect(await group.owner()).to.equal(admin.address);
+      expect(await group.factory()).to.equal(await factory.getAddress());
+      expect(await group.primaryToken()).to.equal(config.primaryToken);
+      expect(await group.fixedMonthlyContribution()).to.equal(config.fixedMonthlyContribution);
+      expect(await group.investmentThreshold()).to.equal(config.investmentThreshold);
+      expect(await group.investmentPercentage()).to.equal(config.investmentPercentage);
+      expect(await group.uniswapRouter()).to.equal(config.uniswapRouter);
+      expect(await group.supportedTokenAddresses(config.supportedTokens[1])).to.equal(true);
+      expect(await group.totalParticipants()).to.equal(founders.length);
+      expect(await group.quorum()).to.equal(2);
+
+      // Defaults the constructor would have set
+      expect(await group.withdrawalFee()).to.equal(5);
+      expect(await group.votingPeriod()).to.equal(7 * 24 * 60 * 60);
+      expect(await group.active()).to.equal(true);
+    });
+
+    it("Should emit GroupCreated with the caller as owner", async function () {
+      const { factory, config, otherAccount, thirdAccount } = await loadFixture(deployFactoryFixture);
+
+      await expect(factory.connect(otherAccount).createGroup(config, [otherAccount.address, thirdAccount.address]))
+        .to.emit(factory, "GroupCreated")
+        .withArgs(anyValue, otherAccount.address, 2);
+
+      const group = await ethers.getContractAt("MultisigWallet", await factory.groups(0));
+      expect(await group.owner()).to.equal(otherAccount.address);
+    });
+
+    it("Should keep the groups independent of each other", async function () {
+      const { factory, group, config, admin, fourthAccount } = await loadFixture(deployGroupFixture);
+
+      await factory.connect(fourthAccount).createGroup({ ...config, fixedMonthlyContribution: ethers.parseUnits("10", 6) }, [admin.address]);
+      const second = await ethers.getContractAt("MultisigWallet", await factory.groups(1));
+
+      expect(await second.owner()).to.equal(fourthAccount.address);
+      expect(await second.fixedMonthlyContribution()).to.equal(ethers.parseUnits("10", 6));
+      expect(await second.totalParticipants()).to.equal(1);
+      expect(await group.fixedMonthlyContribution()).to.equal(config.fixedMonthlyContribution);
+      expect(await group.totalParticipants()).to.equal(3);
+    });
+
+    it("Should reject invalid founding members and a missing primary token", async function () {
+      const { factory, config, admin } = await loadFixture(deployFactoryFixture);
+
+      await expect(factory.createGroup(config, [admin.address, admin.address])).to.be.revertedWith("Participant already exists");
+      await expect(factory.createGroup({ ...config, primaryToken: ethers.ZeroAddress }, [admin.address])).to.be.revertedWith(
+        "Invalid primary token address"
+      );
+    });
+
+    it("Should reject an implementation that is not a contract", async function () {
+      const { otherAccount } = await loadFixture(deployFactoryFixture);
+      const MultisigWalletFactory = await hre.ethers.getContractFactory("MultisigWalletFactory");
+
+      await expect(MultisigWalletFactory.deploy(otherAccount.address)).to.be.revertedWith("Implementation is not a contract");
+    });
+  });
+
+  describe("initialize", function () {
+    it("Should not initialize a group twice", async function () {
+      const { group, config, otherAccount } = await loadFixture(deployGroupFixture);
+
+      await expect(
+        group.initialize(
+          otherAccount.address,
+          config.primaryToken,
+          config.supportedTokens,
+          config.fixedMonthlyContribution,
+          config.investmentThreshold,
+          config.investmentPercentage,
+          config.investmentReturnRate,
+          config.uniswapRouter,
+          [otherAccount.address]
+        )
+      ).to.be.revertedWith("Wallet is already initialized");
+    });
+
+    it("Should not initialize the implementation", async function () {
+      const { multisigWallet, config, otherAccount } = await loadFixture(deployFactoryFixture);
+
+      await expect(
+        multisigWallet.initialize(
+          otherAccount.address,
+          config.primaryToken,
+          config.supportedTokens,
+          config.fixedMonthlyContribution,
+          config.investmentThreshold,
+          config.investmentPercentage,
+          config.investmentReturnRate,
+          config.uniswapRouter,
+          []
+        )
+      ).to.be.revertedWith("Wallet is already initialized");
+    });
+  });
+
+  describe("member registry", function () {
+    it("Should list the groups of each member", async function () {
+      const { factory, group, config, admin, otherAccount, fourthAccount } = await loadFixture(deployGroupFixture);
+
+      await factory.createGroup(config, [admin.address, fourthAccount.address]);
+      const second = await factory.groups(1);
+
+      expect(await factory.getGroupsOf(admin.address)).to.deep.equal([await group.getAddress(), second]);
+      expect(await factory.getGroupsOf(otherAccount.address)).to.deep.equal([await group.getAddress()]);
+      expect(await factory.getGroupsOf(fourthAccount.address)).to.deep.equal([second]);
+      expect(await factory.getGroups()).to.deep.equal([await group.getAddress(), second]);
+    });
+
+    it("Should register members added later", async function () {
+      const { factory, group, admin, fourthAccount } = await loadFixture(deployGroupFixture);
+
+      await expect(group.connect(admin).addParticipant(fourthAccount.address))
+        .to.emit(factory, "MemberRegistered")
+        .withArgs(fourthAccount.address, await group.getAddress());
+      expect(await factory.getGroupsOf(fourthAccount.address)).to.deep.equal([await group.getAddress()]);
+    });
+
+    it("Should unregister members who leave the group", async function () {
+      const { factory, group, config, otherAccount, thirdAccount } = await loadFixture(deployGroupFixture);
+
+      // A second group keeps otherAccount in the registry after leaving the first
+      await factory.createGroup(config, [otherAccount.address]);
+      const second = await factory.groups(1);
+
+      await group.connect(otherAccount).proposeExit();
+      await expect(group.connect(thirdAccount).vote(0))
+        .to.emit(factory, "MemberUnregistered")
+        .withArgs(otherAccount.address, await group.getAddress());
+
+      expect(await factory.getGroupsOf(otherAccount.address)).to.deep.equal([second]);
+      expect(await group.totalParticipants()).to.equal(2);
+    });
+
+    it("Should only accept registry updates from its groups", async function () {
+      const { factory, multisigWallet, otherAccount } = await loadFixture(deployGroupFixture);
+
+      await expect(factory.connect(otherAccount).registerMember(otherAccount.address)).to.be.revertedWith("Caller is not a group");
+      await expect(factory.connect(otherAccount).unregisterMember(otherAccount.address)).to.be.revertedWith("Caller is not a group");
+
+      // The implementation was deployed directly, so it has no registry to report to
+      await multisigWallet.addParticipant(otherAccount.address);
+      expect(await factory.getGroupsOf(otherAccount.address)).to.have.lengthOf(1);
+    });
+  });
+
+  describe("groups", function () {
+    it("Should accept deposits and swaps", async function () {
+      const { group, mockUSDC, mockDAI, otherAccount } = await loadFixture(deployGroupFixture);
+
+      await mockUSDC.transfer(otherAccount.address, ethers.parseUnits("50", 6));
+      await mockUSDC.connect(otherAccount).approve(group.getAddress(), ethers.parseUnits("50", 6));
+      await group.connect(otherAccount).depositToken(mockUSDC.getAddress(), ethers.parseUnits("50", 6));
+
+      // Swaps run in the group through the libraries linked into the implementation
+      await mockDAI.transfer(otherAccount.address, ethers.parseUnits("50", 18));
+      await mockDAI.connect(otherAccount).approve(group.getAddress(), ethers.parseUnits("50", 18));
+      await group.connect(otherAccount).depositToken(mockDAI.getAddress(), ethers.parseUnits("50", 18));
+
+      expect((await group.connect(otherAccount).getParticipant()).balance).to.equal(ethers.parseUnits("100", 6));
+      expect(await group.totalSavings()).to.equal(ethers.parseUnits("100", 6));
+      expect(await mockUSDC.balanceOf(group.getAddress())).to.equal(ethers.parseUnits("100", 6));
+    });
+  });
+
+  describe("MultisigWalletFactoryClient", function () {
+    it("Should create, list and connect to groups", async function () {
+      const { factory, config, mockUSDC, admin, otherAccount, thirdAccount } = await loadFixture(deployFactoryFixture);
+      const client = MultisigWalletFactoryClient.connect(await factory.getAddress(), admin);
+
+      const groupClient = await client.createGroup(config, [admin.address, otherAccount.address, thirdAccount.address]);
+      const address = await groupClient.wallet.getAddress();
+
+      expect(await client.listGroups()).to.deep.equal([address]);
+      expect(await client.listGroupsOf()).to.deep.equal([address]);
+      expect(await client.listGroupsOf(otherAccount.address)).to.deep.equal([address]);
+
+      const summary = await client.getGroupSummary(address);
+      expect(summary.owner).to.equal(admin.address);
+      expect(summary.primaryToken).to.equal(config.primaryToken);
+      expect(summary.totalParticipants).to.equal(3);
+
+      // The returned client acts as the signer in the new group
+      await groupClient.deposit(await mockUSDC.getAddress(), ethers.parseUnits("50", 6));
+      expect((await client.getGroupSummary(address)).totalSavings).to.equal(ethers.parseUnits("50", 6));
+    });
+
+    it("Should decode revert reasons", async function () {
+      const { factory, config, admin } = await loadFixture(deployFactoryFixture);
+      const client = MultisigWalletFactoryClient.connect(await factory.getAddress(), admin);
+
+      await expect(client.createGroup({ ...config, primaryToken: ethers.ZeroAddress }, [])).to.be.rejectedWith(
+        "Invalid primary token address"
+      );
+    });
+  });
+
+  describe("Ignition deployment", function () {
+    it("Should deploy the mocks, the implementation and the factory", async function () {
+      const [admin, otherAccount, thirdAccount] = await hre.ethers.getSigners();
+      const deployment = await hre.ignition.deploy(LocalMultisigWalletFactoryModule);
+      const factory = await ethers.getContractAt("MultisigWalletFactory", await deployment.multisigWalletFactory.getAddress());
+      const mockUSDC = await ethers.getContractAt("MockERC20", await deployment.mockUSDC.getAddress());
+
+      expect(await factory.implementation()).to.equal(await deployment.implementation.getAddress());
+
+      await factory.createGroup(
+        {
+          primaryToken: await mockUSDC.getAddress(),
+          supportedTokens: [await mockUSDC.getAddress()],
+          fixedMonthlyContribution: ethers.parseUnits("100", 6),
+          investmentThreshold: ethers.parseUnits("200", 6),
+          investmentPercentage: 50,
+          investmentReturnRate: 15,
+          uniswapRouter: await deployment.mockRouter.getAddress(),
+        },
+        [admin.address, otherAccount.address, thirdAccount.address]
+      );
+      const group = await ethers.getContractAt("MultisigWallet", await factory.groups(0));
+
+      await mockUSDC.approve(group.getAddress(), ethers.parseUnits("100", 6));
+      await group.depositToken(mockUSDC.getAddress(), ethers.parseUnits("100", 6));
+      expect(await group.totalSavings()).to.equal(ethers.parseUnits("100", 6));
+    });
+  });
+});
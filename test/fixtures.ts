@@ -0,0 +1,121 @@
+import hre, { ethers } from "hardhat";
+import { BigNumberish, Signer } from "ethers";
+import { MultisigWallet } from "../typechain-types";
+
+// Shared fixtures and helpers for the MultisigWallet and SDK tests
+
+// Deploys the external libraries MultisigWallet links against, keyed by library name
+export async function deployWalletLibraries() {
+  const libraries: Record<string, string> = {};
+  for (const name of ["SwapLibrary", "LedgerLibrary", "WithdrawalLibrary", "ProposalLibrary"]) {
+    const library = await (await hre.ethers.getContractFactory(name)).deploy();
+    libraries[name] = await library.getAddress();
+  }
+
+  // AssetLibrary swaps and logs through the libraries above
+  const AssetLibrary = await hre.ethers.getContractFactory("AssetLibrary", {
+    libraries: { SwapLibrary: libraries.SwapLibrary, LedgerLibrary: libraries.LedgerLibrary },
+  });
+  libraries.AssetLibrary = await (await AssetLibrary.deploy()).getAddress();
+  return libraries;
+}
+
+// Fixture to deploy the contract and set up necessary variables
+export async function deployMultisigWalletFixture() {
+  const [admin, otherAccount] = await hre.ethers.getSigners();
+
+  // Deploy mock ERC20 tokens (simulating USDC, DAI, UNI and LINK)
+  // Mock USDC supports EIP-2612 permits like the real token, for depositWithPermit
+  const MockERC20 = await hre.ethers.getContractFactory("MockERC20");
+  const MockERC20Permit = await hre.ethers.getContractFactory("MockERC20Permit");
+  const mockUSDC = await MockERC20Permit.deploy("Mock USDC", "mUSDC", 6, ethers.parseUnits("100000", 6)); // Mint 100000 mock USDC
+  const mockDAI = await MockERC20.deploy("Mock DAI", "mDAI", 18, ethers.parseUnits("100000", 18));
+  const mockUNI = await MockERC20.deploy("Mock UNI", "mUNI", 18, ethers.parseUnits("100000", 18));
+  const mockLINK = await MockERC20.deploy("Mock LINK", "mLINK", 18, ethers.parseUnits("100000", 18));
+
+  // Deploy a mock Uniswap V2 router with fixed rates (1 DAI = 1 USDC, 1 UNI = 8 USDC, 1 LINK = 12 USDC)
+  const MockUniswapV2Router = await hre.ethers.getContractFactory("MockUniswapV2Router");
+  const mockRouter = await MockUniswapV2Router.deploy();
+  await mockRouter.setRate(mockDAI.getAddress(), mockUSDC.getAddress(), ethers.parseUnits("1", 6));
+  await mockRouter.setRate(mockUNI.getAddress(), mockUSDC.getAddress(), ethers.parseUnits("8", 6));
+  await mockRouter.setRate(mockLINK.getAddress(), mockUSDC.getAddress(), ethers.parseUnits("12", 6));
+  await mockUSDC.transfer(mockRouter.getAddress(), ethers.parseUnits("50000", 6)); // Liquidity for swaps
+
+  // Define the token addresses and Uniswap router
+  const usdcAddress = mockUSDC.getAddress();
+  const daiAddress = mockDAI.getAddress();
+  const uniAddress = mockUNI.getAddress();
+  const linkAddress = mockLINK.getAddress();
+  const supportedTokens = [usdcAddress, daiAddress, uniAddress, linkAddress];
+  const primaryToken = usdcAddress; // USDC as primary token
+  const fixedMonthlyContribution = ethers.parseUnits("100", 6); // 100 USDC
+  const investmentThreshold = ethers.parseUnits("200", 6); // 200 USDC
+  const investmentPercentage = 50; // 50%
+  const investmentReturnRate = 15; // 1.5% monthly
+  const uniswapRouter = mockRouter.getAddress();
+  
+  // Deploy the libraries and link them into the MultisigWallet contract
+  const libraries = await deployWalletLibraries();
+
+  // Deploy the MultisigWallet contract with the constructor arguments
+  const MultisigWallet = await hre.ethers.getContractFactory("MultisigWallet", { libraries });
+  const multisigWallet = await MultisigWallet.deploy(
+    primaryToken,
+    supportedTokens,
+    fixedMonthlyContribution,
+    investmentThreshold,
+    investmentPercentage,
+    investmentReturnRate,
+    uniswapRouter
+  );
+
+  return { multisigWallet, admin, otherAccount, mockUSDC, mockDAI, mockUNI, mockLINK, mockRouter, uniswapRouter };
+}
+
+// Adds two more members so that a single participant's wallet reaches the 3-participant minimum and accepts deposits
+export async function completeGroup(multisigWallet: MultisigWallet) {
+  const signers = await hre.ethers.getSigners();
+  const members = [signers[10], signers[11]];
+  for (const member of members) {
+    await multisigWallet.addParticipant(member.address);
+  }
+  return members;
+}
+
+export async function advanceDays(days: number) {
+  await ethers.provider.send("evm_increaseTime", [days * 24 * 60 * 60]);
+  await ethers.provider.send("evm_mine");
+}
+
+// Queues an owner change to the timelocked setter `name` under `value` and waits out the timelock, so that the setter
+// can be called with the matching arguments
+export async function queueChange(multisigWallet: MultisigWallet, name: Parameters<MultisigWallet["interface"]["getFunction"]>[0], value: BigNumberish) {
+  await multisigWallet.queueParameterChange(multisigWallet.interface.getFunction(name).selector, value);
+  await advanceDays(2);
+}
+
+// Proposes an investment as `proposer` and has `voter` approve it, which reaches quorum in the three-member fixtures.
+// Returns the vote transaction, which executes the investment.
+export async function investByVote(multisigWallet: MultisigWallet, proposer: Signer, voter: Signer) {
+  const proposalId = await multisigWallet.proposalCount();
+  await multisigWallet.connect(proposer).invest();
+  return multisigWallet.connect(voter).vote(proposalId);
+}
+
+// Fixture with three participants (admin, otherAccount, thirdAccount), so quorum is 2
+export async function deployWithParticipantsFixture() {
+  const base = await deployMultisigWalletFixture();
+  const { multisigWallet, admin, otherAccount, mockUSDC } = base;
+  const [, , thirdAccount, nonParticipant] = await hre.ethers.getSigners();
+
+  await multisigWallet.connect(admin).addParticipant(admin.address);
+  await multisigWallet.connect(admin).addParticipant(otherAccount.address);
+  await multisigWallet.connect(admin).addParticipant(thirdAccount.address);
+
+  // Give otherAccount a balance to withdraw from
+  await mockUSDC.transfer(otherAccount.address, ethers.parseUnits("200", 6));
+  await mockUSDC.connect(otherAccount).approve(multisigWallet.getAddress(), ethers.parseUnits("200", 6));
+  await multisigWallet.connect(otherAccount).depositToken(mockUSDC.getAddress(), ethers.parseUnits("200", 6));
+
+  return { ...base, thirdAccount, nonParticipant };
+}
@@ -0,0 +1,178 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre, { ethers } from "hardhat";
+import { buildStatements, createEventStore, EventStore, indexEvents, loadEventStore, MonthlyStatement, saveEventStore, statementsToCsv } from "../sdk";
+import { advanceDays, deployWithParticipantsFixture, investByVote, queueChange } from "./fixtures";
+
+describe("event indexer and statements", function () {
+  // Scripted scenario over three calendar months, starting on 10 January 2035 (UTC)
+  async function deployScenarioFixture() {
+    await time.increaseTo(Date.UTC(2035, 0, 10) / 1000);
+    const base = await deployWithParticipantsFixture();
+    const { multisigWallet, admin, otherAccount, thirdAccount, mockUSDC, mockDAI } = base;
+    const walletAddress = await multisigWallet.getAddress();
+    const startBlock = (await multisigWallet.deploymentTransaction()!.wait())!.blockNumber;
+
+    // January: admin pays in USDC, thirdAccount in DAI; otherAccount deposited 200 in the fixture
+    await queueChange(multisigWallet, "updateLatePenaltyRate", 10);
+    await multisigWallet.updateLatePenaltyRate(10);
+    await mockUSDC.approve(walletAddress, ethers.parseUnits("100", 6));
+    await multisigWallet.depositToken(mockUSDC.getAddress(), ethers.parseUnits("100", 6));
+    await mockDAI.transfer(thirdAccount.address, ethers.parseUnits("400", 18));
+    await mockDAI.connect(thirdAccount).approve(walletAddress, ethers.parseUnits("400", 18));
+    await multisigWallet.connect(thirdAccount).depositToken(mockDAI.getAddress(), ethers.parseUnits("100", 18));
+
+    // Half the savings go into a vault that earns 40 USDC
+    const MockYieldVault = await hre.ethers.getContractFactory("MockYieldVault");
+    const vault = await MockYieldVault.deploy(mockUSDC.getAddress());
+    await multisigWallet.proposeStrategyChange(vault.getAddress());
+    await multisigWallet.connect(otherAccount).vote(0);
+    await investByVote(multisigWallet, admin, otherAccount);
+    await mockUSDC.approve(vault.getAddress(), ethers.parseUnits("40", 6));
+    await vault.accrueYield(ethers.parseUnits("40", 6));
+
+    // February: interest is credited and otherAccount withdraws 100 (5 USDC fee)
+    await advanceDays(30);
+    await multisigWallet.distributeInterest(10);
+    await multisigWallet.connect(otherAccount).requestWithdrawal(ethers.parseUnits("100", 6));
+    await multisigWallet.approveWithdrawal(1);
+    await multisigWallet.connect(thirdAccount).approveWithdrawal(1);
+    await multisigWallet.connect(otherAccount).withdraw(ethers.parseUnits("100", 6));
+
+    // March: thirdAccount pays the missed February cycle late with a 10% penalty; admin stays behind; fees are shared out
+    await advanceDays(22);
+    await multisigWallet.connect(thirdAccount).depositToken(mockDAI.getAddress(), ethers.parseUnits("210", 18));
+    await multisigWallet.distributeFees();
+    await advanceDays(10);
+
+    return { ...base, walletAddress, startBlock };
+  }
+
+  async function indexScenario(wallet: Awaited<ReturnType<typeof deployScenarioFixture>>["multisigWallet"], startBlock: number) {
+    const store = createEventStore(await wallet.getAddress(), (await ethers.provider.getNetwork()).chainId);
+    await indexEvents(wallet, store, { fromBlock: startBlock });
+    return store;
+  }
+
+  // Sums of the participant's on-chain transaction log, by type
+  async function onChainTotals(scenario: Awaited<ReturnType<typeof deployScenarioFixture>>, account: string) {
+    const wallet = scenario.multisigWallet.connect(await ethers.getSigner(account));
+    const logs = await wallet.getTransactionLogs(0, 100);
+    const sum = (types: number[], field: "amount" | "fee") =>
+      logs.filter((log) => types.includes(Number(log.transactionType))).reduce((total, log) => total + log[field], 0n);
+
+    return {
+      contributions: sum([0, 1], "amount"),
+      withdrawals: sum([3, 4, 7], "amount"),
+      interest: sum([5], "amount"),
+      feeShares: sum([6], "amount"),
+      feesPaid: sum([0, 1, 2, 3, 4, 5, 6, 7], "fee"),
+    };
+  }
+
+  function total(statements: MonthlyStatement[], field: "contributions" | "withdrawals" | "interest" | "feeShares" | "feesPaid") {
+    return statements.reduce((sum, statement) => sum + statement[field], 0n);
+  }
+
+  it("Should produce statements that match the on-chain balances and transaction logs", async function () {
+    const scenario = await loadFixture(deployScenarioFixture);
+    const { multisigWallet, admin, otherAccount, thirdAccount, startBlock } = scenario;
+    const store = await indexScenario(multisigWallet, startBlock);
+
+    for (const signer of [admin, otherAccount, thirdAccount]) {
+      const account = signer.address;
+      const statements = buildStatements(store, { participant: account });
+      expect(statements.map((statement) => statement.month)).to.deep.equal(["2035-01", "2035-02", "2035-03"]);
+
+      // Each month opens with the previous month's closing balance
+      for (let i = 1; i < statements.length; i++) {
+        expect(statements[i].openingBalance).to.equal(statements[i - 1].closingBalance);
+      }
+      expect(statements[2].closingBalance).to.equal(await multisigWallet.connect(signer).checkBalance());
+
+      const onChain = await onChainTotals(scenario, account);
+      expect(total(statements, "contributions")).to.equal(onChain.contributions);
+      expect(total(statements, "withdrawals")).to.equal(onChain.withdrawals);
+      expect(total(statements, "interest")).to.equal(onChain.interest);
+      expect(total(statements, "feeShares")).to.equal(onChain.feeShares);
+      expect(total(statements, "feesPaid")).to.equal(onChain.feesPaid);
+
+      // Arrears at the end of the statement period match the contract's view
+      expect(statements[2].arrearsOutstanding).to.equal((await multisigWallet.connect(signer).getContributionStatus()).arrears);
+    }
+  });
+
+  it("Should report arrears, late penalties, fees and interest by month", async function () {
+    const { multisigWallet, admin, otherAccount, thirdAccount, startBlock } = await loadFixture(deployScenarioFixture);
+    const store = await indexScenario(multisigWallet, startBlock);
+
+    // thirdAccount falls a cycle behind in February and makes it up in March
+    const [, thirdFebruary, thirdMarch] = buildStatements(store, { participant: thirdAccount.address });
+    expect(thirdFebruary.arrearsOutstanding).to.equal(ethers.parseUnits("100", 6));
+    expect(thirdMarch.contributions).to.equal(ethers.parseUnits("200", 6));
+    expect(thirdMarch.arrearsSettled).to.equal(ethers.parseUnits("100", 6));
+    expect(thirdMarch.feesPaid).to.equal(ethers.parseUnits("10", 6));
+    expect(thirdMarch.arrearsOutstanding).to.equal(0);
+
+    // admin last paid on 10 January: one cycle is overdue by the end of February, two by 13 March
+    const [adminJanuary, adminFebruary, adminMarch] = buildStatements(store, { participant: admin.address });
+    expect(adminJanuary.arrearsOutstanding).to.equal(0);
+    expect(adminFebruary.arrearsOutstanding).to.equal(ethers.parseUnits("100", 6));
+    expect(adminMarch.arrearsOutstanding).to.equal(ethers.parseUnits("200", 6));
+    expect(adminFebruary.interest).to.be.greaterThan(0);
+
+    const [, otherFebruary, otherMarch] = buildStatements(store, { participant: otherAccount.address });
+    expect(otherFebruary.withdrawals).to.equal(ethers.parseUnits("100", 6));
+    expect(otherFebruary.feesPaid).to.equal(ethers.parseUnits("5", 6));
+    expect(otherMarch.feeShares).to.be.greaterThan(0);
+  });
+
+  it("Should resume indexing where the last run stopped", async function () {
+    const { multisigWallet, startBlock } = await loadFixture(deployScenarioFixture);
+    const latest = await ethers.provider.getBlockNumber();
+
+    const store = createEventStore(await multisigWallet.getAddress(), (await ethers.provider.getNetwork()).chainId);
+    const first = await indexEvents(multisigWallet, store, { fromBlock: startBlock, toBlock: startBlock + 10, batchSize: 3 });
+    expect(store.lastBlock).to.equal(startBlock + 10);
+
+    // Round-trip through the JSON file before the second run
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "indexer-")), "store.json");
+    saveEventStore(file, store);
+    const reloaded = loadEventStore(file) as EventStore;
+    const second = await indexEvents(multisigWallet, reloaded);
+    expect(reloaded.lastBlock).to.equal(latest);
+
+    const full = await indexScenario(multisigWallet, startBlock);
+    expect(first + second).to.equal(full.events.length);
+    expect(reloaded.events).to.deep.equal(full.events);
+    expect(reloaded.parameters).to.deep.equal(full.parameters);
+    expect(await indexEvents(multisigWallet, reloaded)).to.equal(0);
+  });
+
+  it("Should write statements through the Hardhat tasks", async function () {
+    const { multisigWallet, walletAddress, startBlock } = await loadFixture(deployScenarioFixture);
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "statements-"));
+    const storeFile = path.join(dir, "store.json");
+    const csvFile = path.join(dir, "statements.csv");
+
+    const log = console.log;
+    console.log = () => {};
+    try {
+      await hre.run("index-events", { wallet: walletAddress, store: storeFile, fromBlock: startBlock });
+      await hre.run("statements", { store: storeFile, format: "csv", out: csvFile });
+    } finally {
+      console.log = log;
+    }
+
+    const expected = statementsToCsv(buildStatements(await indexScenario(multisigWallet, startBlock)));
+    const csv = fs.readFileSync(csvFile, "utf8");
+    expect(csv).to.equal(expected);
+    expect(csv.split("\n")[0]).to.equal(
+      "participant,month,openingBalance,contributions,arrearsSettled,feesPaid,interest,feeShares,withdrawals,closingBalance,arrearsOutstanding"
+    );
+    expect(csv.trim().split("\n")).to.have.length(1 + 3 * 3);
+  });
+});
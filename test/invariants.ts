@@ -0,0 +1,176 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { decodeMultisigWalletError, MultisigWalletError } from "../sdk";
+import { advanceDays, deployWithParticipantsFixture, investByVote } from "./fixtures";
+
+// Randomized sequences of deposits, investments, withdrawals, emergency withdrawals, yield and time travel,
+// with the wallet's accounting checked after every step. Reproduce a failure with INVARIANT_SEEDS=<seed>;
+// INVARIANT_STEPS sets the sequence length.
+const SEEDS = (process.env.INVARIANT_SEEDS ?? "1,2,3").split(",").map(Number);
+const STEPS = Number(process.env.INVARIANT_STEPS ?? 30);
+
+// Business rules that may legitimately reject a random action; anything else fails the run
+const EXPECTED_REVERTS = new Set([
+  "Total savings below investment threshold",
+  "Nothing to invest",
+  "Interest distribution in progress",
+  "No interest period has elapsed",
+  "No fees to distribute",
+  "No participant balances to share fees with",
+  "Withdrawals are limited to once every 6 months",
+  "Investment lock period has not ended",
+  "Cannot use emergency withdrawal after the lock period",
+  "No balance to withdraw",
+]);
+
+// Small deterministic PRNG (mulberry32), so that a seed always replays the same sequence
+function random(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    int: (min: number, max: number) => min + Math.floor(next() * (max - min + 1)),
+    pick: <T>(items: readonly T[]) => items[Math.floor(next() * items.length)],
+  };
+}
+
+describe("solvency invariants", function () {
+  async function deployFuzzFixture() {
+    const base = await deployWithParticipantsFixture();
+    const { multisigWallet, admin, otherAccount, thirdAccount, mockUSDC, mockDAI } = base;
+    const members = [admin, otherAccount, thirdAccount];
+
+    const MockYieldVault = await hre.ethers.getContractFactory("MockYieldVault");
+    const vault = await MockYieldVault.deploy(mockUSDC.getAddress());
+    await multisigWallet.proposeStrategyChange(vault.getAddress());
+    await multisigWallet.connect(otherAccount).vote(0);
+    await mockUSDC.approve(vault.getAddress(), ethers.MaxUint256);
+
+    for (const member of members) {
+      if (member !== admin) {
+        await mockUSDC.transfer(member.address, ethers.parseUnits("20000", 6));
+        await mockDAI.transfer(member.address, ethers.parseUnits("20000", 18));
+      }
+      await mockUSDC.connect(member).approve(multisigWallet.getAddress(), ethers.MaxUint256);
+      await mockDAI.connect(member).approve(multisigWallet.getAddress(), ethers.MaxUint256);
+    }
+
+    return { ...base, vault, members };
+  }
+
+  type Fixture = Awaited<ReturnType<typeof deployFuzzFixture>>;
+
+  // Runs an action, tolerating the reverts in EXPECTED_REVERTS
+  async function attempt(action: () => Promise<unknown>): Promise<boolean> {
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      const decoded = decodeMultisigWalletError(error);
+      if (decoded instanceof MultisigWalletError && EXPECTED_REVERTS.has(decoded.reason)) {
+        return false;
+      }
+      throw decoded;
+    }
+  }
+
+  async function checkInvariants({ multisigWallet, vault, mockUSDC, members }: Fixture) {
+    const records = await Promise.all(members.map((member) => multisigWallet.connect(member).getParticipant()));
+    const totalSavings = await multisigWallet.totalSavings();
+    const investmentBalance = await multisigWallet.investmentBalance();
+
+    // Aggregates match the member records
+    expect(records.reduce((sum, record) => sum + record.balance, 0n)).to.equal(totalSavings);
+    expect(records.reduce((sum, record) => sum + record.investedAmount, 0n)).to.equal(investmentBalance);
+    for (const record of records) {
+      expect(record.investedAmount).to.be.lessThanOrEqual(record.balance);
+    }
+    expect(await vault.principalOf(multisigWallet.getAddress())).to.equal(investmentBalance);
+
+    // Every token in the wallet is accounted for: liquid balances, fees and yield not credited yet
+    const round = await multisigWallet.interestRound();
+    const roundRemainder = round.inProgress ? round.interest - round.distributed : 0n;
+    const owedFromWallet = totalSavings - investmentBalance + (await multisigWallet.feeReserve()) + round.undistributedYield + roundRemainder;
+    expect(await mockUSDC.balanceOf(multisigWallet.getAddress())).to.equal(owedFromWallet);
+
+    const report = await multisigWallet.solvencyReport();
+    expect(report.solvent).to.equal(true);
+    expect(report.liabilities).to.equal(totalSavings + (await multisigWallet.feeReserve()) + round.undistributedYield + roundRemainder);
+  }
+
+  async function deposit(fixture: Fixture, member: HardhatEthersSigner, extra: bigint, inDAI: boolean) {
+    const { multisigWallet, mockUSDC, mockDAI } = fixture;
+    const amount = (await multisigWallet.connect(member).getContributionStatus()).requiredContribution + extra;
+    if (inDAI) {
+      // The mock router swaps DAI for USDC 1:1
+      await multisigWallet.connect(member).depositToken(mockDAI.getAddress(), amount * 10n ** 12n);
+    } else {
+      await multisigWallet.connect(member).depositToken(mockUSDC.getAddress(), amount);
+    }
+  }
+
+  async function withdraw(fixture: Fixture, member: HardhatEthersSigner, amount: bigint) {
+    const { multisigWallet, members } = fixture;
+    const requestId = await multisigWallet.withdrawalRequestCount() + 1n;
+    await multisigWallet.connect(member).requestWithdrawal(amount);
+    for (const approver of members.filter((other) => other !== member)) {
+      await multisigWallet.connect(approver).approveWithdrawal(requestId);
+    }
+    await multisigWallet.connect(member).withdraw(amount);
+  }
+
+  for (const seed of SEEDS) {
+    it(`Should stay solvent and balanced over ${STEPS} random steps (seed ${seed})`, async function () {
+      const fixture = await loadFixture(deployFuzzFixture);
+      const { multisigWallet, vault, members } = fixture;
+      const rng = random(seed);
+      const history: string[] = [];
+
+      for (let step = 0; step < STEPS; step++) {
+        const member = rng.pick(members);
+        const name = `${step}: ${rng.pick(["deposit", "deposit", "invest", "withdraw", "emergencyWithdraw", "yield", "distributeInterest", "distributeFees", "timeTravel"] as const)}`;
+        const action = name.split(": ")[1];
+        history.push(`${name} by ${members.indexOf(member)}`);
+
+        try {
+          if (action === "deposit") {
+            await deposit(fixture, member, ethers.parseUnits(rng.int(0, 300).toString(), 6), rng.int(0, 1) === 1);
+          } else if (action === "invest") {
+            // Another member's vote reaches quorum in the three-member group
+            const voter = rng.pick(members.filter((other) => other !== member));
+            await attempt(() => investByVote(multisigWallet, member, voter));
+          } else if (action === "withdraw") {
+            const record = await multisigWallet.connect(member).getParticipant();
+            if (record.balance > 0n) {
+              const amount = (record.balance * BigInt(rng.int(1, 100))) / 100n;
+              await attempt(() => withdraw(fixture, member, amount > 0n ? amount : 1n));
+            }
+          } else if (action === "emergencyWithdraw") {
+            await attempt(() => multisigWallet.connect(member).emergencyWithdraw());
+          } else if (action === "yield") {
+            if ((await vault.totalAssets()) > 0n) {
+              await vault.accrueYield(ethers.parseUnits(rng.int(1, 40).toString(), 6));
+            }
+          } else if (action === "distributeInterest") {
+            await attempt(() => multisigWallet.distributeInterest(rng.int(1, 3)));
+          } else if (action === "distributeFees") {
+            await attempt(() => multisigWallet.distributeFees());
+          } else {
+            await advanceDays(rng.int(1, 60));
+          }
+
+          await checkInvariants(fixture);
+        } catch (error) {
+          throw new Error(`Seed ${seed} failed after:\n  ${history.join("\n  ")}\n${(error as Error).message}`);
+        }
+      }
+    });
+  }
+});
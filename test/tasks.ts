@@ -0,0 +1,123 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { MultisigWalletError } from "../sdk";
+import { advanceDays, deployWithParticipantsFixture, queueChange } from "./fixtures";
+
+describe("wallet tasks", function () {
+  // The tasks print their reports; keep the test output readable
+  const log = console.log;
+  let output: string[];
+
+  beforeEach(function () {
+    output = [];
+    console.log = (...args: unknown[]) => output.push(args.join(" "));
+  });
+
+  afterEach(function () {
+    console.log = log;
+  });
+
+  async function deployTasksFixture() {
+    const base = await deployWithParticipantsFixture();
+    return { ...base, walletAddress: await base.multisigWallet.getAddress() };
+  }
+
+  it("Should require a deployment or an explicit wallet address", async function () {
+    await expect(hre.run("status", {})).to.be.rejectedWith("No Ignition deployment found for chain 31337");
+  });
+
+  it("Should add a participant, or only report the change in a dry run", async function () {
+    const { multisigWallet, walletAddress, nonParticipant } = await loadFixture(deployTasksFixture);
+
+    const dryRun = await hre.run("add-participant", { wallet: walletAddress, participant: nonParticipant.address, dryRun: true });
+    expect(dryRun).to.deep.equal({ ok: true, totalParticipants: 4n });
+    expect(await multisigWallet.totalParticipants()).to.equal(3);
+    expect(output).to.include("Quorum: 2 -> 3");
+
+    await hre.run("add-participant", { wallet: walletAddress, participant: nonParticipant.address });
+    expect(await multisigWallet.totalParticipants()).to.equal(4);
+  });
+
+  it("Should print the expected credit and late penalty of a deposit", async function () {
+    const { multisigWallet, walletAddress, thirdAccount, mockUSDC, mockDAI } = await loadFixture(deployTasksFixture);
+
+    await queueChange(multisigWallet, "updateLatePenaltyRate", 10);
+    await multisigWallet.updateLatePenaltyRate(10);
+    await advanceDays(29);
+    await mockDAI.transfer(thirdAccount.address, ethers.parseUnits("210", 18));
+
+    // Without an allowance the task still reports the expected amounts
+    const args = { wallet: walletAddress, from: thirdAccount.address, token: await mockDAI.getAddress(), amount: "210", dryRun: true };
+    expect(await hre.run("deposit", args)).to.deep.equal({ ok: true, credited: ethers.parseUnits("200", 6), penalty: ethers.parseUnits("10", 6) });
+    expect(output).to.include("Balance: 0.0 mUSDC -> 200.0 mUSDC");
+
+    const short = await hre.run("deposit", { ...args, amount: "150" });
+    expect(short.ok).to.equal(false);
+
+    // A real deposit approves and deposits in one go
+    await hre.run("deposit", { ...args, dryRun: false });
+    expect((await multisigWallet.connect(thirdAccount).getParticipant()).balance).to.equal(ethers.parseUnits("200", 6));
+    expect(await multisigWallet.feeReserve()).to.equal(ethers.parseUnits("10", 6));
+    expect(await mockUSDC.balanceOf(walletAddress)).to.equal(ethers.parseUnits("410", 6));
+  });
+
+  it("Should approve a withdrawal and simulate the fee on withdraw", async function () {
+    const { multisigWallet, walletAddress, admin, otherAccount, thirdAccount, mockUSDC } = await loadFixture(deployTasksFixture);
+
+    await multisigWallet.connect(otherAccount).requestWithdrawal(ethers.parseUnits("100", 6));
+    await hre.run("approve-withdrawal", { wallet: walletAddress, from: admin.address, request: 1 });
+
+    // One approval is still missing
+    const early = await hre.run("withdraw", { wallet: walletAddress, from: otherAccount.address, amount: "100", dryRun: true });
+    expect(early.ok).to.equal(false);
+    expect(output).to.include('withdraw: would revert with "Quorum approval not met"');
+
+    const approval = await hre.run("approve-withdrawal", { wallet: walletAddress, from: thirdAccount.address, request: 1, dryRun: true });
+    expect(approval).to.deep.equal({ ok: true, approvedCount: 2n });
+    await hre.run("approve-withdrawal", { wallet: walletAddress, from: thirdAccount.address, request: 1 });
+
+    const dryRun = await hre.run("withdraw", { wallet: walletAddress, from: otherAccount.address, amount: "100", dryRun: true });
+    expect(dryRun).to.deep.equal({ ok: true, fee: ethers.parseUnits("5", 6), received: ethers.parseUnits("95", 6) });
+    expect(await mockUSDC.balanceOf(otherAccount.address)).to.equal(0);
+
+    await hre.run("withdraw", { wallet: walletAddress, from: otherAccount.address, amount: "100" });
+    expect(await mockUSDC.balanceOf(otherAccount.address)).to.equal(ethers.parseUnits("95", 6));
+  });
+
+  it("Should surface reverts as decoded errors", async function () {
+    const { walletAddress, otherAccount } = await loadFixture(deployTasksFixture);
+
+    await expect(hre.run("approve-withdrawal", { wallet: walletAddress, from: otherAccount.address, request: 1 }))
+      .to.be.rejectedWith(MultisigWalletError, "Withdrawal request does not exist");
+  });
+
+  it("Should queue and then apply parameter changes", async function () {
+    const { multisigWallet, walletAddress } = await loadFixture(deployTasksFixture);
+
+    const params = { wallet: walletAddress, withdrawalFee: 8, monthlyContribution: "150", latePenaltyRate: 10 };
+    await hre.run("update-params", { ...params, queue: true });
+
+    expect(await hre.run("update-params", { ...params, dryRun: true })).to.deep.equal([false, false, false]);
+    expect(output).to.include('updateWithdrawalFee 5% -> 8%: would revert with "Timelock has not expired"');
+
+    await advanceDays(2);
+    expect(await hre.run("update-params", { ...params, dryRun: true })).to.deep.equal([true, true, true]);
+    await hre.run("update-params", params);
+
+    expect(await multisigWallet.withdrawalFee()).to.equal(8);
+    expect(await multisigWallet.fixedMonthlyContribution()).to.equal(ethers.parseUnits("150", 6));
+    expect(await multisigWallet.latePenaltyRate()).to.equal(10);
+  });
+
+  it("Should print the wallet status and the sender's own position", async function () {
+    const { walletAddress, otherAccount, nonParticipant } = await loadFixture(deployTasksFixture);
+
+    await hre.run("status", { wallet: walletAddress, from: otherAccount.address });
+    expect(output).to.include("Participants: 3, quorum: 2");
+    expect(output).to.include(`${otherAccount.address}: balance 200.0 mUSDC, invested 0.0 mUSDC, interest 0.0 mUSDC`);
+
+    await hre.run("status", { wallet: walletAddress, from: nonParticipant.address });
+    expect(output).to.include(`${nonParticipant.address} is not a participant`);
+  });
+});